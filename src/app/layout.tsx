@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import Sidebar from "@/components/layout/Sidebar";
+import { getAllMilestones } from "@/lib/milestones";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,14 +14,16 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const milestones = getAllMilestones();
+
 export const metadata: Metadata = {
   title: "Plan for Change — UK Government Milestones Dashboard",
-  description:
-    "Track the UK Government's 6 Plan for Change milestones: KPIs, Whitehall outputs, parliamentary activity, and media commentary.",
+  description: `Track the UK Government's ${milestones.length} Plan for Change milestones: KPIs, Whitehall outputs, parliamentary activity, and media commentary.`,
   openGraph: {
     title: "Plan for Change — UK Government Milestones Dashboard",
-    description:
-      "Track the UK Government's 6 Plan for Change milestones: economic growth, housing, NHS, policing, education, and clean energy.",
+    description: `Track the UK Government's ${milestones.length} Plan for Change milestones: ${milestones
+      .map((m) => m.shortTitle)
+      .join(", ")}.`,
     type: "website",
   },
 };
@@ -36,7 +39,9 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <div className="flex min-h-screen">
-          <Sidebar />
+          <Sidebar
+            milestones={milestones.map(({ slug, shortTitle, icon }) => ({ slug, shortTitle, icon }))}
+          />
           <main className="flex-1 overflow-auto pt-14 lg:pt-0">{children}</main>
         </div>
       </body>
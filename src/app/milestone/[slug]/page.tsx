@@ -1,9 +1,11 @@
 import { notFound } from "next/navigation";
 import { getMilestone, MILESTONE_SLUGS } from "@/lib/milestones";
+import { splitLatestSeries } from "@/lib/kpi-lineage";
 import { initDb, getDb } from "@/lib/db";
 import type {
   MilestoneSlug,
-  KpiSnapshot,
+  KpiMetricSeries,
+  KpiVintage,
   Output,
   MediaArticle,
   CommitteeInquiry,
@@ -11,6 +13,8 @@ import type {
   BillStage,
 } from "@/lib/types";
 import KpiDetail from "@/components/kpi/KpiDetail";
+import KpiRevisions from "@/components/kpi/KpiRevisions";
+import QuarantineWarning from "@/components/kpi/QuarantineWarning";
 import OutputCard from "@/components/outputs/OutputCard";
 import KeyOutputsPanel from "@/components/outputs/KeyOutputsPanel";
 import Collapsible from "@/components/ui/Collapsible";
@@ -22,6 +26,12 @@ import DocumentGrounding from "@/components/me/DocumentGrounding";
 import DeliveryTracker from "@/components/me/DeliveryTracker";
 import { getMEFramework } from "@/lib/me-framework";
 import { enrichDeliverables } from "@/lib/me-matching";
+import { getKpiFreshness, type SourceFreshness } from "@/lib/refresh-log";
+import { computeDeliveryProgress } from "@/lib/delivery-progress";
+import { assessTrajectory } from "@/lib/forecast";
+import { computeBaselineProgress, resolveBaselineMetrics } from "@/lib/baseline-progress";
+import { mapKpiRow } from "@/lib/queries";
+import { getQuarantinedBatches, type QuarantinedBatch } from "@/lib/kpi-quarantine";
 
 export function generateStaticParams() {
   return MILESTONE_SLUGS.map((slug) => ({ slug }));
@@ -64,11 +74,55 @@ export default async function MilestonePage({
 
   const milestone = getMilestone(slug as MilestoneSlug);
 
-  const kpiHistory = queryDb<KpiSnapshot>(
-    "SELECT milestone_slug as milestoneSlug, value, date, label, fetched_at as fetchedAt FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date ASC",
+  const kpiSnapshots = queryDb<Record<string, unknown>>(
+    `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date ASC`,
     slug
+  ).map(mapKpiRow);
+
+  // Primary metric first, then secondary and leading indicators
+  const [primarySeries, ...indicatorSeries]: KpiMetricSeries[] = milestone.metrics.map(
+    (metric) => ({
+      metric,
+      history: kpiSnapshots.filter((s) => s.metricId === metric.id),
+    })
+  );
+  const kpiHistory = primarySeries.history;
+  const latestByMetric = Object.fromEntries(
+    [primarySeries, ...indicatorSeries]
+      .filter((s) => s.history.length > 0)
+      .map((s) => [s.metric.id, s.history[s.history.length - 1]])
+  );
+
+  const { proxyMetric } = milestone.presentation;
+  const delivery =
+    computeDeliveryProgress(
+      milestone,
+      splitLatestSeries(kpiHistory).charted,
+      proxyMetric ? kpiSnapshots.filter((s) => s.metricId === proxyMetric) : []
+    ) ?? undefined;
+
+  const kpiVintages = queryDb<KpiVintage>(
+    `SELECT id, milestone_slug as milestoneSlug, metric_id as metricId, date, value, label,
+     release, fetched_at as fetchedAt, series_id as seriesId
+     FROM kpi_vintages WHERE milestone_slug = ? AND metric_id = ? ORDER BY date ASC, id ASC`,
+    slug,
+    primarySeries.metric.id
   );
 
+  let kpiFreshness: SourceFreshness | null = null;
+  try {
+    kpiFreshness = getKpiFreshness(milestone.slug);
+  } catch {
+    // refresh_steps may not exist yet
+  }
+
+  let quarantined: QuarantinedBatch[] = [];
+  try {
+    quarantined = getQuarantinedBatches({ milestoneSlug: milestone.slug, status: "pending" });
+  } catch {
+    // kpi_quarantine may not exist yet
+  }
+
   const briefing = queryOne<{ content: string; generatedAt: string }>(
     "SELECT content, generated_at as generatedAt FROM milestone_briefings WHERE milestone_slug = ?",
     slug
@@ -78,9 +132,13 @@ export default async function MilestonePage({
     `SELECT id, milestone_slug as milestoneSlug, type, title, description, url, source, status,
      published_date as publishedDate, last_updated as lastUpdated, department, confidence, dismissed,
      rationale, rationale_updated_at as rationaleUpdatedAt,
-     (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = outputs.id) as mediaArticleCount,
-     (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = outputs.id AND ma.published_date >= date('now', '-7 days')) as recentMediaCount
-     FROM outputs WHERE milestone_slug = ? AND dismissed = 0 ORDER BY last_updated DESC`,
+     (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = curated_outputs.id) as mediaArticleCount,
+     (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = curated_outputs.id AND ma.published_date >= date('now', '-7 days')) as recentMediaCount,
+     acs.provisions_in_force as provisionsInForce, acs.provisions_pending as provisionsPending,
+     acs.regulation_count as commencementRegulationCount
+     FROM curated_outputs
+     LEFT JOIN act_commencement_summary acs ON acs.output_id = curated_outputs.id
+     WHERE milestone_slug = ? AND dismissed = 0 ORDER BY last_updated DESC`,
     slug
   );
 
@@ -93,6 +151,8 @@ export default async function MilestonePage({
       o.rationale, o.rationale_updated_at as rationaleUpdatedAt,
       (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = o.id) as mediaArticleCount,
       (SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = o.id AND ma.published_date >= date('now', '-7 days')) as recentMediaCount,
+      acs.provisions_in_force as provisionsInForce, acs.provisions_pending as provisionsPending,
+      acs.regulation_count as commencementRegulationCount,
       (
         CASE o.type
           WHEN 'bill' THEN 10
@@ -121,7 +181,8 @@ export default async function MilestonePage({
         -- Media coverage bonus (capped at 5)
         + MIN(COALESCE((SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = o.id), 0), 5)
       ) as score
-    FROM outputs o
+    FROM curated_outputs o
+    LEFT JOIN act_commencement_summary acs ON acs.output_id = o.id
     WHERE o.milestone_slug = ?
       AND o.dismissed = 0
       AND o.type NOT IN ('guidance', 'impact_assessment', 'statutory_instrument')
@@ -137,7 +198,7 @@ export default async function MilestonePage({
   const billStageRows = queryDb<BillStage & { outputId: string }>(
     `SELECT bs.output_id as outputId, bs.name, bs.house, bs.date, bs.completed
      FROM bill_stages bs
-     JOIN outputs o ON o.id = bs.output_id
+     JOIN curated_outputs o ON o.id = bs.output_id
      WHERE o.milestone_slug = ? AND o.type = 'bill' AND o.dismissed = 0
      ORDER BY bs.id ASC`,
     slug
@@ -163,8 +224,9 @@ export default async function MilestonePage({
        ma.title, ma.url, ma.source, ma.published_date as publishedDate,
        ma.excerpt, ma.thumbnail_url as thumbnailUrl, ma.api_source as apiSource,
        ma.fetched_at as fetchedAt
-       FROM media_articles ma
+       FROM milestone_media_articles ma
        WHERE ma.output_id IN (${placeholders})
+       GROUP BY ma.id
        ORDER BY ma.published_date DESC`,
       ...[...keyOutputIds]
     );
@@ -176,7 +238,7 @@ export default async function MilestonePage({
   }
 
   const debates = queryDb<Debate>(
-    "SELECT id, milestone_slug as milestoneSlug, title, date, house, url, source FROM debates WHERE milestone_slug = ? ORDER BY date DESC LIMIT 20",
+    "SELECT id, milestone_slug as milestoneSlug, title, date, house, url, source FROM milestone_debates WHERE milestone_slug = ? ORDER BY date DESC LIMIT 20",
     slug
   );
 
@@ -184,7 +246,7 @@ export default async function MilestonePage({
     `SELECT id, milestone_slug as milestoneSlug, committee_name as committeeName, committee_id as committeeId,
      inquiry_title as inquiryTitle, status, url, evidence_sessions as evidenceSessions,
      reports_published as reportsPublished, last_activity as lastActivity
-     FROM committee_inquiries WHERE milestone_slug = ? ORDER BY last_activity DESC`,
+     FROM milestone_committee_inquiries WHERE milestone_slug = ? ORDER BY last_activity DESC`,
     slug
   );
 
@@ -192,7 +254,7 @@ export default async function MilestonePage({
     `SELECT id, milestone_slug as milestoneSlug, output_id as outputId, title, url, source,
      published_date as publishedDate, excerpt, thumbnail_url as thumbnailUrl,
      api_source as apiSource, fetched_at as fetchedAt
-     FROM media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 30`,
+     FROM milestone_media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 30`,
     slug
   );
 
@@ -203,18 +265,40 @@ export default async function MilestonePage({
   const meView = meFramework
     ? enrichDeliverables(meFramework, outputs, mediaArticles)
     : undefined;
+  const { charted } = splitLatestSeries(kpiHistory);
+  const assessment = assessTrajectory(milestone, charted, meFramework, delivery);
+  const progress = computeBaselineProgress(milestone, charted, meFramework);
 
   return (
     <div className="p-6 max-w-5xl">
+      {/* KPI updates held back by validation */}
+      <QuarantineWarning batches={quarantined} metrics={milestone.metrics} />
+
       {/* Panel 1: KPI Status */}
-      <KpiDetail milestone={milestone} kpiHistory={kpiHistory} />
+      <KpiDetail
+        milestone={milestone}
+        kpiHistory={kpiHistory}
+        indicators={indicatorSeries}
+        delivery={delivery}
+        assessment={assessment}
+        progress={progress}
+        freshness={kpiFreshness}
+      />
+
+      {/* First published vs latest revision for each period */}
+      {kpiVintages.length > 0 && (
+        <div className="mt-6">
+          <KpiRevisions milestone={milestone} vintages={kpiVintages} />
+        </div>
+      )}
 
       {/* M&E Grounding — from the actual Plan for Change document */}
       {meFramework && (
         <div className="mt-6">
           <DocumentGrounding
             framework={meFramework}
-            latestKpiValue={kpiHistory.length > 0 ? kpiHistory[kpiHistory.length - 1].value : undefined}
+            latestByMetric={latestByMetric}
+            baselineMetrics={resolveBaselineMetrics(milestone, meFramework, kpiSnapshots)}
           />
         </div>
       )}
@@ -1,18 +1,28 @@
-import { getAllMilestones } from "@/lib/milestones";
+import { getAllMilestones, getPrimaryMetric } from "@/lib/milestones";
 import { initDb, getDb } from "@/lib/db";
 import KpiCard from "@/components/kpi/KpiCard";
 import type { KpiSnapshot, Output, MediaArticle, MilestoneSlug } from "@/lib/types";
 import { getMEFramework } from "@/lib/me-framework";
+import { getSourceFreshness, type SourceFreshness } from "@/lib/refresh-log";
 import { enrichDeliverables } from "@/lib/me-matching";
+import { splitLatestSeries } from "@/lib/kpi-lineage";
+import { computeDeliveryProgress } from "@/lib/delivery-progress";
+import { assessTrajectory } from "@/lib/forecast";
+import { computeBaselineProgress } from "@/lib/baseline-progress";
+import { mapKpiRow } from "@/lib/queries";
 
-function getKpiHistory(milestoneSlug: string): KpiSnapshot[] {
+function getKpiHistory(
+  milestoneSlug: MilestoneSlug,
+  metricId: string = getPrimaryMetric(milestoneSlug).id
+): KpiSnapshot[] {
   try {
     const db = getDb();
-    return db
+    const rows = db
       .prepare(
-        "SELECT milestone_slug as milestoneSlug, value, date, label, fetched_at as fetchedAt FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date ASC"
+        `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? AND metric_id = ? ORDER BY date ASC`
       )
-      .all(milestoneSlug) as KpiSnapshot[];
+      .all(milestoneSlug, metricId) as Record<string, unknown>[];
+    return rows.map(mapKpiRow);
   } catch {
     return [];
   }
@@ -28,8 +38,12 @@ function getMESummary(milestoneSlug: string): { delivered: number; total: number
       .prepare(
         `SELECT id, milestone_slug as milestoneSlug, type, title, description, url, source, status,
          published_date as publishedDate, last_updated as lastUpdated, department, confidence, dismissed,
-         rationale, rationale_updated_at as rationaleUpdatedAt
-         FROM outputs WHERE milestone_slug = ? AND dismissed = 0`
+         rationale, rationale_updated_at as rationaleUpdatedAt,
+         acs.provisions_in_force as provisionsInForce, acs.provisions_pending as provisionsPending,
+         acs.regulation_count as commencementRegulationCount
+         FROM curated_outputs
+         LEFT JOIN act_commencement_summary acs ON acs.output_id = curated_outputs.id
+         WHERE milestone_slug = ? AND dismissed = 0`
       )
       .all(milestoneSlug) as Output[];
 
@@ -38,7 +52,7 @@ function getMESummary(milestoneSlug: string): { delivered: number; total: number
         `SELECT id, milestone_slug as milestoneSlug, output_id as outputId, title, url, source,
          published_date as publishedDate, excerpt, thumbnail_url as thumbnailUrl,
          api_source as apiSource, fetched_at as fetchedAt
-         FROM media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 50`
+         FROM milestone_media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 50`
       )
       .all(milestoneSlug) as MediaArticle[];
 
@@ -59,7 +73,7 @@ function getOverviewStats(milestoneSlug: string) {
     const outputCount = (
       db
         .prepare(
-          "SELECT COUNT(*) as count FROM outputs WHERE milestone_slug = ? AND dismissed = 0"
+          "SELECT COUNT(*) as count FROM curated_outputs WHERE milestone_slug = ? AND dismissed = 0"
         )
         .get(milestoneSlug) as { count: number }
     ).count;
@@ -67,7 +81,7 @@ function getOverviewStats(milestoneSlug: string) {
     const recentMediaCount = (
       db
         .prepare(
-          "SELECT COUNT(*) as count FROM media_articles WHERE milestone_slug = ? AND published_date >= date('now', '-7 days')"
+          "SELECT COUNT(*) as count FROM milestone_media_articles WHERE milestone_slug = ? AND published_date >= date('now', '-7 days')"
         )
         .get(milestoneSlug) as { count: number }
     ).count;
@@ -78,6 +92,14 @@ function getOverviewStats(milestoneSlug: string) {
   }
 }
 
+function getFreshness(): SourceFreshness[] {
+  try {
+    return getSourceFreshness();
+  } catch {
+    return [];
+  }
+}
+
 export default function OverviewPage() {
   try {
     initDb();
@@ -86,6 +108,7 @@ export default function OverviewPage() {
   }
 
   const milestones = getAllMilestones();
+  const freshness = getFreshness();
 
   return (
     <div className="p-6 max-w-6xl">
@@ -94,7 +117,7 @@ export default function OverviewPage() {
           Plan for Change
         </h1>
         <p className="text-sm text-[var(--muted)] mt-1">
-          Tracking the UK Government&apos;s 6 milestones for mission-led
+          Tracking the UK Government&apos;s {milestones.length} milestones for mission-led
           government (Dec 2024 — Spring 2029)
         </p>
       </div>
@@ -107,6 +130,17 @@ export default function OverviewPage() {
               ? kpiHistory[kpiHistory.length - 1]
               : undefined;
           const stats = getOverviewStats(milestone.slug);
+          const { charted } = splitLatestSeries(kpiHistory);
+          const { proxyMetric } = milestone.presentation;
+          const delivery =
+            computeDeliveryProgress(
+              milestone,
+              charted,
+              proxyMetric ? getKpiHistory(milestone.slug, proxyMetric) : []
+            ) ?? undefined;
+          const framework = getMEFramework(milestone.slug);
+          const assessment = assessTrajectory(milestone, charted, framework, delivery);
+          const progress = computeBaselineProgress(milestone, charted, framework);
           const meSummary = getMESummary(milestone.slug);
 
           return (
@@ -118,6 +152,10 @@ export default function OverviewPage() {
               outputCount={stats.outputCount}
               recentMediaCount={stats.recentMediaCount}
               meSummary={meSummary}
+              freshness={freshness.find((f) => f.source.kpiFor === milestone.slug)}
+              delivery={delivery}
+              assessment={assessment}
+              progress={progress}
             />
           );
         })}
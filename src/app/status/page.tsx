@@ -0,0 +1,198 @@
+import type { Metadata } from "next";
+import { initDb, getDb } from "@/lib/db";
+import { getSourceFreshness, parseSqlDatetime, type SourceFreshness } from "@/lib/refresh-log";
+
+export const metadata: Metadata = {
+  title: "Data status — Plan for Change",
+};
+
+interface LatestRun {
+  startedAt: string;
+  finishedAt: string | null;
+  status: string | null;
+}
+
+function getLatestRun(): LatestRun | undefined {
+  try {
+    return getDb()
+      .prepare(
+        `SELECT started_at as startedAt, finished_at as finishedAt, status
+         FROM refresh_runs ORDER BY id DESC LIMIT 1`
+      )
+      .get() as LatestRun | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getFreshness(): SourceFreshness[] {
+  try {
+    return getSourceFreshness();
+  } catch {
+    return [];
+  }
+}
+
+function formatDateTime(sqlDatetime: string | null): string {
+  if (!sqlDatetime) return "Never";
+  return parseSqlDatetime(sqlDatetime).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+function formatAge(ageDays: number | null): string {
+  if (ageDays === null) return "";
+  if (ageDays < 1) return "today";
+  const days = Math.floor(ageDays);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  ok: "text-[var(--green)]",
+  partial: "text-[var(--amber)]",
+  failed: "text-[var(--red)]",
+};
+
+export default function StatusPage() {
+  try {
+    initDb();
+  } catch {
+    // DB might not be accessible during build
+  }
+
+  const latestRun = getLatestRun();
+  const freshness = getFreshness();
+  const staleCount = freshness.filter((f) => f.stale).length;
+
+  return (
+    <div className="p-6 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-[var(--foreground)]">
+          Data status
+        </h1>
+        <p className="text-sm text-[var(--muted)] mt-1">
+          When each source last refreshed successfully. A source is stale once
+          its last success is older than its threshold.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white rounded-xl border border-[var(--border)] p-5">
+          <p className="text-xs font-semibold uppercase tracking-wider text-[var(--muted)]">
+            Last refresh run
+          </p>
+          <p className="text-lg font-bold text-[var(--foreground)] mt-1">
+            {latestRun ? formatDateTime(latestRun.startedAt) : "Never"}
+          </p>
+          {latestRun && (
+            <p className={`text-xs mt-1 ${STATUS_STYLES[latestRun.status ?? ""] ?? "text-[var(--muted)]"}`}>
+              {latestRun.status === null
+                ? "Still running, or interrupted"
+                : latestRun.status === "ok"
+                  ? "Completed without failures"
+                  : "Completed with failed steps"}
+            </p>
+          )}
+        </div>
+        <div className="bg-white rounded-xl border border-[var(--border)] p-5">
+          <p className="text-xs font-semibold uppercase tracking-wider text-[var(--muted)]">
+            Stale sources
+          </p>
+          <p
+            className={`text-lg font-bold mt-1 ${
+              staleCount > 0 ? "text-[var(--amber)]" : "text-[var(--green)]"
+            }`}
+          >
+            {staleCount} of {freshness.length}
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-[var(--border)] overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-[var(--border)] text-left text-xs uppercase tracking-wider text-[var(--muted)]">
+              <th className="px-4 py-3 font-semibold">Source</th>
+              <th className="px-4 py-3 font-semibold">Last succeeded</th>
+              <th className="px-4 py-3 font-semibold">Last attempt</th>
+              <th className="px-4 py-3 font-semibold">Stale after</th>
+            </tr>
+          </thead>
+          <tbody>
+            {freshness.map((f) => (
+              <tr
+                key={f.source.id}
+                className="border-b border-[var(--border)] last:border-0 align-top"
+              >
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full ${
+                        f.stale ? "bg-[var(--amber)]" : "bg-[var(--green)]"
+                      }`}
+                    />
+                    <span className="font-medium text-[var(--foreground)]">
+                      {f.source.label}
+                    </span>
+                  </div>
+                  {f.sourceUrl && (
+                    <a
+                      href={f.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block text-xs text-[var(--accent)] hover:underline mt-0.5 ml-4 break-all"
+                    >
+                      {f.sourceUrl}
+                    </a>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <p className="text-[var(--foreground)]">
+                    {formatDateTime(f.lastSuccessAt)}
+                  </p>
+                  <p className={`text-xs ${f.stale ? "text-[var(--amber)]" : "text-[var(--muted)]"}`}>
+                    {f.stale ? "Stale" : formatAge(f.ageDays)}
+                    {f.stale && f.ageDays !== null && ` — ${formatAge(f.ageDays)}`}
+                  </p>
+                </td>
+                <td className="px-4 py-3">
+                  {f.lastStatus ? (
+                    <>
+                      <p className={STATUS_STYLES[f.lastStatus] ?? "text-[var(--muted)]"}>
+                        {f.lastStatus}
+                      </p>
+                      <p className="text-xs text-[var(--muted)]">
+                        {formatDateTime(f.lastAttemptAt)}
+                      </p>
+                      {f.lastError && (
+                        <p className="text-xs text-[var(--red)] mt-0.5">
+                          {f.lastError}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-[var(--muted)]">Never run</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-[var(--muted)]">
+                  {f.source.maxAgeDays} days
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {freshness.length === 0 && (
+          <p className="p-5 text-sm text-[var(--muted)]">
+            No refresh runs recorded yet. Run the data refresh script to fetch
+            latest figures.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { formatSqlDate, type SourceFreshness } from "@/lib/refresh-log";
+
+interface DataAsOfBadgeProps {
+  freshness: SourceFreshness;
+}
+
+/**
+ * When the KPI's source last refreshed successfully, highlighted once it is
+ * older than the source's threshold. See /status for every source.
+ */
+export default function DataAsOfBadge({ freshness }: DataAsOfBadgeProps) {
+  const { lastSuccessAt, stale, source } = freshness;
+  const text = lastSuccessAt
+    ? `Data as of ${formatSqlDate(lastSuccessAt)}`
+    : "Not yet refreshed";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium ${
+        stale
+          ? "bg-amber-50 text-[var(--amber)]"
+          : "bg-gray-50 text-[var(--muted)]"
+      }`}
+      title={
+        stale
+          ? `${source.label} has not refreshed successfully in the last ${source.maxAgeDays} days`
+          : source.label
+      }
+    >
+      <span
+        className={`inline-block w-1.5 h-1.5 rounded-full ${
+          stale ? "bg-[var(--amber)]" : "bg-[var(--green)]"
+        }`}
+      />
+      {text}
+      {stale && lastSuccessAt && " (stale)"}
+    </span>
+  );
+}
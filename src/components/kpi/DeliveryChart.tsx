@@ -0,0 +1,150 @@
+"use client";
+
+import {
+  ComposedChart,
+  Area,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { DeliveryProgress } from "@/lib/delivery-progress";
+import { formatLongForm, formatValue } from "@/lib/units";
+
+interface DeliveryChartProps {
+  progress: DeliveryProgress;
+  unit: string; // milestone.targetUnit, e.g. "homes"
+  height?: number;
+}
+
+interface ChartRow {
+  time: number;
+  label: string;
+  published?: number;
+  estimated?: number;
+  path?: number;
+}
+
+function time(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function longDate(date: string): string {
+  return new Date(time(date)).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Text alternative: the total delivered so far against the path and the target. */
+function describeDelivery(
+  { start, targetDate, latest, expectedByLatest, target }: DeliveryProgress,
+  unit: string
+): string {
+  const heading = `Delivered since ${longDate(start)}`;
+  const goal = `target of ${formatLongForm(target, unit)} by ${longDate(targetDate)}`;
+  if (!latest) return `${heading}: none published yet; ${goal}`;
+  const path =
+    expectedByLatest !== null
+      ? `, against ${formatLongForm(expectedByLatest, unit)} on the straight-line path`
+      : "";
+  const estimated = latest.estimated ? " (partly estimated)" : "";
+  return `${heading}: ${formatLongForm(latest.cumulative, unit)} to ${latest.label}${estimated}${path}; ${goal}`;
+}
+
+/**
+ * Cumulative delivery against the straight-line path to the target, on a
+ * time axis running to the target date. Estimated quarters are dashed.
+ */
+export default function DeliveryChart({ progress, unit, height = 140 }: DeliveryChartProps) {
+  const { points, target } = progress;
+  const lastPublished = points.filter((p) => !p.estimated).length - 1;
+  const start = time(progress.start);
+  const end = time(progress.targetDate);
+
+  const rows: ChartRow[] = points.map((p, i) => ({
+    time: time(p.date),
+    label: p.label,
+    published: i <= lastPublished ? p.cumulative : undefined,
+    // The estimate continues from the last published point
+    estimated: i >= lastPublished && points.some((q) => q.estimated) ? p.cumulative : undefined,
+  }));
+  rows[0].path = 0;
+  rows.push({ time: end, label: "Target", path: target });
+
+  const years: number[] = [];
+  for (let y = new Date(start).getUTCFullYear() + 1; y <= new Date(end).getUTCFullYear(); y++) {
+    years.push(Date.UTC(y, 0, 1));
+  }
+
+  return (
+    <div role="img" aria-label={describeDelivery(progress, unit)}>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={rows}>
+          <defs>
+            <linearGradient id="gradient-delivery" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#1d4ed8" stopOpacity={0.2} />
+              <stop offset="95%" stopColor="#1d4ed8" stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[start, end]}
+            ticks={years}
+            tickFormatter={(t) => String(new Date(t).getUTCFullYear())}
+            tick={{ fontSize: 10, fill: "var(--muted)" }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis domain={[0, target]} hide />
+          <Tooltip
+            contentStyle={{
+              fontSize: "12px",
+              borderRadius: "8px",
+              border: "1px solid var(--border)",
+            }}
+            formatter={(value, name) => [
+              formatValue(Number(value), unit, { compact: false }),
+              String(name),
+            ]}
+            labelFormatter={(_, payload) => String(payload?.[0]?.payload?.label ?? "")}
+          />
+          <Line
+            type="linear"
+            dataKey="path"
+            name="Straight-line path"
+            stroke="#16a34a"
+            strokeDasharray="4 4"
+            strokeWidth={1.5}
+            dot={false}
+            connectNulls
+          />
+          <Area
+            type="linear"
+            dataKey="published"
+            name="Delivered"
+            stroke="#1d4ed8"
+            strokeWidth={2}
+            fill="url(#gradient-delivery)"
+            dot={false}
+            activeDot={{ r: 3, fill: "#1d4ed8" }}
+          />
+          <Line
+            type="linear"
+            dataKey="estimated"
+            name="Delivered (estimated)"
+            stroke="#1d4ed8"
+            strokeWidth={2}
+            strokeDasharray="3 3"
+            dot={false}
+            activeDot={{ r: 3, fill: "#1d4ed8" }}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 import type { Milestone, KpiSnapshot } from "@/lib/types";
+import type { SourceFreshness } from "@/lib/refresh-log";
+import { splitLatestSeries } from "@/lib/kpi-lineage";
+import type { DeliveryProgress } from "@/lib/delivery-progress";
+import type { TrajectoryAssessment } from "@/lib/forecast";
+import type { BaselineProgress } from "@/lib/baseline-progress";
+import { annualTarget } from "@/lib/kpi-presentation";
+import { formatChange, formatLongForm, formatLongFormChange, formatShare, formatValue } from "@/lib/units";
+import { snapshotLabel } from "@/lib/periods";
 import SparklineChart from "./SparklineChart";
 import TrafficLight from "./TrafficLight";
+import DataAsOfBadge from "./DataAsOfBadge";
 import Link from "next/link";
 
 interface KpiCardProps {
@@ -10,60 +19,53 @@ interface KpiCardProps {
   outputCount: number;
   recentMediaCount: number;
   meSummary?: { delivered: number; total: number; atRisk: number };
+  freshness?: SourceFreshness | null;
+  delivery?: DeliveryProgress; // cumulative targets: running total since the period start
+  assessment?: TrajectoryAssessment | null; // projection to the target date
+  progress?: BaselineProgress | null; // change since the baseline
+}
+
+/** "+2.1 pp since Sep 2024 · 6% of the required change · 12% of the time gone" */
+function describeProgress(milestone: Milestone, progress: BaselineProgress): string {
+  const parts: string[] = [];
+  if (milestone.presentation.mode !== "delta-from-baseline") {
+    parts.push(`${formatChange(progress.change, milestone.targetUnit)} since ${snapshotLabel(progress.baseline)}`);
+  }
+  if (progress.shareAchieved !== null) parts.push(`${formatShare(progress.shareAchieved)} of the required change`);
+  if (progress.timeElapsed !== null) parts.push(`${formatShare(progress.timeElapsed)} of the time gone`);
+  return parts.join(" · ");
 }
 
 /**
- * Get the appropriate subtitle to show beneath the main KPI value.
- * Some milestones have straightforward "current / target" displays,
- * while others need contextual descriptions.
+ * Get the appropriate subtitle to show beneath the main KPI value: the
+ * configured value label, or one that follows the comparison mode.
  */
 function getKpiSubtitle(
   milestone: Milestone,
-  currentValue: number
-): { subtitle: string; showTrafficLight: boolean } {
-  switch (milestone.slug) {
-    case "policing":
-      // Value is total workforce FTE; target is 13,000 *additional* officers
-      return {
-        subtitle: "total workforce (FTE)",
-        showTrafficLight: false,
-      };
-    case "economic-growth":
-      // RHDI per head index; target is "highest sustained G7 growth"
-      return {
-        subtitle: "RHDI per head index",
-        showTrafficLight: false,
-      };
-    case "housing":
-      // Annual net additions vs 1.5M cumulative target
-      return {
-        subtitle: `/yr — need ${formatValue(Math.round(milestone.targetValue / 5), "homes")}/yr`,
-        showTrafficLight: true,
-      };
-    default:
-      if (milestone.targetValue > 0) {
-        return {
-          subtitle: `/ ${formatValue(milestone.targetValue, milestone.targetUnit)}`,
-          showTrafficLight: true,
-        };
-      }
-      return { subtitle: "", showTrafficLight: false };
+  delivery?: DeliveryProgress,
+  progress?: BaselineProgress | null
+): string {
+  const { presentation, targetUnit } = milestone;
+  // The target is a change, so the headline is the change since the baseline
+  if (presentation.mode === "delta-from-baseline" && progress) {
+    return `${targetUnit} since ${snapshotLabel(progress.baseline)}`;
   }
-}
+  if (presentation.valueLabel) return presentation.valueLabel;
 
-/**
- * Compute effective ratio for traffic light.
- * Housing uses annualised rate vs required annual rate.
- */
-function getEffectiveRatio(milestone: Milestone, currentValue: number): number {
-  if (milestone.slug === "housing") {
-    const requiredAnnual = milestone.targetValue / 5;
-    return currentValue / requiredAnnual;
+  // Running total so far vs the straight-line path to the target
+  if (presentation.mode === "cumulative" && delivery?.latest && delivery.expectedByLatest) {
+    const [start] = delivery.points;
+    return `since ${start.label} — ${formatValue(delivery.expectedByLatest, targetUnit)} expected by ${delivery.latest.label}`;
+  }
+  // Yearly flow vs the average annual rate needed
+  const annual = annualTarget(milestone);
+  if (annual) {
+    return `/yr — need ${formatValue(annual, targetUnit)}/yr`;
   }
-  if (milestone.targetValue <= 0) return 0;
-  return milestone.higherIsBetter
-    ? currentValue / milestone.targetValue
-    : milestone.targetValue / currentValue;
+  if (milestone.targetValue > 0 && presentation.mode !== "comparative") {
+    return `/ ${formatValue(milestone.targetValue, targetUnit)}`;
+  }
+  return "";
 }
 
 export default function KpiCard({
@@ -73,12 +75,17 @@ export default function KpiCard({
   outputCount,
   recentMediaCount,
   meSummary,
+  freshness,
+  delivery,
+  assessment,
+  progress,
 }: KpiCardProps) {
   const currentValue = latestKpi?.value;
   const hasData = currentValue !== undefined;
-  const kpiInfo = hasData
-    ? getKpiSubtitle(milestone, currentValue)
-    : null;
+  const subtitle = hasData ? getKpiSubtitle(milestone, delivery, progress) : "";
+  const showChange = milestone.presentation.mode === "delta-from-baseline" && progress;
+  const progressText = hasData && progress ? describeProgress(milestone, progress) : "";
+  const outcome = assessment?.outcome;
 
   return (
     <Link
@@ -94,32 +101,52 @@ export default function KpiCard({
             {milestone.description}
           </p>
         </div>
-        {hasData && kpiInfo?.showTrafficLight && (
+        {hasData && assessment?.rag && (
           <TrafficLight
-            current={currentValue}
-            target={milestone.targetValue}
-            higherIsBetter={milestone.higherIsBetter}
-            effectiveRatio={getEffectiveRatio(milestone, currentValue)}
+            status={assessment.rag}
+            title={
+              outcome
+                ? `Projected ${formatValue(outcome.value, milestone.targetUnit)} by ${milestone.targetDate}`
+                : undefined
+            }
           />
         )}
       </div>
 
       <div className="mb-3">
-        <SparklineChart data={kpiHistory} height={48} showTooltip={false} />
+        <SparklineChart
+          data={splitLatestSeries(kpiHistory).charted}
+          height={48}
+          showTooltip={false}
+          label={milestone.kpiLabel}
+          unit={milestone.targetUnit}
+        />
       </div>
 
       <div className="flex items-end justify-between">
         <div>
           {hasData ? (
             <>
-              <span className="text-2xl font-bold text-[var(--foreground)]">
-                {formatValue(currentValue, milestone.targetUnit)}
+              <span className="text-2xl font-bold text-[var(--foreground)]" aria-hidden="true">
+                {showChange
+                  ? formatChange(progress.change, milestone.targetUnit)
+                  : formatValue(delivery?.latest?.cumulative ?? currentValue, milestone.targetUnit)}
+              </span>
+              <span className="sr-only">
+                {showChange
+                  ? formatLongFormChange(progress.change, milestone.targetUnit)
+                  : formatLongForm(delivery?.latest?.cumulative ?? currentValue, milestone.targetUnit)}
               </span>
-              {kpiInfo?.subtitle && (
+              {subtitle && (
                 <span className="text-xs text-[var(--muted)] ml-1.5">
-                  {kpiInfo.subtitle}
+                  {subtitle}
                 </span>
               )}
+              {progressText && (
+                <p className="text-xs text-[var(--muted)] mt-0.5">
+                  {progressText}
+                </p>
+              )}
             </>
           ) : (
             <span className="text-sm text-[var(--muted)]">
@@ -171,31 +198,16 @@ export default function KpiCard({
         </div>
       )}
 
-      {latestKpi?.label && (
-        <p className="text-xs text-[var(--muted)] mt-2">
-          Latest: {latestKpi.label}
-        </p>
+      {(latestKpi || freshness) && (
+        <div className="flex items-center justify-between gap-2 mt-2">
+          {latestKpi && (
+            <p className="text-xs text-[var(--muted)]">
+              Latest: {snapshotLabel(latestKpi)}
+            </p>
+          )}
+          {freshness && <DataAsOfBadge freshness={freshness} />}
+        </div>
       )}
     </Link>
   );
 }
-
-function formatValue(value: number, unit: string): string {
-  if (unit === "%" || unit === "% clean power") {
-    return `${value.toFixed(1)}%`;
-  }
-  if (unit === "homes") {
-    return value >= 1000000
-      ? `${(value / 1000000).toFixed(1)}M`
-      : value >= 1000
-        ? `${Math.round(value / 1000)}k`
-        : value.toString();
-  }
-  if (unit === "additional officers") {
-    return Math.round(value).toLocaleString();
-  }
-  if (unit === "index") {
-    return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
-  }
-  return value.toFixed(1);
-}
@@ -1,62 +1,63 @@
-import type { Milestone, KpiSnapshot } from "@/lib/types";
-import SparklineChart from "./SparklineChart";
+import type { Milestone, KpiMetricSeries, KpiSnapshot } from "@/lib/types";
+import type { SourceFreshness } from "@/lib/refresh-log";
+import { splitLatestSeries, listSeries } from "@/lib/kpi-lineage";
+import type { DeliveryProgress } from "@/lib/delivery-progress";
+import type { ProjectedOutcome, TrajectoryAssessment } from "@/lib/forecast";
+import type { BaselineProgress } from "@/lib/baseline-progress";
+import { annualTarget, referenceLineValue } from "@/lib/kpi-presentation";
+import {
+  formatChange,
+  formatLongForm,
+  formatLongFormChange,
+  formatRate,
+  formatShare,
+  formatValue,
+} from "@/lib/units";
+import { dayPeriod, periodLabel, snapshotLabel } from "@/lib/periods";
+import MetricChart from "./MetricChart";
+import DeliveryChart from "./DeliveryChart";
 import TrafficLight from "./TrafficLight";
+import DataAsOfBadge from "./DataAsOfBadge";
 
 interface KpiDetailProps {
   milestone: Milestone;
-  kpiHistory: KpiSnapshot[];
+  kpiHistory: KpiSnapshot[]; // primary metric
+  indicators?: KpiMetricSeries[]; // secondary and leading metrics
+  freshness?: SourceFreshness | null;
+  delivery?: DeliveryProgress; // cumulative targets: running total since the period start
+  assessment?: TrajectoryAssessment | null; // projection to the target date
+  progress?: BaselineProgress | null; // change since the baseline
 }
 
 function getTargetDescription(milestone: Milestone): string {
-  switch (milestone.slug) {
-    case "economic-growth":
-      return `${milestone.kpiLabel} — Highest sustained growth in the G7 by ${milestone.targetDate}`;
-    case "policing":
-      return `${milestone.kpiLabel} — Target: 13,000 additional officers by ${milestone.targetDate}`;
-    case "housing":
-      return `${milestone.kpiLabel} — Target: 1.5M homes by ${milestone.targetDate} (300k/yr needed)`;
-    default:
-      if (milestone.targetValue > 0) {
-        return `${milestone.kpiLabel} — Target: ${formatValue(milestone.targetValue, milestone.targetUnit)} by ${milestone.targetDate}`;
-      }
-      return milestone.kpiLabel;
+  const { kpiLabel, targetDate, targetUnit, presentation } = milestone;
+  if (presentation.mode === "comparative") {
+    return presentation.targetText ? `${kpiLabel} — ${presentation.targetText} by ${targetDate}` : kpiLabel;
   }
-}
+  if (milestone.targetValue <= 0) return kpiLabel;
 
-function getEffectiveRatio(milestone: Milestone, currentValue: number): number | undefined {
-  if (milestone.slug === "housing") {
-    const requiredAnnual = milestone.targetValue / 5;
-    return currentValue / requiredAnnual;
-  }
-  return undefined;
+  const target = presentation.targetText ?? formatValue(milestone.targetValue, targetUnit);
+  const annual = annualTarget(milestone);
+  const rate = annual ? ` (${formatValue(annual, targetUnit)}/yr needed)` : "";
+  return `${kpiLabel} — Target: ${target} by ${targetDate}${rate}`;
 }
 
-function shouldShowTrafficLight(milestone: Milestone): boolean {
-  return milestone.slug !== "policing" && milestone.slug !== "economic-growth";
-}
-
-/**
- * Get target value for the sparkline reference line.
- * Only show for milestones where the KPI and target are directly comparable.
- */
-function getSparklineTarget(milestone: Milestone): number | undefined {
-  switch (milestone.slug) {
-    case "nhs":
-    case "education":
-    case "clean-energy":
-      return milestone.targetValue > 0 ? milestone.targetValue : undefined;
-    case "housing":
-      // KPI is annual supply; target rate is 300k/yr
-      return milestone.targetValue > 0 ? Math.round(milestone.targetValue / 5) : undefined;
-    default:
-      // economic-growth (comparative), policing (additional vs total) — not comparable
-      return undefined;
-  }
-}
-
-export default function KpiDetail({ milestone, kpiHistory }: KpiDetailProps) {
+export default function KpiDetail({
+  milestone,
+  kpiHistory,
+  indicators = [],
+  freshness,
+  delivery,
+  assessment,
+  progress,
+}: KpiDetailProps) {
   const latest = kpiHistory.length > 0 ? kpiHistory[kpiHistory.length - 1] : null;
   const hasData = latest !== null;
+  // Never draw values from different series as one line
+  const { charted, excluded } = splitLatestSeries(kpiHistory);
+  const chartedIndicators = indicators
+    .filter((s) => s.history.length > 0)
+    .map((s) => ({ ...s, history: splitLatestSeries(s.history).charted }));
 
   return (
     <div className="bg-white rounded-xl border border-[var(--border)] p-5">
@@ -68,45 +69,74 @@ export default function KpiDetail({ milestone, kpiHistory }: KpiDetailProps) {
           <p className="text-sm text-[var(--muted)] mt-0.5">
             {getTargetDescription(milestone)}
           </p>
+          {freshness && (
+            <div className="mt-2">
+              <DataAsOfBadge freshness={freshness} />
+            </div>
+          )}
         </div>
-        {hasData && shouldShowTrafficLight(milestone) && (
+        {hasData && assessment?.rag && (
           <TrafficLight
-            current={latest.value}
-            target={milestone.targetValue}
-            higherIsBetter={milestone.higherIsBetter}
-            effectiveRatio={getEffectiveRatio(milestone, latest.value)}
+            status={assessment.rag}
+            title={
+              assessment.outcome
+                ? describeOutcome(milestone, assessment, assessment.outcome, progress?.baseline)
+                : undefined
+            }
           />
         )}
       </div>
 
       <div className="mb-4">
-        <SparklineChart
-          data={kpiHistory}
+        <MetricChart
+          headline={{ metric: milestone.metrics[0], history: charted }}
+          indicators={chartedIndicators}
           height={100}
-          showTooltip
-          targetValue={getSparklineTarget(milestone)}
+          targetValue={referenceLineValue(milestone)}
+          projection={assessment?.forecast.projection}
         />
+        {excluded.length > 0 && (
+          <p className="text-xs text-amber-700 mt-1">
+            {excluded.length} point{excluded.length === 1 ? "" : "s"} from a
+            different series ({listSeries(excluded).join(", ")}) not charted
+            alongside this one.
+          </p>
+        )}
       </div>
 
+      {assessment && (
+        <ForecastSummary milestone={milestone} assessment={assessment} baseline={progress?.baseline} />
+      )}
+
+      {delivery?.latest && <DeliveryPanel milestone={milestone} delivery={delivery} latest={delivery.latest} />}
+
+      {progress && <BaselinePanel milestone={milestone} progress={progress} />}
+
       <div className="flex items-end justify-between">
         {hasData ? (
           <div>
-            <span className="text-3xl font-bold text-[var(--foreground)]">
+            <span className="text-3xl font-bold text-[var(--foreground)]" aria-hidden="true">
               {formatValue(latest.value, milestone.targetUnit)}
             </span>
-            {milestone.targetValue > 0 && milestone.slug !== "policing" && (
-              <span className="text-sm text-[var(--muted)] ml-2">
-                / {formatValue(milestone.targetValue, milestone.targetUnit)} target
-              </span>
-            )}
-            {milestone.slug === "policing" && (
+            <span className="sr-only">{formatLongForm(latest.value, milestone.targetUnit)}</span>
+            {milestone.presentation.valueLabel ? (
               <span className="text-sm text-[var(--muted)] ml-2">
-                total workforce (FTE)
+                {milestone.presentation.valueLabel}
               </span>
+            ) : (
+              milestone.targetValue > 0 && (
+                <span className="text-sm text-[var(--muted)] ml-2">
+                  <span aria-hidden="true">/ {formatValue(milestone.targetValue, milestone.targetUnit)} target</span>
+                  <span className="sr-only">
+                    against a target of {formatLongForm(milestone.targetValue, milestone.targetUnit)}
+                  </span>
+                </span>
+              )
             )}
             <p className="text-xs text-[var(--muted)] mt-1">
-              Latest data: {latest.label || latest.date}
+              Latest data: {snapshotLabel(latest)}
             </p>
+            <KpiLineage snapshot={latest} />
           </div>
         ) : (
           <p className="text-sm text-[var(--muted)]">
@@ -118,22 +148,187 @@ export default function KpiDetail({ milestone, kpiHistory }: KpiDetailProps) {
   );
 }
 
-function formatValue(value: number, unit: string): string {
-  if (unit === "%" || unit === "% clean power") {
-    return `${value.toFixed(1)}%`;
-  }
-  if (unit === "homes") {
-    return value >= 1000000
-      ? `${(value / 1000000).toFixed(1)}M`
-      : value >= 1000
-        ? `${Math.round(value / 1000)}k`
-        : value.toString();
-  }
-  if (unit === "additional officers") {
-    return Math.round(value).toLocaleString();
+function describeOutcome(
+  milestone: Milestone,
+  assessment: TrajectoryAssessment,
+  outcome: ProjectedOutcome,
+  baseline: KpiSnapshot | undefined // the stored value a delta-from-baseline target is measured from
+): string {
+  const unit = milestone.targetUnit;
+  const range = `90% range ${formatValue(outcome.lower, unit)}–${formatValue(outcome.upper, unit)}`;
+  switch (assessment.mode) {
+    case "delta-from-baseline":
+      return `Projected change since ${baseline ? snapshotLabel(baseline) : "the baseline"}: ${formatChange(outcome.value, unit)} by ${milestone.targetDate} (${range})`;
+    case "annualised":
+      return `Projected ${formatValue(outcome.value, unit)}/yr by ${milestone.targetDate} (${range})`;
+    default:
+      return `Projected ${formatValue(outcome.value, unit)} by ${milestone.targetDate} (${range})`;
   }
-  if (unit === "index") {
-    return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+/** The projected outcome and how the trend compares with the rate needed. */
+function ForecastSummary({
+  milestone,
+  assessment,
+  baseline,
+}: {
+  milestone: Milestone;
+  assessment: TrajectoryAssessment;
+  baseline: KpiSnapshot | undefined;
+}) {
+  const { forecast, outcome, projectedRate, rateNeeded } = assessment;
+  const unit = milestone.targetUnit;
+  // A cumulative target's rate is delivery per year; elsewhere it is the change per year
+  const rateLabel = assessment.mode === "cumulative" ? "Projected delivery" : "Trend";
+
+  return (
+    <div className="text-xs text-[var(--muted)] mb-4 -mt-2 space-y-0.5">
+      {outcome && <p>{describeOutcome(milestone, assessment, outcome, baseline)}.</p>}
+      {projectedRate !== null && (
+        <p>
+          {rateLabel}: {formatRate(projectedRate, unit)}
+          {rateNeeded !== null && ` vs ${formatRate(rateNeeded, unit)} needed`}
+        </p>
+      )}
+      <p>
+        Dashed line: {forecast.model} trend fitted to {forecast.fittedPoints} points
+        since {forecast.fittedFrom}, with a 90% band.
+      </p>
+    </div>
+  );
+}
+
+/** Running total since the period start against the straight-line path to the target. */
+function DeliveryPanel({
+  milestone,
+  delivery,
+  latest,
+}: {
+  milestone: Milestone;
+  delivery: DeliveryProgress;
+  latest: NonNullable<DeliveryProgress["latest"]>;
+}) {
+  const unit = milestone.targetUnit;
+  const expected = delivery.expectedByLatest ?? 0;
+  const gap = latest.cumulative - expected;
+  const [start] = delivery.points;
+  const primary = milestone.metrics.find((m) => m.role === "primary");
+  const proxy = milestone.metrics.find((m) => m.id === milestone.presentation.proxyMetric);
+
+  return (
+    <div className="mb-4 pt-4 border-t border-[var(--border)]">
+      <div className="flex items-baseline justify-between gap-2 mb-1">
+        <h3 className="text-sm font-semibold text-[var(--foreground)]">
+          Delivered since {start.label}
+        </h3>
+        <span className="text-xs text-[var(--muted)]">
+          {formatValue(latest.cumulative, unit)} to {latest.label} ·{" "}
+          {formatValue(expected, unit)} on the straight-line path ·{" "}
+          <span className={gap < 0 ? "text-[var(--red)]" : "text-[var(--green)]"}>
+            {gap < 0 ? "−" : "+"}
+            {formatValue(Math.abs(gap), unit)}
+          </span>
+        </span>
+      </div>
+      <DeliveryChart progress={delivery} unit={unit} />
+      <p className="text-xs text-[var(--muted)] mt-1">
+        {primary?.label ?? milestone.kpiLabel} from {periodLabel(dayPeriod(delivery.start))}, with the
+        year that straddles it pro-rated.
+        {latest.estimated &&
+          ` Quarters after the latest annual figure are estimated from ${
+            proxy ? proxy.label.toLowerCase() : "a quarterly series"
+          }${
+            delivery.proxyScale && delivery.proxyScale !== 1
+              ? `, scaled by ${delivery.proxyScale.toFixed(2)} to match the annual figures`
+              : ""
+          }.`}
+      </p>
+    </div>
+  );
+}
+
+/** Change since the baseline, the share of the required change made and the share of time gone. */
+function BaselinePanel({ milestone, progress }: { milestone: Milestone; progress: BaselineProgress }) {
+  const unit = milestone.targetUnit;
+  const { baseline, latest, change, requiredChange, shareAchieved, timeElapsed } = progress;
+  const figures = [
+    {
+      label: "Change since baseline",
+      value: formatChange(change, unit),
+      detail: `${formatValue(baseline.value, unit)} → ${formatValue(latest.value, unit)}`,
+      longForm: `${formatLongFormChange(change, unit)}, from ${formatLongForm(baseline.value, unit)} to ${formatLongForm(latest.value, unit)}`,
+    },
+    shareAchieved !== null &&
+      requiredChange !== null && {
+        label: "Required change achieved",
+        value: formatShare(shareAchieved),
+        detail: `of ${formatChange(requiredChange, unit)} needed`,
+        longForm: `${formatShare(shareAchieved)} of the ${formatLongFormChange(requiredChange, unit)} needed`,
+      },
+    timeElapsed !== null && {
+      label: "Time elapsed",
+      value: formatShare(timeElapsed),
+      detail: `to ${milestone.targetDate}`,
+      longForm: `${formatShare(timeElapsed)} of the time to ${milestone.targetDate}`,
+    },
+  ].filter((f) => f !== false);
+
+  return (
+    <div className="mb-4 pt-4 border-t border-[var(--border)]">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-sm font-semibold text-[var(--foreground)]">
+          Progress since {snapshotLabel(baseline)}
+        </h3>
+        <span className="text-xs text-[var(--muted)]">to {snapshotLabel(latest)}</span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {figures.map((f) => (
+          <div key={f.label} className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-[var(--muted)]">{f.label}</div>
+            <div aria-hidden="true">
+              <div className="text-lg font-bold text-[var(--foreground)]">{f.value}</div>
+              <div className="text-xs text-[var(--muted)]">{f.detail}</div>
+            </div>
+            <div className="sr-only">{f.longForm}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Where the latest value came from: series, file, sheet and parser. */
+function KpiLineage({ snapshot }: { snapshot: KpiSnapshot }) {
+  if (!snapshot.seriesId) {
+    return (
+      <p className="text-xs text-[var(--muted)] mt-0.5">
+        Source: not recorded (fetched before provenance tracking)
+      </p>
+    );
   }
-  return value.toLocaleString();
+
+  const details = [
+    snapshot.sheetName ? `sheet "${snapshot.sheetName}"` : null,
+    snapshot.parser ? `parsed by ${snapshot.parser}` : null,
+  ].filter(Boolean);
+
+  return (
+    <p className="text-xs text-[var(--muted)] mt-0.5">
+      Source: <span className="font-mono">{snapshot.seriesId}</span>
+      {details.length > 0 && ` · ${details.join(" · ")}`}
+      {snapshot.sourceUrl && (
+        <>
+          {" · "}
+          <a
+            href={snapshot.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline hover:text-[var(--foreground)]"
+          >
+            download
+          </a>
+        </>
+      )}
+    </p>
+  );
 }
@@ -0,0 +1,134 @@
+import type { Milestone, KpiVintage } from "@/lib/types";
+import Collapsible from "@/components/ui/Collapsible";
+import { formatChange, formatValue } from "@/lib/units";
+
+interface KpiRevisionsProps {
+  milestone: Milestone;
+  vintages: KpiVintage[]; // ordered by date, then by id (oldest vintage first)
+}
+
+interface PeriodRevision {
+  date: string;
+  label: string;
+  first: KpiVintage;
+  latest: KpiVintage;
+  vintageCount: number;
+}
+
+/**
+ * Collapse the vintage rows for each period into first-published vs latest
+ * revision, newest period first.
+ */
+function groupByPeriod(vintages: KpiVintage[]): PeriodRevision[] {
+  const periods = new Map<string, PeriodRevision>();
+
+  for (const vintage of vintages) {
+    const existing = periods.get(vintage.date);
+    if (existing) {
+      existing.latest = vintage;
+      existing.vintageCount++;
+      if (vintage.label) existing.label = vintage.label;
+    } else {
+      periods.set(vintage.date, {
+        date: vintage.date,
+        label: vintage.label || vintage.date,
+        first: vintage,
+        latest: vintage,
+        vintageCount: 1,
+      });
+    }
+  }
+
+  return [...periods.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** Show a download URL as its file name; other release identifiers as-is. */
+function formatRelease(release: string): string {
+  if (!release.startsWith("http")) return release;
+  try {
+    const path = new URL(release).pathname;
+    return decodeURIComponent(path.split("/").filter(Boolean).pop() ?? release);
+  } catch {
+    return release;
+  }
+}
+
+
+export default function KpiRevisions({ milestone, vintages }: KpiRevisionsProps) {
+  const periods = groupByPeriod(vintages);
+  if (periods.length === 0) return null;
+
+  const revisedCount = periods.filter((p) => p.vintageCount > 1).length;
+
+  return (
+    <Collapsible title="Revision History" count={revisedCount} defaultOpen={false}>
+      <p className="text-xs text-[var(--muted)] mb-3">
+        First published value for each period against the latest revision.
+        {revisedCount === 0 && " No period has been revised since we started tracking it."}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-[var(--muted)] border-b border-[var(--border)]">
+              <th className="py-2 pr-4 font-medium">Period</th>
+              <th className="py-2 pr-4 font-medium">First published</th>
+              <th className="py-2 pr-4 font-medium">Latest</th>
+              <th className="py-2 font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {periods.map((period) => {
+              const revised = period.vintageCount > 1;
+              const change = period.latest.value - period.first.value;
+              return (
+                <tr
+                  key={period.date}
+                  className={`border-b border-[var(--border)] last:border-0 ${
+                    revised ? "bg-amber-50" : ""
+                  }`}
+                >
+                  <td className="py-2 pr-4 text-[var(--foreground)]">{period.label}</td>
+                  <td className="py-2 pr-4">
+                    <span className="text-[var(--foreground)]">
+                      {formatValue(period.first.value, milestone.targetUnit, { compact: false })}
+                    </span>
+                    <span
+                      className="block text-xs text-[var(--muted)] truncate max-w-[14rem]"
+                      title={period.first.release}
+                    >
+                      {formatRelease(period.first.release)}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {revised ? (
+                      <>
+                        <span className="text-[var(--foreground)]">
+                          {formatValue(period.latest.value, milestone.targetUnit, { compact: false })}
+                        </span>
+                        <span
+                          className="block text-xs text-[var(--muted)] truncate max-w-[14rem]"
+                          title={period.latest.release}
+                        >
+                          {formatRelease(period.latest.release)}
+                          {period.vintageCount > 2 && ` (${period.vintageCount - 1} revisions)`}
+                          {period.first.seriesId &&
+                            period.latest.seriesId !== period.first.seriesId &&
+                            ` · series changed to ${period.latest.seriesId}`}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-[var(--muted)]">Unrevised</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-[var(--foreground)]">
+                    {revised ? formatChange(change, milestone.targetUnit, { compact: false }) : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Collapsible>
+  );
+}
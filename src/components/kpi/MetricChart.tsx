@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import type { KpiMetricRole, KpiMetricSeries } from "@/lib/types";
+import type { ForecastPoint } from "@/lib/forecast";
+import { formatLongForm, formatQuantity } from "@/lib/units";
+import { snapshotLabel } from "@/lib/periods";
+import SparklineChart from "./SparklineChart";
+
+interface MetricChartProps {
+  headline: KpiMetricSeries; // primary metric, already limited to one series
+  indicators: KpiMetricSeries[]; // secondary and leading metrics with data
+  height?: number;
+  targetValue?: number; // drawn only while the headline is charted
+  projection?: ForecastPoint[]; // headline forecast, likewise
+}
+
+const ROLE_LABELS: Record<KpiMetricRole, string> = {
+  primary: "Headline",
+  secondary: "Secondary",
+  leading: "Leading",
+};
+
+/**
+ * The milestone's KPI chart with a switcher for its secondary and leading
+ * indicators. An indicator can be charted on its own or overlaid on the
+ * headline metric, on its own scale.
+ */
+export default function MetricChart({
+  headline,
+  indicators,
+  height = 100,
+  targetValue,
+  projection,
+}: MetricChartProps) {
+  const [selectedId, setSelectedId] = useState(headline.metric.id);
+  const [overlay, setOverlay] = useState(false);
+
+  if (indicators.length === 0) {
+    return (
+      <SparklineChart
+        data={headline.history}
+        height={height}
+        showTooltip
+        label={headline.metric.label}
+        unit={headline.metric.unit}
+        targetValue={targetValue}
+        projection={projection}
+      />
+    );
+  }
+
+  const selected = indicators.find((s) => s.metric.id === selectedId);
+  const latest = selected?.history[selected.history.length - 1];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1.5 mb-2">
+        {[headline, ...indicators].map(({ metric }) => (
+          <button
+            key={metric.id}
+            type="button"
+            onClick={() => setSelectedId(metric.id)}
+            className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+              metric.id === selectedId
+                ? "bg-blue-100 text-blue-700"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {metric.label}
+            <span className="ml-1 font-normal opacity-70">{ROLE_LABELS[metric.role]}</span>
+          </button>
+        ))}
+        {selected && (
+          <label className="ml-auto flex items-center gap-1 text-xs text-[var(--muted)]">
+            <input
+              type="checkbox"
+              checked={overlay}
+              onChange={(e) => setOverlay(e.target.checked)}
+            />
+            Overlay on {headline.metric.label}
+          </label>
+        )}
+      </div>
+
+      {selected && overlay ? (
+        <SparklineChart
+          data={headline.history}
+          height={height}
+          showTooltip
+          label={headline.metric.label}
+          unit={headline.metric.unit}
+          targetValue={targetValue}
+          projection={projection}
+          overlay={{
+            data: selected.history,
+            label: selected.metric.label,
+            unit: selected.metric.unit,
+          }}
+        />
+      ) : selected ? (
+        <SparklineChart
+          data={selected.history}
+          height={height}
+          showTooltip
+          label={selected.metric.label}
+          unit={selected.metric.unit}
+          color="#d97706"
+        />
+      ) : (
+        <SparklineChart
+          data={headline.history}
+          height={height}
+          showTooltip
+          label={headline.metric.label}
+          unit={headline.metric.unit}
+          targetValue={targetValue}
+          projection={projection}
+        />
+      )}
+
+      {selected && latest && (
+        <p className="text-xs text-[var(--muted)] mt-1">
+          {selected.metric.label}:{" "}
+          <span aria-hidden="true">{formatQuantity(latest.value, selected.metric.unit)}</span>
+          <span className="sr-only">{formatLongForm(latest.value, selected.metric.unit)}</span> (
+          {snapshotLabel(latest)})
+          {overlay && " · dashed line, own scale"}
+        </p>
+      )}
+    </div>
+  );
+}
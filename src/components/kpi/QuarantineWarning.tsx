@@ -0,0 +1,38 @@
+import type { QuarantinedBatch } from "@/lib/kpi-quarantine";
+import { formatSqlDate } from "@/lib/refresh-log";
+import type { KpiMetric } from "@/lib/types";
+
+interface QuarantineWarningProps {
+  batches: QuarantinedBatch[]; // pending batches for this milestone, newest first
+  metrics: KpiMetric[]; // the milestone's metrics, to name the held batch's
+}
+
+/**
+ * Shown while a KPI update is held for review because it failed its source's
+ * validation rules. The chart keeps showing the last values that passed.
+ */
+export default function QuarantineWarning({ batches, metrics }: QuarantineWarningProps) {
+  if (batches.length === 0) return null;
+  const latest = batches[0];
+  const metricLabel = metrics.find((m) => m.id === latest.metricId)?.label ?? latest.metricId;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6">
+      <p className="text-sm font-semibold text-[var(--amber)]">
+        ⚠ Latest KPI update held for review
+      </p>
+      <p className="text-sm text-[var(--foreground)] mt-1">
+        {batches.length === 1
+          ? "A fetched batch"
+          : `${batches.length} fetched batches`}{" "}
+        failed validation, so the figures below are the last ones that passed.
+        Most recent ({metricLabel}, {formatSqlDate(latest.createdAt)}):
+      </p>
+      <ul className="list-disc ml-5 mt-1 text-xs text-[var(--muted)] space-y-0.5">
+        {latest.issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
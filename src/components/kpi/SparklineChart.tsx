@@ -1,21 +1,46 @@
 "use client";
 
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   ResponsiveContainer,
   Tooltip,
+  XAxis,
   YAxis,
   ReferenceLine,
 } from "recharts";
 import type { KpiSnapshot } from "@/lib/types";
+import type { ForecastPoint } from "@/lib/forecast";
+import { snapshotLabel, snapshotMidpoint } from "@/lib/periods";
+import { formatAxisValue, formatLongForm, formatValue } from "@/lib/units";
+
+interface SparklineOverlay {
+  data: KpiSnapshot[];
+  label: string; // tooltip name for the overlaid series
+  unit?: string;
+  color?: string;
+}
 
 interface SparklineChartProps {
   data: KpiSnapshot[];
   color?: string;
   height?: number;
   showTooltip?: boolean;
+  label?: string; // names the series in the chart's accessible summary
+  unit?: string; // formats tooltip values and the target label
   targetValue?: number; // Optional horizontal target line
+  overlay?: SparklineOverlay; // second series on its own scale, on the same time axis
+  projection?: ForecastPoint[]; // dashed forecast with its band, from the latest point
+}
+
+interface ChartRow {
+  time: number; // ms at the period midpoint, so series of different cadences line up
+  date: string; // period label for the tooltip
+  value?: number;
+  overlay?: number;
+  projected?: number;
+  band?: [number, number];
 }
 
 export default function SparklineChart({
@@ -23,7 +48,11 @@ export default function SparklineChart({
   color = "#1d4ed8",
   height = 60,
   showTooltip = true,
+  label,
+  unit = "",
   targetValue,
+  overlay,
+  projection,
 }: SparklineChartProps) {
   if (data.length === 0) {
     return (
@@ -36,67 +65,178 @@ export default function SparklineChart({
     );
   }
 
-  const chartData = data.map((d) => ({
-    date: d.label || d.date,
-    value: d.value,
-  }));
+  // One row per point in time across all series; any may have gaps
+  const rows = new Map<number, ChartRow>();
+  const rowAt = (date: string, label: string): ChartRow => {
+    const time = Date.parse(`${date}T00:00:00Z`);
+    return rows.get(time) ?? { time, date: label };
+  };
+  for (const d of data) {
+    const row = rowAt(snapshotMidpoint(d), snapshotLabel(d));
+    rows.set(row.time, { ...row, value: d.value });
+  }
+  for (const d of overlay?.data ?? []) {
+    const row = rowAt(snapshotMidpoint(d), snapshotLabel(d));
+    rows.set(row.time, { ...row, overlay: d.value });
+  }
+  for (const p of projection ?? []) {
+    const row = rowAt(p.date, formatMonth(p.date));
+    rows.set(row.time, { ...row, projected: p.value, band: [p.lower, p.upper] });
+  }
+  const chartData = [...rows.values()].sort((a, b) => a.time - b.time);
 
-  // Compute Y domain to include target line if provided
-  const values = chartData.map((d) => d.value);
+  // Compute Y domain to include target line and projection if provided
+  const values = [
+    ...data.map((d) => d.value),
+    ...(projection ?? []).flatMap((p) => [p.lower, p.upper]),
+  ];
   const dataMin = Math.min(...values);
   const dataMax = Math.max(...values);
   const yMin = targetValue !== undefined ? Math.min(dataMin, targetValue) : dataMin;
   const yMax = targetValue !== undefined ? Math.max(dataMax, targetValue) : dataMax;
   const yPadding = (yMax - yMin) * 0.05 || 1;
+  const overlayColor = overlay?.color ?? "#d97706";
 
   return (
-    <ResponsiveContainer width="100%" height={height}>
-      <AreaChart data={chartData}>
-        <defs>
-          <linearGradient id={`gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
-            <stop offset="5%" stopColor={color} stopOpacity={0.2} />
-            <stop offset="95%" stopColor={color} stopOpacity={0} />
-          </linearGradient>
-        </defs>
-        <YAxis
-          domain={[yMin - yPadding, yMax + yPadding]}
-          hide
-        />
-        {showTooltip && (
-          <Tooltip
-            contentStyle={{
-              fontSize: "12px",
-              borderRadius: "8px",
-              border: "1px solid var(--border)",
-            }}
-            formatter={(value) => [Number(value).toFixed(1), "Value"]}
-            labelFormatter={(label) => String(label)}
+    <div role="img" aria-label={describeChart(data, unit, label, targetValue, overlay, projection)}>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={chartData}>
+          <defs>
+            <linearGradient id={`gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={color} stopOpacity={0.2} />
+              <stop offset="95%" stopColor={color} stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <XAxis dataKey="time" type="number" scale="time" domain={["dataMin", "dataMax"]} hide />
+          <YAxis
+            domain={[yMin - yPadding, yMax + yPadding]}
+            hide
           />
-        )}
-        {targetValue !== undefined && (
-          <ReferenceLine
-            y={targetValue}
-            stroke="#16a34a"
-            strokeDasharray="4 4"
-            strokeWidth={1.5}
-            label={{
-              value: `Target: ${targetValue}`,
-              position: "right",
-              fill: "#16a34a",
-              fontSize: 10,
-            }}
+          {overlay && <YAxis yAxisId="overlay" domain={["auto", "auto"]} hide />}
+          {showTooltip && (
+            <Tooltip
+              contentStyle={{
+                fontSize: "12px",
+                borderRadius: "8px",
+                border: "1px solid var(--border)",
+              }}
+              formatter={(value, name, item) => {
+                const valueUnit = item.dataKey === "overlay" ? (overlay?.unit ?? "") : unit;
+                return [
+                  Array.isArray(value)
+                    ? value.map((v) => formatValue(Number(v), valueUnit)).join("–")
+                    : formatValue(Number(value), valueUnit),
+                  String(name),
+                ];
+              }}
+              labelFormatter={(_, payload) => String(payload?.[0]?.payload?.date ?? "")}
+            />
+          )}
+          {targetValue !== undefined && (
+            <ReferenceLine
+              y={targetValue}
+              stroke="#16a34a"
+              strokeDasharray="4 4"
+              strokeWidth={1.5}
+              label={{
+                value: `Target: ${formatAxisValue(targetValue, unit)}`,
+                position: "right",
+                fill: "#16a34a",
+                fontSize: 10,
+              }}
+            />
+          )}
+          <Area
+            type="monotone"
+            dataKey="value"
+            name="Value"
+            stroke={color}
+            strokeWidth={2}
+            fill={`url(#gradient-${color})`}
+            dot={false}
+            activeDot={{ r: 3, fill: color }}
+            connectNulls
           />
-        )}
-        <Area
-          type="monotone"
-          dataKey="value"
-          stroke={color}
-          strokeWidth={2}
-          fill={`url(#gradient-${color})`}
-          dot={false}
-          activeDot={{ r: 3, fill: color }}
-        />
-      </AreaChart>
-    </ResponsiveContainer>
+          {projection && (
+            <Area
+              type="monotone"
+              dataKey="band"
+              name="90% range"
+              stroke="none"
+              fill={color}
+              fillOpacity={0.1}
+              activeDot={false}
+              connectNulls
+            />
+          )}
+          {projection && (
+            <Line
+              type="monotone"
+              dataKey="projected"
+              name="Projected"
+              stroke={color}
+              strokeWidth={1.5}
+              strokeDasharray="3 3"
+              dot={false}
+              activeDot={{ r: 3, fill: color }}
+              connectNulls
+            />
+          )}
+          {overlay && (
+            <Line
+              yAxisId="overlay"
+              type="monotone"
+              dataKey="overlay"
+              name={overlay.label}
+              stroke={overlayColor}
+              strokeWidth={1.5}
+              strokeDasharray="4 2"
+              dot={false}
+              activeDot={{ r: 3, fill: overlayColor }}
+              connectNulls
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
   );
 }
+
+/** "Q3 2023: 100.8 percent" or "from … in Q3 2023 to … in Q2 2025" */
+function describeSeries(data: KpiSnapshot[], unit: string): string {
+  const first = data[0];
+  const last = data[data.length - 1];
+  const at = (d: KpiSnapshot) => `${formatLongForm(d.value, unit)} in ${snapshotLabel(d)}`;
+  return data.length === 1 ? at(first) : `from ${at(first)} to ${at(last)}`;
+}
+
+/**
+ * Text alternative for the chart: the series' first and latest values, the
+ * target line, the end of the projection and any overlaid series.
+ */
+function describeChart(
+  data: KpiSnapshot[],
+  unit: string,
+  label: string | undefined,
+  targetValue: number | undefined,
+  overlay: SparklineOverlay | undefined,
+  projection: ForecastPoint[] | undefined
+): string {
+  const parts = [`${label ?? "Trend"}: ${describeSeries(data, unit)}`];
+  if (targetValue !== undefined) parts.push(`target ${formatLongForm(targetValue, unit)}`);
+  const end = projection?.[projection.length - 1];
+  if (end) parts.push(`projected ${formatLongForm(end.value, unit)} by ${formatMonth(end.date)}`);
+  if (overlay && overlay.data.length > 0) {
+    parts.push(`overlaid ${overlay.label} ${describeSeries(overlay.data, overlay.unit ?? "")}`);
+  }
+  return parts.join("; ");
+}
+
+/** "2029-03-31" → "Mar 2029", for projected dates with no period label. */
+function formatMonth(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
@@ -1,38 +1,21 @@
+import type { RagStatus } from "@/lib/forecast";
+
 interface TrafficLightProps {
-  current: number;
-  target: number;
-  higherIsBetter: boolean;
-  effectiveRatio?: number;
+  status: RagStatus; // from the projected outcome at the target date
+  title?: string; // hover text, e.g. the projection behind the status
 }
 
-export default function TrafficLight({
-  current,
-  target,
-  higherIsBetter,
-  effectiveRatio,
-}: TrafficLightProps) {
-  if (!target || target === 0) {
-    return null;
-  }
-
-  const ratio =
-    effectiveRatio ?? (higherIsBetter ? current / target : target / current);
+const STATUS_STYLES: Record<RagStatus, { color: string; label: string }> = {
+  green: { color: "bg-[var(--green)]", label: "On track" },
+  amber: { color: "bg-[var(--amber)]", label: "At risk" },
+  red: { color: "bg-[var(--red)]", label: "Off track" },
+};
 
-  let color: string;
-  let label: string;
-  if (ratio >= 0.9) {
-    color = "bg-[var(--green)]";
-    label = "On track";
-  } else if (ratio >= 0.6) {
-    color = "bg-[var(--amber)]";
-    label = "At risk";
-  } else {
-    color = "bg-[var(--red)]";
-    label = "Off track";
-  }
+export default function TrafficLight({ status, title }: TrafficLightProps) {
+  const { color, label } = STATUS_STYLES[status];
 
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex items-center gap-2" title={title}>
       <span className={`inline-block w-3 h-3 rounded-full ${color}`} />
       <span className="text-xs font-medium text-[var(--muted)]">{label}</span>
     </div>
@@ -3,17 +3,13 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState, useEffect } from "react";
+import type { Milestone } from "@/lib/types";
 
-const milestones = [
-  { slug: "economic-growth", shortTitle: "Growth", icon: "📈" },
-  { slug: "housing", shortTitle: "Housing", icon: "🏠" },
-  { slug: "nhs", shortTitle: "NHS", icon: "🏥" },
-  { slug: "policing", shortTitle: "Policing", icon: "👮" },
-  { slug: "education", shortTitle: "Education", icon: "📚" },
-  { slug: "clean-energy", shortTitle: "Energy", icon: "⚡" },
-];
+interface SidebarProps {
+  milestones: Pick<Milestone, "slug" | "shortTitle" | "icon">[]; // in display order
+}
 
-export default function Sidebar() {
+export default function Sidebar({ milestones }: SidebarProps) {
   const pathname = usePathname();
   const [open, setOpen] = useState(false);
 
@@ -87,6 +83,20 @@ export default function Sidebar() {
               </li>
             );
           })}
+
+          <li className="pt-3">
+            <Link
+              href="/status"
+              className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${
+                pathname === "/status"
+                  ? "bg-[var(--accent-light)] text-[var(--accent)]"
+                  : "text-[var(--muted)] hover:bg-gray-50 hover:text-[var(--foreground)]"
+              }`}
+            >
+              <span className="text-base">🩺</span>
+              Data status
+            </Link>
+          </li>
         </ul>
       </nav>
 
@@ -14,6 +14,12 @@ const STATUS_CONFIG = {
     text: "text-green-800",
     dot: "bg-green-500",
   },
+  "enacted-not-commenced": {
+    label: "Enacted, Not Commenced",
+    bg: "bg-teal-100",
+    text: "text-teal-800",
+    dot: "bg-teal-500",
+  },
   "in-progress": {
     label: "In Progress",
     bg: "bg-blue-100",
@@ -78,6 +84,14 @@ export default function DeliveryTracker({ meView }: DeliveryTrackerProps) {
               style={{ width: `${(deliveredCount / total) * 100}%` }}
             />
           )}
+          {meView.enactedNotCommencedCount > 0 && (
+            <div
+              className="bg-teal-400 h-full"
+              style={{
+                width: `${(meView.enactedNotCommencedCount / total) * 100}%`,
+              }}
+            />
+          )}
           {meView.inProgressCount > 0 && (
             <div
               className="bg-blue-400 h-full"
@@ -103,6 +117,12 @@ export default function DeliveryTracker({ meView }: DeliveryTrackerProps) {
             {deliveredCount} delivered
           </span>
         )}
+        {meView.enactedNotCommencedCount > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-teal-500" />
+            {meView.enactedNotCommencedCount} enacted, not commenced
+          </span>
+        )}
         {meView.inProgressCount > 0 && (
           <span className="flex items-center gap-1">
             <span className="w-2 h-2 rounded-full bg-blue-500" />
@@ -1,15 +1,22 @@
-import type { MEFramework } from "@/lib/types";
+import type { KpiSnapshot, MEFramework } from "@/lib/types";
+import type { ResolvedBaselineMetric } from "@/lib/baseline-progress";
+import { snapshotLabel } from "@/lib/periods";
+import { formatChange, formatValue } from "@/lib/units";
 
 interface DocumentGroundingProps {
   framework: MEFramework;
-  latestKpiValue?: number;
+  latestByMetric?: Record<string, KpiSnapshot>; // latest stored value per metric id
+  baselineMetrics?: ResolvedBaselineMetric[]; // baseline metrics with stored values filled in
 }
 
 export default function DocumentGrounding({
   framework,
-  latestKpiValue,
+  latestByMetric = {},
+  baselineMetrics,
 }: DocumentGroundingProps) {
   const baseline = framework.baseline;
+  const metrics: ResolvedBaselineMetric[] =
+    baselineMetrics ?? baseline.metrics.map((metric) => ({ ...metric, snapshot: null }));
   const target = framework.target;
   const trajectory = framework.requiredTrajectory;
 
@@ -39,18 +46,32 @@ export default function DocumentGrounding({
           <p className="text-sm text-[var(--foreground)]">
             {baseline.description}
           </p>
-          {baseline.metrics.map((metric, i) => (
-            <div key={i} className="mt-1.5">
-              {metric.value !== null && (
-                <span className="text-lg font-bold text-[var(--foreground)]">
-                  {formatMetricValue(metric.value, metric.unit)}
+          {metrics.map((metric, i) => {
+            const live = metric.metricId ? latestByMetric[metric.metricId] : undefined;
+            const change = live && metric.value !== null ? live.value - metric.value : null;
+            return (
+              <div key={i} className="mt-1.5">
+                {metric.value !== null && (
+                  <span className="text-lg font-bold text-[var(--foreground)]">
+                    {formatValue(metric.value, metric.unit)}
+                  </span>
+                )}
+                <span className="text-xs text-[var(--muted)] ml-1">
+                  {metric.label} ({metric.snapshot ? snapshotLabel(metric.snapshot) : baseline.date})
                 </span>
-              )}
-              <span className="text-xs text-[var(--muted)] ml-1">
-                {metric.label} ({baseline.date})
-              </span>
-            </div>
-          ))}
+                {live && (
+                  <div className="text-xs text-[var(--muted)]">
+                    Now:{" "}
+                    <span className="font-semibold text-[var(--foreground)]">
+                      {formatValue(live.value, metric.unit)}
+                    </span>{" "}
+                    ({snapshotLabel(live)})
+                    {change !== null && live.date !== metric.snapshot?.date && ` · ${formatChange(change, metric.unit)} since baseline`}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         <div className="bg-blue-50 rounded-lg p-3">
@@ -63,7 +84,7 @@ export default function DocumentGrounding({
           <div className="mt-1.5">
             {target.value !== null && (
               <span className="text-lg font-bold text-blue-700">
-                {formatMetricValue(target.value, target.unit)}
+                {formatValue(target.value, target.unit)}
               </span>
             )}
             <span className="text-xs text-[var(--muted)] ml-1">
@@ -110,18 +131,3 @@ export default function DocumentGrounding({
     </div>
   );
 }
-
-function formatMetricValue(value: number, unit: string): string {
-  if (unit === "%" || unit === "% clean power") {
-    return `${value.toFixed(1)}%`;
-  }
-  if (unit === "homes" || unit === "patients" || unit === "children") {
-    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
-    if (value >= 1000) return `${Math.round(value / 1000).toLocaleString()}k`;
-    return value.toLocaleString();
-  }
-  if (unit === "additional officers" || unit === "officers") {
-    return Math.round(value).toLocaleString();
-  }
-  return value.toLocaleString();
-}
@@ -1,4 +1,5 @@
 import type { Output, BillStage, MediaArticle } from "@/lib/types";
+import { describeCommencement } from "@/lib/commencement";
 import BillProgressBar from "./BillProgressBar";
 
 const TYPE_BADGES: Record<string, { label: string; color: string }> = {
@@ -27,6 +28,7 @@ export default function KeyOutputCard({
     label: output.type,
     color: "bg-gray-100 text-gray-700",
   };
+  const commencement = describeCommencement(output);
 
   return (
     <div className="bg-white rounded-lg border border-[var(--border)] p-4 hover:shadow-sm transition-shadow">
@@ -65,6 +67,10 @@ export default function KeyOutputCard({
             <BillProgressBar stages={billStages} />
           )}
 
+          {commencement && (
+            <p className="text-xs text-[var(--muted)] mt-1">{commencement}</p>
+          )}
+
           {latestArticle && (
             <a
               href={latestArticle.url}
@@ -1,6 +1,7 @@
 "use client";
 
 import type { Output, BillStage, MediaArticle } from "@/lib/types";
+import { getCommencementStatus } from "@/lib/commencement";
 import KeyOutputCard from "./KeyOutputCard";
 
 interface KeyOutputsPanelProps {
@@ -16,8 +17,10 @@ export default function KeyOutputsPanel({
 }: KeyOutputsPanelProps) {
   if (outputs.length === 0) return null;
 
-  // Split into enacted (Royal Assent bills, published key papers) and in-progress
-  const enacted: Output[] = [];
+  // Split into in force (commenced Acts), enacted but not yet commenced, and
+  // in progress. Enacted bills not yet matched to an Act count as in force.
+  const inForce: Output[] = [];
+  const notCommenced: Output[] = [];
   const inProgress: Output[] = [];
 
   for (const output of outputs) {
@@ -26,10 +29,12 @@ export default function KeyOutputsPanel({
       (s) => s.name.toLowerCase().includes("royal assent") && s.completed
     );
 
-    if (hasRoyalAssent) {
-      enacted.push(output);
-    } else {
+    if (!hasRoyalAssent) {
       inProgress.push(output);
+    } else if (getCommencementStatus(output) === "not-commenced") {
+      notCommenced.push(output);
+    } else {
+      inForce.push(output);
     }
   }
 
@@ -43,13 +48,31 @@ export default function KeyOutputsPanel({
         type, legislative progress, and media coverage.
       </p>
 
-      {enacted.length > 0 && (
+      {inForce.length > 0 && (
         <div className="mb-4">
           <h4 className="text-xs font-semibold uppercase tracking-wide text-green-700 mb-2">
-            Enacted
+            In Force
+          </h4>
+          <div className="space-y-2">
+            {inForce.map((output) => (
+              <KeyOutputCard
+                key={output.id}
+                output={output}
+                billStages={billStagesMap.get(output.id)}
+                latestArticle={latestArticlesMap.get(output.id)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {notCommenced.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-teal-700 mb-2">
+            Enacted — Not Yet Commenced
           </h4>
           <div className="space-y-2">
-            {enacted.map((output) => (
+            {notCommenced.map((output) => (
               <KeyOutputCard
                 key={output.id}
                 output={output}
@@ -0,0 +1,109 @@
+import { resolveTargetDate } from "./forecast";
+import { annualTarget, findBaseline, resolveBaselineDate, snapshotAsOf } from "./kpi-presentation";
+import { snapshotMidpoint } from "./periods";
+import type { BaselineMetric, KpiSnapshot, MEFramework, Milestone } from "./types";
+
+// ---------------------------------------------------------------------------
+// Progress since the baseline
+//
+// Each milestone is measured from a baseline: the stored KPI value at its
+// baseline date (see resolveBaselineDate). From there we report how far the
+// KPI has moved, what share of the change the target asks for that is, and
+// what share of the time to the target date has gone — so a milestone 20% of
+// the way there with half the time gone reads as behind whatever its level.
+// ---------------------------------------------------------------------------
+
+export interface BaselineProgress {
+  baselineDate: string; // ISO date the baseline was resolved at
+  baseline: KpiSnapshot; // stored value the change is measured from
+  latest: KpiSnapshot;
+  change: number; // latest − baseline, in KPI units
+  requiredChange: number | null; // baseline to target; null without a numeric target
+  shareAchieved: number | null; // change / requiredChange; null if the target was already met
+  timeElapsed: number | null; // share of baseline → target date gone by the latest value, 0–1
+}
+
+/** A baseline metric from me-framework.json with its value read from kpi_snapshots where stored. */
+export interface ResolvedBaselineMetric extends BaselineMetric {
+  snapshot: KpiSnapshot | null; // stored value at the baseline date, used in place of the configured one
+}
+
+function ms(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+/**
+ * The change the target asks for from `baseline`, in the terms the
+ * milestone's presentation.mode compares KPI and target: to the target
+ * level, to one year's share of it for annualised and cumulative targets
+ * (the KPI is the yearly rate), or the target itself for delta-from-baseline.
+ */
+function requiredChangeFrom(milestone: Milestone, baseline: number): number | null {
+  switch (milestone.presentation.mode) {
+    case "absolute":
+      return milestone.targetValue > 0 ? milestone.targetValue - baseline : null;
+    case "annualised":
+    case "cumulative": {
+      const annual = annualTarget(milestone);
+      return annual !== null ? annual - baseline : null;
+    }
+    case "delta-from-baseline":
+      return milestone.targetValue > 0 ? milestone.targetValue : null;
+    case "comparative":
+      return null;
+  }
+}
+
+/**
+ * Change in a milestone's KPI since its baseline, as a share of the change
+ * needed and against the share of time gone. `history` is the charted
+ * primary series, oldest first. Null until a value at or before the baseline
+ * date and a later one are both stored.
+ */
+export function computeBaselineProgress(
+  milestone: Milestone,
+  history: KpiSnapshot[],
+  framework?: MEFramework
+): BaselineProgress | null {
+  const baseline = findBaseline(milestone, history, framework);
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  if (!baseline || !latest) return null;
+
+  const change = latest.value - baseline.value;
+  const requiredChange = requiredChangeFrom(milestone, baseline.value);
+  const towardsTarget =
+    requiredChange !== null && (milestone.higherIsBetter ? requiredChange > 0 : requiredChange < 0);
+
+  const start = ms(snapshotMidpoint(baseline));
+  const targetDate = resolveTargetDate(milestone.targetDate);
+  const span = targetDate ? ms(targetDate) - start : 0;
+  const elapsed = ms(snapshotMidpoint(latest)) - start;
+
+  return {
+    baselineDate: resolveBaselineDate(milestone, framework),
+    baseline,
+    latest,
+    change,
+    requiredChange,
+    shareAchieved: towardsTarget && requiredChange !== null ? change / requiredChange : null,
+    timeElapsed: span > 0 ? Math.min(1, Math.max(0, elapsed / span)) : null,
+  };
+}
+
+/**
+ * The framework's baseline metrics with values taken from each metric's
+ * stored series at the milestone's baseline date. Metrics without a
+ * metricId, or with nothing stored that early, keep their configured value.
+ */
+export function resolveBaselineMetrics(
+  milestone: Milestone,
+  framework: MEFramework,
+  snapshots: KpiSnapshot[]
+): ResolvedBaselineMetric[] {
+  const baselineDate = resolveBaselineDate(milestone, framework);
+  return framework.baseline.metrics.map((metric) => {
+    const series = metric.metricId ? snapshots.filter((s) => s.metricId === metric.metricId) : [];
+    const snapshot = snapshotAsOf(series, baselineDate);
+    return { ...metric, value: snapshot?.value ?? metric.value, snapshot };
+  });
+}
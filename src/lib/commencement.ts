@@ -0,0 +1,47 @@
+import type { Output } from "./types";
+
+// ---------------------------------------------------------------------------
+// Commencement helpers
+//
+// Royal Assent makes a bill an Act, but its provisions only take effect once
+// commenced — by the Act itself or by commencement regulations, sometimes
+// years later. Commencement counts come from act_commencement_summary.
+// ---------------------------------------------------------------------------
+
+export type CommencementStatus = "in-force" | "partially-in-force" | "not-commenced";
+
+/**
+ * Commencement status of an output matched to an Act, or null when the output
+ * is not an Act, has not been matched to one yet, or its commencement is not
+ * known: its effects have never been fetched, or legislation.gov.uk lists
+ * none yet (see act_commencement_summary).
+ */
+export function getCommencementStatus(output: Output): CommencementStatus | null {
+  if (output.provisionsInForce == null) return null;
+  if (output.provisionsInForce === 0) return "not-commenced";
+  return output.provisionsPending ? "partially-in-force" : "in-force";
+}
+
+/** Short description of an Act's commencement, e.g. "12 provisions in force, 3 pending". */
+export function describeCommencement(output: Output): string | null {
+  const status = getCommencementStatus(output);
+  if (!status) return null;
+
+  const regulations = output.commencementRegulationCount ?? 0;
+  const regulationText =
+    regulations > 0
+      ? ` · ${regulations} commencement regulation${regulations === 1 ? "" : "s"}`
+      : "";
+
+  if (status === "not-commenced") {
+    const pending = output.provisionsPending ?? 0;
+    return pending > 0
+      ? `Not yet commenced (${pending} provision${pending === 1 ? "" : "s"} scheduled)${regulationText}`
+      : `Not yet commenced${regulationText}`;
+  }
+
+  const inForce = `${output.provisionsInForce} provision${output.provisionsInForce === 1 ? "" : "s"} in force`;
+  return status === "partially-in-force"
+    ? `${inForce}, ${output.provisionsPending} pending${regulationText}`
+    : `${inForce}${regulationText}`;
+}
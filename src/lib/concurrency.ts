@@ -0,0 +1,47 @@
+// ---------------------------------------------------------------------------
+// Bounded concurrency helpers
+//
+// Used by the HTTP client (per-host limits), by fetchers that issue many
+// independent requests, and by the refresh pipeline. Only the async work runs
+// concurrently — callers still write to SQLite in synchronous transactions
+// once the requests have settled.
+// ---------------------------------------------------------------------------
+
+/** Runs a task once a slot is free, holding the slot until it settles. */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** Create a limiter that allows at most `limit` tasks in flight. */
+export function createLimiter(limit: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++;
+    } else {
+      // Wait for a finishing task to hand its slot over
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight. Results keep the order
+ * of the input, so callers that deduplicate by first occurrence behave as
+ * they would sequentially.
+ */
+export function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limiter = createLimiter(limit);
+  return Promise.all(items.map((item, i) => limiter(() => fn(item, i))));
+}
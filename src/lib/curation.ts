@@ -0,0 +1,79 @@
+import { getDb } from "./db";
+import type { Confidence, MilestoneSlug } from "./types";
+
+// ---------------------------------------------------------------------------
+// Output curation
+//
+// Human decisions about outputs (hide it, override its confidence, leave a
+// note) are stored in output_curation, and manual milestone links/unlinks in
+// output_milestone_curation, rather than on the fetched rows, so fetchers can
+// upsert source data freely. The curated_outputs view merges them and is what
+// the dashboard reads.
+// ---------------------------------------------------------------------------
+
+export interface OutputCurationPatch {
+  dismissed?: boolean;
+  /** null clears the override and restores the fetched confidence. */
+  confidence?: Confidence | null;
+  notes?: string | null;
+}
+
+interface CurationRow {
+  dismissed: number;
+  confidence: string | null;
+  notes: string | null;
+}
+
+/**
+ * Apply a partial curation update to an output. Fields left undefined keep
+ * their current value.
+ */
+export function setOutputCuration(outputId: string, patch: OutputCurationPatch): void {
+  const db = getDb();
+
+  const apply = db.transaction(() => {
+    const current = db
+      .prepare(
+        "SELECT dismissed, confidence, notes FROM output_curation WHERE output_id = ?"
+      )
+      .get(outputId) as CurationRow | undefined;
+
+    const dismissed =
+      patch.dismissed !== undefined ? patch.dismissed : Boolean(current?.dismissed);
+    const confidence =
+      patch.confidence !== undefined ? patch.confidence : current?.confidence ?? null;
+    const notes = patch.notes !== undefined ? patch.notes : current?.notes ?? null;
+
+    db.prepare(
+      `INSERT INTO output_curation (output_id, dismissed, confidence, notes, updated_at)
+       VALUES (?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(output_id) DO UPDATE SET
+         dismissed = excluded.dismissed,
+         confidence = excluded.confidence,
+         notes = excluded.notes,
+         updated_at = excluded.updated_at`
+    ).run(outputId, dismissed ? 1 : 0, confidence, notes);
+  });
+
+  apply();
+}
+
+/**
+ * Manually link an output to a milestone, or unlink it from one the fetchers
+ * linked it to. Overrides the fetched links in curated_outputs.
+ */
+export function setMilestoneLink(
+  outputId: string,
+  milestoneSlug: MilestoneSlug,
+  linked: boolean
+): void {
+  getDb()
+    .prepare(
+      `INSERT INTO output_milestone_curation (output_id, milestone_slug, linked, updated_at)
+       VALUES (?, ?, ?, datetime('now'))
+       ON CONFLICT(output_id, milestone_slug) DO UPDATE SET
+         linked = excluded.linked,
+         updated_at = excluded.updated_at`
+    )
+    .run(outputId, milestoneSlug, linked ? 1 : 0);
+}
@@ -0,0 +1,167 @@
+import { resolveTargetDate } from "./forecast";
+import { monthPeriod, periodLabel, snapshotLabel } from "./periods";
+import type { KpiPeriod, KpiSnapshot, Milestone } from "./types";
+
+// ---------------------------------------------------------------------------
+// Delivery against a cumulative target
+//
+// A cumulative target totals a yearly flow over several years — the housing
+// milestone is 1.5 million homes over the Parliament, while Live Table 120
+// reports net additional dwellings per financial year. This builds a running
+// total from the presentation's periodStart (4 July 2024 for housing): a year
+// that straddles the start is pro-rated by the share after it, and quarters
+// after the latest published year are estimated from the presentation's
+// proxyMetric (quarterly completions, Live Table 213). A proxy can miss part
+// of the flow — completions miss conversions and demolitions — so it is
+// scaled by how the two compared in the latest year both cover.
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 86_400_000;
+
+export interface DeliveryPoint {
+  date: string; // last day counted so far
+  label: string;
+  cumulative: number;
+  estimated: boolean; // includes quarters estimated from completions
+}
+
+export interface DeliveryProgress {
+  target: number;
+  start: string; // ISO, presentation.periodStart
+  targetDate: string; // ISO, resolved from milestone.targetDate
+  points: DeliveryPoint[]; // oldest first, from 0 on the start date
+  latest: DeliveryPoint | null; // null until any period after the start is published
+  expectedByLatest: number | null; // straight-line path at latest.date
+  proxyScale: number | null; // net additions per completion, when the proxy was used
+}
+
+interface Period {
+  start: number; // ms, inclusive
+  end: number; // ms, exclusive
+  value: number;
+  label: string;
+}
+
+function ms(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function addMonths(time: number, months: number): number {
+  const d = new Date(time);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, d.getUTCDate());
+}
+
+/** Share of a period that falls on or after `from`. */
+function shareAfter(period: Period, from: number): number {
+  const start = Math.max(period.start, from);
+  return Math.max(0, period.end - start) / (period.end - period.start);
+}
+
+function storedPeriod(snapshot: KpiSnapshot, period: KpiPeriod): Period {
+  const label = snapshotLabel(snapshot);
+  return { start: ms(period.start), end: ms(period.end) + DAY_MS, value: snapshot.value, label };
+}
+
+/** Table 120 snapshots without a stored period are dated at the financial year's end (31 March). */
+function financialYear(snapshot: KpiSnapshot): Period {
+  if (snapshot.period) return storedPeriod(snapshot, snapshot.period);
+  const end = ms(snapshot.date) + DAY_MS;
+  return { start: addMonths(end, -12), end, value: snapshot.value, label: snapshotLabel(snapshot) };
+}
+
+/** Quarterly snapshots without a stored period are dated at the quarter's first day. */
+function quarter(snapshot: KpiSnapshot): Period {
+  if (snapshot.period) return storedPeriod(snapshot, snapshot.period);
+  const start = ms(snapshot.date);
+  return { start, end: addMonths(start, 3), value: snapshot.value, label: snapshotLabel(snapshot) };
+}
+
+/**
+ * Net additions per completion in the latest financial year with all four
+ * quarters of completions, or null if no year is fully covered.
+ */
+function proxyScale(years: Period[], quarters: Period[]): number | null {
+  for (const year of [...years].reverse()) {
+    const inYear = quarters.filter((q) => q.start >= year.start && q.end <= year.end);
+    const completions = inYear.reduce((sum, q) => sum + q.value, 0);
+    if (inYear.length === 4 && completions > 0) return year.value / completions;
+  }
+  return null;
+}
+
+/** What the straight-line path from `start` to `target` at `targetDate` expects by `date`. */
+function expectedDelivery(date: string, start: string, targetDate: string, target: number): number {
+  const progress = (ms(date) - ms(start)) / (ms(targetDate) - ms(start));
+  return Math.round(target * Math.min(1, Math.max(0, progress)));
+}
+
+/**
+ * Build the running total delivered since the presentation's periodStart
+ * from the yearly primary series and, for later quarters, the proxy metric's
+ * history (empty without one). Both are oldest first. Null unless the
+ * milestone is cumulative, with a start and a target date that resolves.
+ */
+export function computeDeliveryProgress(
+  milestone: Milestone,
+  annual: KpiSnapshot[],
+  quarterly: KpiSnapshot[]
+): DeliveryProgress | null {
+  const { mode, periodStart } = milestone.presentation;
+  const targetDate = resolveTargetDate(milestone.targetDate);
+  if (mode !== "cumulative" || !periodStart || !targetDate) return null;
+
+  const from = ms(periodStart);
+  const years = annual.map(financialYear).filter((y) => shareAfter(y, from) > 0);
+  const quarters = quarterly.map(quarter);
+  const [startYear, startMonth] = periodStart.split("-").map(Number);
+  const points: DeliveryPoint[] = [
+    {
+      date: periodStart,
+      label: periodLabel(monthPeriod(startYear, startMonth)),
+      cumulative: 0,
+      estimated: false,
+    },
+  ];
+
+  let cumulative = 0;
+  for (const year of years) {
+    cumulative += year.value * shareAfter(year, from);
+    points.push({
+      date: isoDate(year.end - DAY_MS),
+      label: year.label,
+      cumulative: Math.round(cumulative),
+      estimated: false,
+    });
+  }
+
+  const covered = years.length > 0 ? years[years.length - 1].end : from;
+  // Quarters after the last published year or, before any year is
+  // published, from the quarter the start falls in
+  const later = quarters.filter((q) => (years.length > 0 ? q.start >= covered : q.end > covered));
+  const scale = later.length > 0 ? (proxyScale(years, quarters) ?? 1) : null;
+  for (const q of later) {
+    cumulative += q.value * (scale ?? 1) * shareAfter(q, from);
+    points.push({
+      date: isoDate(q.end - DAY_MS),
+      label: q.label,
+      cumulative: Math.round(cumulative),
+      estimated: true,
+    });
+  }
+
+  const latest = points.length > 1 ? points[points.length - 1] : null;
+  const target = milestone.targetValue;
+  return {
+    target,
+    start: periodStart,
+    targetDate,
+    points,
+    latest,
+    expectedByLatest: latest ? expectedDelivery(latest.date, periodStart, targetDate, target) : null,
+    proxyScale: scale,
+  };
+}
@@ -1,6 +1,7 @@
 import { getDb } from "../db";
+import { describeHttpError, fetchJson } from "../http";
 import { getMilestoneMapping } from "../milestones";
-import type { MilestoneSlug } from "../types";
+import type { FetchOptions, FetchResult, MilestoneSlug } from "../types";
 
 // ---------------------------------------------------------------------------
 // UK Parliament Committees API fetcher
@@ -48,42 +49,39 @@ async function fetchCommitteeDetails(
 ): Promise<CommitteeDetailsResponse | null> {
   try {
     const url = `${COMMITTEES_API_BASE}/Committees/${committeeId}`;
-    const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    const res = await fetchJson<CommitteeDetailsResponse>(url, { timeoutMs: 10000 });
     if (!res.ok) {
-      console.error(
-        `[committees] API error: ${res.status} for GET /Committees/${committeeId}`
-      );
+      console.error(`[committees] API error: ${describeHttpError(res.error)}`);
       return null;
     }
-    return (await res.json()) as CommitteeDetailsResponse;
+    return res.data;
   } catch (err) {
     console.error(`[committees] Fetch error for committee ${committeeId}:`, err);
     return null;
   }
 }
 
+/** Returns null when the request failed, [] when there is no business. */
 async function fetchCommitteeBusiness(
-  committeeId: number
-): Promise<CommitteeBusinessItem[]> {
+  committeeId: number,
+  fromDate: string
+): Promise<CommitteeBusinessItem[] | null> {
   try {
     const params = new URLSearchParams({
       CommitteeId: committeeId.toString(),
-      DateFrom: FROM_DATE,
+      DateFrom: fromDate,
       Take: "50",
     });
     const url = `${COMMITTEES_API_BASE}/CommitteeBusiness?${params.toString()}`;
-    const res = await fetch(url, { signal: AbortSignal.timeout(15000) });
+    const res = await fetchJson<CommitteeBusinessResponse>(url, { timeoutMs: 15000 });
     if (!res.ok) {
-      console.error(
-        `[committees] API error: ${res.status} for CommitteeBusiness?CommitteeId=${committeeId}`
-      );
-      return [];
+      console.error(`[committees] API error: ${describeHttpError(res.error)}`);
+      return null;
     }
-    const data = (await res.json()) as CommitteeBusinessResponse;
-    return data.items ?? [];
+    return res.data.items ?? [];
   } catch (err) {
     console.error(`[committees] Fetch error for committee business ${committeeId}:`, err);
-    return [];
+    return null;
   }
 }
 
@@ -98,32 +96,41 @@ interface FetchedInquiry {
  * for a given milestone and store them in the committee_inquiries table.
  */
 export async function fetchCommitteeInquiries(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
   if (mapping.committeeIds.length === 0) {
     console.log(
       `[committees] No committee IDs for "${milestoneSlug}", skipping.`
     );
-    return;
+    return { written: 0, failed: 0 };
   }
 
   const allInquiries: FetchedInquiry[] = [];
+  let failed = 0;
 
   for (const committeeId of mapping.committeeIds) {
     const committee = await fetchCommitteeDetails(committeeId);
-    if (!committee) continue;
+    if (!committee) {
+      failed++;
+      continue;
+    }
 
     console.log(
       `[committees] Fetching inquiries for "${committee.name}" (ID: ${committeeId})...`
     );
 
-    const items = await fetchCommitteeBusiness(committeeId);
+    const items = await fetchCommitteeBusiness(committeeId, options.since ?? FROM_DATE);
+    if (!items) {
+      failed++;
+      continue;
+    }
 
     // Only include inquiry-type business items
     for (const item of items) {
@@ -138,18 +145,39 @@ export async function fetchCommitteeInquiries(
   }
 
   if (allInquiries.length === 0) {
-    console.log(`[committees] No inquiries found for "${milestoneSlug}"`);
-    return;
+    console.log(
+      failed > 0
+        ? `[committees] No inquiries fetched for "${milestoneSlug}" (${failed} committees failed)`
+        : `[committees] No inquiries found for "${milestoneSlug}"`
+    );
+    return { written: 0, failed };
   }
 
   const db = getDb();
 
   const upsert = db.prepare(`
-    INSERT OR REPLACE INTO committee_inquiries
-      (id, milestone_slug, committee_name, committee_id,
+    INSERT INTO committee_inquiries
+      (id, committee_name, committee_id,
        inquiry_title, status, url, evidence_sessions,
        reports_published, last_activity)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      committee_name = excluded.committee_name,
+      inquiry_title = excluded.inquiry_title,
+      status = excluded.status,
+      url = excluded.url,
+      evidence_sessions = excluded.evidence_sessions,
+      reports_published = excluded.reports_published,
+      last_activity = excluded.last_activity,
+      fetched_at = datetime('now')
+  `);
+
+  // Committees are mapped to milestones explicitly, so links are high confidence.
+  // A committee shared by several milestones links its inquiries to each.
+  const link = db.prepare(`
+    INSERT INTO committee_inquiry_milestones (inquiry_id, milestone_slug, confidence)
+    VALUES (?, ?, 'high')
+    ON CONFLICT(inquiry_id, milestone_slug) DO NOTHING
   `);
 
   const writeAll = db.transaction((items: FetchedInquiry[]) => {
@@ -177,7 +205,6 @@ export async function fetchCommitteeInquiries(
 
       upsert.run(
         inquiryId,
-        milestoneSlug,
         committeeName,
         committeeId,
         item.title,
@@ -187,12 +214,15 @@ export async function fetchCommitteeInquiries(
         reportsPublished,
         lastActivity
       );
+      link.run(inquiryId, milestoneSlug);
     }
   });
 
   writeAll(allInquiries);
 
   console.log(
-    `[committees] Upserted ${allInquiries.length} inquiries for "${milestoneSlug}"`
+    `[committees] Upserted ${allInquiries.length} inquiries for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} committees failed)` : "")
   );
+  return { written: allInquiries.length, failed, sourceUrl: COMMITTEES_API_BASE };
 }
@@ -1,7 +1,10 @@
-import { getDb } from "../db";
+import type { KpiDataPoint } from "../kpi-store";
+import type { KpiAdapter, KpiFetchOutcome } from "../kpi-registry";
+import { describeHttpError, fetchJson, fetchText } from "../http";
+import { academicYearPeriod, periodLabel } from "../periods";
 
 // ---------------------------------------------------------------------------
-// DfE Early Years Foundation Stage Profile (EYFSP) KPI fetcher
+// DfE Early Years Foundation Stage Profile (EYFSP) KPI adapter
 //
 // Fetches the percentage of children achieving a "Good Level of Development"
 // (GLD) from the DfE Explore Education Statistics API.
@@ -44,11 +47,12 @@ interface GovukSearchResponse {
 // ---------------------------------------------------------------------------
 
 /**
- * Convert a school year label like "2023-24" or "2023/24" into an ISO date
- * representing September of the results year (the autumn of publication).
- * E.g. "2023-24" results are published in autumn 2024, so date = "2024-09-01".
+ * Convert a school year label like "2023-24" or "2023/24" into the school
+ * year's period, keyed by September of the results year (the autumn of
+ * publication). E.g. "2023-24" results are published in autumn 2024, so
+ * date = "2024-09-01".
  */
-function schoolYearToDate(yearLabel: string): string | null {
+function schoolYear(yearLabel: string): Pick<KpiDataPoint, "date" | "label" | "period"> | null {
   // Match patterns like "2023/24", "2023-24", "2023/2024", "2023-2024"
   const match = /(\d{4})[/-](\d{2,4})/.exec(yearLabel);
   if (!match) return null;
@@ -59,7 +63,8 @@ function schoolYearToDate(yearLabel: string): string | null {
     endPart.length === 2 ? startYear - (startYear % 100) + parseInt(endPart, 10) : parseInt(endPart, 10);
 
   // Results are published in September of the end year
-  return `${endYear}-09-01`;
+  const period = academicYearPeriod(endYear - 1);
+  return { date: `${endYear}-09-01`, label: periodLabel(period), period };
 }
 
 /**
@@ -93,22 +98,18 @@ function parseGldPercentage(value: string): number | null {
  * Scrape the EYFSP results page on the DfE Explore Education Statistics site.
  * The page contains the headline GLD percentage and the academic year in the title.
  */
-async function fetchViaDfePage(): Promise<
-  Array<{ value: number; date: string; label: string }>
-> {
+async function fetchViaDfePage(): Promise<KpiDataPoint[]> {
   try {
     console.log(`[education] Fetching DfE stats page: ${DFE_STATS_URL}`);
 
-    const res = await fetch(DFE_STATS_URL, {
-      signal: AbortSignal.timeout(20000),
-    });
+    const res = await fetchText(DFE_STATS_URL, { timeoutMs: 20000 });
 
     if (!res.ok) {
-      console.error(`[education] DfE page returned HTTP ${res.status}`);
+      console.error(`[education] DfE page failed: ${describeHttpError(res.error)}`);
       return [];
     }
 
-    const html = await res.text();
+    const html = res.data;
 
     // Extract the academic year from the page title/meta
     // Pattern: "Academic year 2024/25" or "Academic Year 2023/24"
@@ -137,21 +138,21 @@ async function fetchViaDfePage(): Promise<
       const value = parseGldPercentage(broader[1]);
       if (value === null) return [];
 
-      const date = schoolYearToDate(yearLabel);
-      if (!date) return [];
+      const year = schoolYear(yearLabel);
+      if (!year) return [];
 
       console.log(`[education] Found GLD via DfE page (broad match): ${value}% (${yearLabel})`);
-      return [{ value, date, label: yearLabel }];
+      return [{ value, ...year }];
     }
 
     const value = parseGldPercentage(gldMatch[1]);
     if (value === null) return [];
 
-    const date = schoolYearToDate(yearLabel);
-    if (!date) return [];
+    const year = schoolYear(yearLabel);
+    if (!year) return [];
 
     console.log(`[education] Found GLD via DfE page: ${value}% (${yearLabel})`);
-    return [{ value, date, label: yearLabel }];
+    return [{ value, ...year }];
   } catch (err) {
     console.error("[education] Error fetching DfE stats page:", err);
     return [];
@@ -166,9 +167,7 @@ async function fetchViaDfePage(): Promise<
  * Search GOV.UK for EYFSP publications and try to extract a GLD percentage
  * from the description/metadata.
  */
-async function fetchViaGovukSearch(): Promise<
-  Array<{ value: number; date: string; label: string }>
-> {
+async function fetchViaGovukSearch(): Promise<KpiDataPoint[]> {
   const searchQueries = [
     "early years foundation stage profile results",
     "EYFSP good level of development",
@@ -186,17 +185,14 @@ async function fetchViaGovukSearch(): Promise<
       const url = `${GOVUK_SEARCH_URL}?${params.toString()}`;
       console.log(`[education] Searching GOV.UK for: "${query}"`);
 
-      const res = await fetch(url, {
-        signal: AbortSignal.timeout(15000),
-      });
+      const res = await fetchJson<GovukSearchResponse>(url, { timeoutMs: 15000 });
 
       if (!res.ok) {
-        console.error(`[education] GOV.UK search returned HTTP ${res.status}`);
+        console.error(`[education] GOV.UK search failed: ${describeHttpError(res.error)}`);
         continue;
       }
 
-      const data: GovukSearchResponse = await res.json();
-      const results = data.results ?? [];
+      const results = res.data.results ?? [];
 
       // Look for results that mention EYFSP and contain a percentage
       for (const result of results) {
@@ -217,12 +213,18 @@ async function fetchViaGovukSearch(): Promise<
             const yearLabel = normaliseYearLabel(yearMatch[0]);
 
             if (yearLabel && !isNaN(value) && value >= 50 && value <= 85) {
-              const date = schoolYearToDate(yearLabel);
-              if (date) {
+              const year = schoolYear(yearLabel);
+              if (year) {
                 console.log(
                   `[education] Found GLD via GOV.UK search: ${value}% (${yearLabel})`
                 );
-                return [{ value, date, label: yearLabel }];
+                return [
+                  {
+                    value,
+                    ...year,
+                    provenance: { sourceUrl: `https://www.gov.uk${result.link}` },
+                  },
+                ];
               }
             }
           }
@@ -237,28 +239,28 @@ async function fetchViaGovukSearch(): Promise<
 }
 
 // ---------------------------------------------------------------------------
-// Main exported function
+// Adapter
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch EYFSP Good Level of Development (GLD) data and store as KPI snapshots.
+ * Fetch EYFSP Good Level of Development (GLD) data.
  *
  * Strategy:
  *   1. Try the DfE Explore Education Statistics API (preferred, structured data)
  *   2. Fall back to GOV.UK Search API (less structured)
- *
- * Stores results in kpi_snapshots with milestone_slug = 'education'.
  */
-export async function fetchEducationEyfs(): Promise<void> {
+async function fetchGldSeries(): Promise<KpiFetchOutcome> {
   console.log("[education] Starting EYFSP GLD data fetch...");
 
   // Approach 1: Scrape DfE Explore Education Statistics page
-  let dataPoints = await fetchViaDfePage();
+  let dataPoints: KpiDataPoint[] = await fetchViaDfePage();
+  let parser = "fetchViaDfePage";
 
   // Approach 2: GOV.UK Search API (fallback)
   if (dataPoints.length === 0) {
     console.log("[education] DfE page did not return data, trying GOV.UK search...");
     dataPoints = await fetchViaGovukSearch();
+    parser = "fetchViaGovukSearch";
   }
 
   if (dataPoints.length === 0) {
@@ -267,33 +269,12 @@ export async function fetchEducationEyfs(): Promise<void> {
         "This data is published annually in autumn. " +
         "Check https://explore-education-statistics.service.gov.uk/ for updates."
     );
-    return;
+    return { ok: false, error: "No EYFSP GLD data from any source" };
   }
 
-  // Sort by date ascending
-  dataPoints.sort((a, b) => a.date.localeCompare(b.date));
-
-  // Store in database
-  const db = getDb();
-  const upsert = db.prepare(`
-    INSERT OR REPLACE INTO kpi_snapshots
-      (milestone_slug, value, date, label)
-    VALUES ('education', ?, ?, ?)
-  `);
-
-  const insertAll = db.transaction(
-    (items: Array<{ value: number; date: string; label: string }>) => {
-      for (const item of items) {
-        upsert.run(item.value, item.date, item.label);
-      }
-    }
-  );
-
-  insertAll(dataPoints);
-
-  const latest = dataPoints[dataPoints.length - 1];
-  console.log(
-    `[education] Stored ${dataPoints.length} KPI snapshot(s). ` +
-      `Latest: ${latest.value}% GLD (${latest.label})`
-  );
+  return { ok: true, points: dataPoints, parser, sourceUrl: DFE_STATS_URL };
 }
+
+export const eyfspGldAdapter: KpiAdapter = {
+  fetch: fetchGldSeries,
+};
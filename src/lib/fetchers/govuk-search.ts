@@ -1,6 +1,8 @@
+import { mapConcurrent } from "../concurrency";
 import { getDb } from "../db";
+import { describeHttpError, fetchJson, type HttpResult } from "../http";
 import { getMilestoneMapping } from "../milestones";
-import type { MilestoneSlug, OutputType } from "../types";
+import type { FetchOptions, FetchResult, MilestoneSlug, OutputType } from "../types";
 
 // ---------------------------------------------------------------------------
 // GOV.UK Search API fetcher
@@ -10,6 +12,7 @@ import type { MilestoneSlug, OutputType } from "../types";
 const GOVUK_SEARCH_URL = "https://www.gov.uk/api/search.json";
 const FROM_DATE = "2024-07-01";
 const PAGE_SIZE = 50;
+const SEARCH_CONCURRENCY = 4;
 
 const FIELDS = [
   "title",
@@ -70,17 +73,16 @@ interface GovukSearchResponse {
   total: number;
 }
 
-async function searchGovuk(params: URLSearchParams): Promise<GovukResult[]> {
+async function searchGovuk(
+  params: URLSearchParams
+): Promise<HttpResult<GovukResult[]>> {
   const url = `${GOVUK_SEARCH_URL}?${params.toString()}`;
-  const res = await fetch(url);
+  const res = await fetchJson<GovukSearchResponse>(url);
   if (!res.ok) {
-    console.error(
-      `GOV.UK Search API error: ${res.status} ${res.statusText} for ${url}`
-    );
-    return [];
+    console.error(`[govuk-search] Search API error: ${describeHttpError(res.error)}`);
+    return res;
   }
-  const data = (await res.json()) as GovukSearchResponse;
-  return data.results ?? [];
+  return { ...res, data: res.data.results ?? [] };
 }
 
 /**
@@ -88,17 +90,18 @@ async function searchGovuk(params: URLSearchParams): Promise<GovukResult[]> {
  * and upsert them into the outputs table.
  */
 export async function fetchGovukOutputs(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
-  const seen = new Set<string>(); // deduplicate by link
-  const results: Array<{ result: GovukResult; confidence: "high" | "medium" }> =
-    [];
+  const fromDate = options.since ?? FROM_DATE;
+
+  const searches: Array<{ params: URLSearchParams; confidence: "high" | "medium" }> = [];
 
   // 1. Department-scoped searches (high confidence) --------------------------
   for (const dept of mapping.departments) {
@@ -108,26 +111,12 @@ export async function fetchGovukOutputs(
           q: term,
           filter_organisations: dept,
           filter_content_store_document_type: docType,
-          "filter_public_timestamp": `from:${FROM_DATE}`,
+          "filter_public_timestamp": `from:${fromDate}`,
           count: String(PAGE_SIZE),
           start: "0",
           fields: FIELDS,
         });
-
-        try {
-          const items = await searchGovuk(params);
-          for (const item of items) {
-            if (!seen.has(item.link)) {
-              seen.add(item.link);
-              results.push({ result: item, confidence: "high" });
-            }
-          }
-        } catch (err) {
-          console.error(
-            `GOV.UK fetch error (dept=${dept}, term=${term}):`,
-            err
-          );
-        }
+        searches.push({ params, confidence: "high" });
       }
     }
   }
@@ -138,34 +127,65 @@ export async function fetchGovukOutputs(
       const params = new URLSearchParams({
         q: term,
         filter_content_store_document_type: docType,
-        "filter_public_timestamp": `from:${FROM_DATE}`,
+        "filter_public_timestamp": `from:${fromDate}`,
         count: String(PAGE_SIZE),
         start: "0",
         fields: FIELDS,
       });
+      searches.push({ params, confidence: "medium" });
+    }
+  }
+
+  // Run the searches concurrently; results come back in the order above, so
+  // a link found by both keeps its department-scoped (high) confidence
+  const responses = await mapConcurrent(searches, SEARCH_CONCURRENCY, ({ params }) =>
+    searchGovuk(params)
+  );
 
-      try {
-        const items = await searchGovuk(params);
-        for (const item of items) {
-          if (!seen.has(item.link)) {
-            seen.add(item.link);
-            results.push({ result: item, confidence: "medium" });
-          }
-        }
-      } catch (err) {
-        console.error(`GOV.UK fetch error (keyword term=${term}):`, err);
+  const seen = new Set<string>(); // deduplicate by link
+  const results: Array<{ result: GovukResult; confidence: "high" | "medium" }> =
+    [];
+  let failed = 0; // searches that errored, as opposed to returning nothing
+
+  responses.forEach((res, i) => {
+    if (!res.ok) {
+      failed++;
+      return;
+    }
+    for (const item of res.data) {
+      if (!seen.has(item.link)) {
+        seen.add(item.link);
+        results.push({ result: item, confidence: searches[i].confidence });
       }
     }
-  }
+  });
 
   // 3. Upsert into DB --------------------------------------------------------
   const db = getDb();
+  // Only update the fields GOV.UK owns — rationale and curation survive
   const upsert = db.prepare(`
-    INSERT OR REPLACE INTO outputs
-      (id, milestone_slug, type, title, description, url, source, status,
-       published_date, last_updated, department, confidence, dismissed)
+    INSERT INTO outputs
+      (id, type, title, description, url, source, status,
+       published_date, last_updated, department)
     VALUES
-      (?, ?, ?, ?, ?, ?, 'govuk', '', ?, ?, ?, ?, 0)
+      (?, ?, ?, ?, ?, 'govuk', '', ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      type = excluded.type,
+      title = excluded.title,
+      description = excluded.description,
+      url = excluded.url,
+      published_date = excluded.published_date,
+      last_updated = excluded.last_updated,
+      department = excluded.department,
+      fetched_at = datetime('now')
+  `);
+
+  // An output found for several milestones gets one link per milestone
+  const link = db.prepare(`
+    INSERT INTO output_milestones (output_id, milestone_slug, confidence)
+    VALUES (?, ?, ?)
+    ON CONFLICT(output_id, milestone_slug) DO UPDATE SET
+      confidence = excluded.confidence
   `);
 
   const upsertMany = db.transaction(
@@ -184,16 +204,15 @@ export async function fetchGovukOutputs(
 
         upsert.run(
           id,
-          milestoneSlug,
           outputType,
           result.title,
           result.description ?? "",
           url,
           publishedDate,
           publishedDate, // last_updated = published_date initially
-          department,
-          confidence
+          department
         );
+        link.run(id, milestoneSlug, confidence);
       }
     }
   );
@@ -201,6 +220,8 @@ export async function fetchGovukOutputs(
   upsertMany(results);
 
   console.log(
-    `[govuk-search] Upserted ${results.length} outputs for "${milestoneSlug}"`
+    `[govuk-search] Upserted ${results.length} outputs for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
   );
+  return { written: results.length, failed, sourceUrl: GOVUK_SEARCH_URL };
 }
@@ -1,6 +1,7 @@
 import { getDb } from "../db";
+import { describeHttpError, fetchJson } from "../http";
 import { getMilestoneMapping } from "../milestones";
-import type { MilestoneSlug } from "../types";
+import type { Confidence, FetchOptions, FetchResult, MilestoneSlug } from "../types";
 
 // ---------------------------------------------------------------------------
 // Guardian Open Platform API fetcher
@@ -47,22 +48,24 @@ function idFromGuardianPath(guardianId: string): string {
 }
 
 /**
- * Build Guardian API request params and fetch results.
+ * Build Guardian API request params and fetch results. Returns null if the
+ * request failed.
  */
 async function searchGuardian(params: {
   q?: string;
   tag?: string;
-}): Promise<GuardianResult[]> {
+  fromDate?: string;
+}): Promise<GuardianResult[] | null> {
   const apiKey = process.env.GUARDIAN_API_KEY;
   if (!apiKey) {
     console.error(
       "[guardian] GUARDIAN_API_KEY environment variable is not set"
     );
-    return [];
+    return null;
   }
 
   const searchParams = new URLSearchParams({
-    "from-date": FROM_DATE,
+    "from-date": params.fromDate ?? FROM_DATE,
     "order-by": "newest",
     "show-fields": "trailText,thumbnail,byline",
     "page-size": String(PAGE_SIZE),
@@ -73,36 +76,46 @@ async function searchGuardian(params: {
   if (params.tag) searchParams.set("tag", params.tag);
 
   const url = `${GUARDIAN_API_URL}?${searchParams.toString()}`;
-  const res = await fetch(url);
+  const res = await fetchJson<GuardianSearchResponse>(url);
   if (!res.ok) {
-    console.error(
-      `Guardian API error: ${res.status} ${res.statusText} for ${url}`
-    );
-    return [];
+    console.error(`Guardian API error: ${describeHttpError(res.error)}`);
+    return null;
   }
 
-  const data = (await res.json()) as GuardianSearchResponse;
-  return data.response?.results ?? [];
+  return res.data.response?.results ?? [];
 }
 
 /**
- * Upsert an array of Guardian results into the media_articles table.
+ * Upsert an array of Guardian results into the media_articles table and link
+ * each article to the given milestones. Returns the number of new articles.
  */
 function upsertArticles(
-  milestoneSlug: MilestoneSlug,
+  milestoneSlugs: MilestoneSlug[],
   articles: GuardianResult[],
+  confidence: Confidence,
   outputId?: string
 ): number {
   const db = getDb();
 
   const insert = db.prepare(`
     INSERT OR IGNORE INTO media_articles
-      (id, milestone_slug, output_id, title, url, source, published_date,
+      (id, output_id, title, url, source, published_date,
        excerpt, thumbnail_url, api_source)
     VALUES
-      (?, ?, ?, ?, ?, 'The Guardian', ?, ?, ?, 'guardian')
+      (?, ?, ?, ?, 'The Guardian', ?, ?, ?, 'guardian')
+  `);
+
+  const link = db.prepare(`
+    INSERT INTO media_article_milestones (article_id, milestone_slug, confidence)
+    VALUES (?, ?, ?)
+    ON CONFLICT(article_id, milestone_slug) DO NOTHING
   `);
 
+  // INSERT OR IGNORE can skip an article already stored under the same URL
+  const findStored = db.prepare(
+    "SELECT id FROM media_articles WHERE id = ? OR url = ?"
+  );
+
   let inserted = 0;
 
   const insertMany = db.transaction((items: GuardianResult[]) => {
@@ -114,7 +127,6 @@ function upsertArticles(
 
       const result = insert.run(
         id,
-        milestoneSlug,
         outputId ?? null,
         article.webTitle,
         article.webUrl,
@@ -124,6 +136,14 @@ function upsertArticles(
       );
 
       if (result.changes > 0) inserted++;
+
+      const stored = findStored.get(id, article.webUrl) as
+        | { id: string }
+        | undefined;
+      if (!stored) continue;
+      for (const slug of milestoneSlugs) {
+        link.run(stored.id, slug, confidence);
+      }
     }
   });
 
@@ -135,72 +155,94 @@ function upsertArticles(
  * Fetch Guardian articles for general milestone coverage.
  */
 export async function fetchGuardianForMilestone(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
-  const allResults: GuardianResult[] = [];
+  // Tag matches are curated by the Guardian, so link them with high confidence
+  const tagResults: GuardianResult[] = [];
+  const keywordResults: GuardianResult[] = [];
   const seen = new Set<string>();
+  let failed = 0;
 
   // Search by tags
   if (mapping.guardianTags.length > 0) {
     const tagQuery = mapping.guardianTags.join("|");
     try {
-      const results = await searchGuardian({ tag: tagQuery });
-      for (const r of results) {
-        if (!seen.has(r.id)) {
-          seen.add(r.id);
-          allResults.push(r);
+      const results = await searchGuardian({ tag: tagQuery, fromDate: options.since });
+      if (!results) {
+        failed++;
+      } else {
+        for (const r of results) {
+          if (!seen.has(r.id)) {
+            seen.add(r.id);
+            tagResults.push(r);
+          }
         }
       }
     } catch (err) {
       console.error(`Guardian tag search error:`, err);
+      failed++;
     }
   }
 
   // Search by keywords
   for (const term of mapping.guardianSearchTerms) {
     try {
-      const results = await searchGuardian({ q: term });
+      const results = await searchGuardian({ q: term, fromDate: options.since });
+      if (!results) {
+        failed++;
+        continue;
+      }
       for (const r of results) {
         if (!seen.has(r.id)) {
           seen.add(r.id);
-          allResults.push(r);
+          keywordResults.push(r);
         }
       }
     } catch (err) {
       console.error(`Guardian keyword search error (term="${term}"):`, err);
+      failed++;
     }
   }
 
-  const inserted = upsertArticles(milestoneSlug, allResults);
+  const inserted =
+    upsertArticles([milestoneSlug], tagResults, "high") +
+    upsertArticles([milestoneSlug], keywordResults, "medium");
   console.log(
-    `[guardian] Inserted ${inserted} new articles (${allResults.length} fetched) for "${milestoneSlug}"`
+    `[guardian] Inserted ${inserted} new articles (${seen.size} fetched) for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
   );
+  return { written: inserted, failed, sourceUrl: GUARDIAN_API_URL };
 }
 
 /**
- * Fetch Guardian articles about a specific output (e.g. a bill or policy paper).
+ * Fetch Guardian articles about a specific output (e.g. a bill or policy paper)
+ * and link them to every milestone the output belongs to.
  */
 export async function fetchGuardianForOutput(
-  milestoneSlug: MilestoneSlug,
+  milestoneSlugs: MilestoneSlug[],
   outputId: string,
   outputTitle: string
-): Promise<void> {
+): Promise<FetchResult> {
   try {
     const results = await searchGuardian({ q: outputTitle });
-    const inserted = upsertArticles(milestoneSlug, results, outputId);
+    if (!results) return { written: 0, failed: 1 };
+    const inserted = upsertArticles(milestoneSlugs, results, "medium", outputId);
     console.log(
       `[guardian] Inserted ${inserted} new articles for output "${outputId}" (${results.length} fetched)`
     );
+    return { written: inserted, failed: 0 };
   } catch (err) {
     console.error(
       `Guardian output search error (outputId="${outputId}"):`,
       err
     );
+    return { written: 0, failed: 1 };
   }
 }
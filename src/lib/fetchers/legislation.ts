@@ -0,0 +1,551 @@
+import { XMLParser } from "fast-xml-parser";
+import { mapConcurrent } from "../concurrency";
+import { getDb } from "../db";
+import { describeHttpError, fetchText } from "../http";
+import { getMilestoneMapping } from "../milestones";
+import type { FetchOptions, FetchResult, MilestoneSlug } from "../types";
+
+// ---------------------------------------------------------------------------
+// legislation.gov.uk fetcher
+// Docs: https://legislation.github.io/data-documentation/
+//
+// Searches the Atom feeds for Acts and UK statutory instruments whose titles
+// match a milestone's legislationSearchTerms. SI dates (made, laid, coming
+// into force) come from each item's XML metadata. The parsers take raw XML so
+// they can be run against saved feed fixtures; LEGISLATION_BASE_URL points
+// the fetcher at a local copy of the site.
+//
+// For enacted Acts (from either source) it also records commencement: which
+// provisions are in force, from when, and by which commencement regulations,
+// using the "changes to legislation" effects feed.
+// ---------------------------------------------------------------------------
+
+const LEGISLATION_BASE_URL =
+  process.env.LEGISLATION_BASE_URL ?? "https://www.legislation.gov.uk";
+const FROM_DATE = "2024-07-01";
+const MAX_PAGES = 3; // feeds are newest first; older pages predate FROM_DATE
+const REQUEST_CONCURRENCY = 4;
+
+const LEGISLATION_TYPES: Array<{ type: string; kind: "act" | "si" }> = [
+  { type: "ukpga", kind: "act" },
+  { type: "uksi", kind: "si" },
+];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  isArray: (name) => ["entry", "link", "DateTime", "Effect", "InForce"].includes(name),
+});
+
+export interface LegislationFeedEntry {
+  type: string; // legislation.gov.uk type code, e.g. "uksi", "ukpga"
+  year: number;
+  number: number;
+  title: string;
+  summary: string;
+  url: string;
+  createdDate: string | null; // made date for SIs, Royal Assent for Acts
+  updated: string;
+}
+
+export interface LegislationFeedPage {
+  entries: LegislationFeedEntry[];
+  nextUrl: string | null;
+}
+
+export interface LegislationDates {
+  madeDate: string | null;
+  laidDate: string | null;
+  inForceDate: string | null; // earliest coming-into-force date
+}
+
+export interface CommencementEffect {
+  provisions: string; // e.g. "s. 1-5", "Sch. 2"
+  inForceDate: string | null; // null while prospective
+  commencedBy: string; // legislation path of the affecting item, e.g. "uksi/2025/500"
+  commencedByTitle: string;
+}
+
+type XmlNode = Record<string, unknown>;
+
+function attr(node: unknown, name: string): string | null {
+  if (!node || typeof node !== "object") return null;
+  const value = (node as XmlNode)[`@_${name}`];
+  return value === undefined ? null : String(value);
+}
+
+function text(node: unknown): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "object") return String((node as XmlNode)["#text"] ?? "");
+  return String(node);
+}
+
+/**
+ * Pull type/year/number out of an id or URI like
+ * http://www.legislation.gov.uk/id/uksi/2025/123 or .../uksi/2025/123
+ */
+function parseLegislationId(id: string): { type: string; year: number; number: number } | null {
+  const match = id.match(/(?:\/id)?\/([a-z]+)\/(\d{4})\/(\d+)/);
+  if (!match) return null;
+  return { type: match[1], year: parseInt(match[2]), number: parseInt(match[3]) };
+}
+
+/** Deterministic output ID, e.g. "legislation-uksi-2025-123". */
+function idFromEntry(entry: LegislationFeedEntry): string {
+  return `legislation-${entry.type}-${entry.year}-${entry.number}`;
+}
+
+/** Parse one page of a legislation.gov.uk Atom search feed. */
+export function parseLegislationFeed(xml: string): LegislationFeedPage {
+  const feed = (parser.parse(xml) as XmlNode).feed as XmlNode | undefined;
+  if (!feed) return { entries: [], nextUrl: null };
+
+  const entries: LegislationFeedEntry[] = [];
+  for (const entry of (feed.entry as XmlNode[] | undefined) ?? []) {
+    const id = parseLegislationId(text(entry.id));
+    if (!id) continue;
+
+    entries.push({
+      ...id,
+      title: text(entry.title).trim(),
+      summary: text(entry.summary).trim(),
+      url: `https://www.legislation.gov.uk/${id.type}/${id.year}/${id.number}`,
+      createdDate: attr(entry.CreationDate, "Date"),
+      updated: text(entry.updated).slice(0, 10),
+    });
+  }
+
+  const links = (feed.link as XmlNode[] | undefined) ?? [];
+  const next = links.find((l) => attr(l, "rel") === "next");
+
+  return { entries, nextUrl: attr(next, "href") };
+}
+
+/** Parse made, laid and coming-into-force dates from an item's data.xml. */
+export function parseLegislationDates(xml: string): LegislationDates {
+  const doc = parser.parse(xml) as XmlNode;
+  const metadata = (doc.Legislation as XmlNode | undefined)?.Metadata as XmlNode | undefined;
+  const secondary = metadata?.SecondaryMetadata as XmlNode | undefined;
+  if (!secondary) return { madeDate: null, laidDate: null, inForceDate: null };
+
+  // Commencement can be staged; the dashboard cares about the first date
+  const inForce = secondary.ComingIntoForce as XmlNode | undefined;
+  const inForceDates = ((inForce?.DateTime as XmlNode[] | undefined) ?? [])
+    .map((d) => attr(d, "Date"))
+    .filter((d): d is string => !!d)
+    .sort();
+
+  return {
+    madeDate: attr(secondary.Made, "Date"),
+    laidDate: attr(secondary.Laid, "Date"),
+    inForceDate: inForceDates[0] ?? null,
+  };
+}
+
+/** Parse "coming into force" effects from a changes-to-legislation feed page. */
+export function parseCommencementEffects(xml: string): {
+  effects: CommencementEffect[];
+  nextUrl: string | null;
+} {
+  const feed = (parser.parse(xml) as XmlNode).feed as XmlNode | undefined;
+  if (!feed) return { effects: [], nextUrl: null };
+
+  const effects: CommencementEffect[] = [];
+  for (const entry of (feed.entry as XmlNode[] | undefined) ?? []) {
+    for (const effect of (entry.Effect as XmlNode[] | undefined) ?? []) {
+      const type = attr(effect, "Type") ?? "";
+      if (!/coming into force|commencement/i.test(type)) continue;
+
+      const affecting = parseLegislationId(attr(effect, "AffectingURI") ?? "");
+      const inForce = (effect.InForceDates as XmlNode | undefined)?.InForce as XmlNode[] | undefined;
+      const dates = (inForce ?? [])
+        .map((d) => attr(d, "Date"))
+        .filter((d): d is string => !!d)
+        .sort();
+
+      effects.push({
+        provisions: attr(effect, "AffectedProvisions") ?? text(effect.AffectedProvisions),
+        inForceDate: dates[0] ?? null,
+        commencedBy: affecting ? `${affecting.type}/${affecting.year}/${affecting.number}` : "",
+        commencedByTitle: text(effect.AffectingTitle).trim(),
+      });
+    }
+  }
+
+  const links = (feed.link as XmlNode[] | undefined) ?? [];
+  const next = links.find((l) => attr(l, "rel") === "next");
+
+  return { effects, nextUrl: attr(next, "href") };
+}
+
+async function fetchXml(url: string): Promise<string | null> {
+  const res = await fetchText(url, { headers: { Accept: "application/xml" } });
+  if (!res.ok) {
+    console.error(`legislation.gov.uk error: ${describeHttpError(res.error)}`);
+    return null;
+  }
+  return res.data;
+}
+
+/**
+ * Search one legislation type by title, following pagination back to
+ * fromDate. Returns null when the first page could not be fetched.
+ */
+async function searchLegislation(
+  type: string,
+  term: string,
+  fromDate: string = FROM_DATE
+): Promise<LegislationFeedEntry[] | null> {
+  const params = new URLSearchParams({
+    title: term,
+    "start-year": fromDate.slice(0, 4),
+  });
+  let url: string | null = `${LEGISLATION_BASE_URL}/${type}/data.feed?${params.toString()}`;
+  const results: LegislationFeedEntry[] = [];
+
+  for (let page = 0; url && page < MAX_PAGES; page++) {
+    const xml = await fetchXml(url);
+    if (!xml) {
+      if (page === 0) return null;
+      break;
+    }
+    const { entries, nextUrl } = parseLegislationFeed(xml);
+    results.push(...entries.filter((e) => (e.createdDate ?? e.updated) >= fromDate));
+    url = nextUrl;
+  }
+
+  return results;
+}
+
+/**
+ * Fetch Acts and statutory instruments from legislation.gov.uk for a given
+ * milestone and upsert them into the outputs table.
+ */
+export async function fetchLegislation(
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
+  const mapping = getMilestoneMapping(milestoneSlug);
+  if (!mapping) {
+    console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
+    return { written: 0, failed: 0 };
+  }
+
+  const db = getDb();
+  const seen = new Set<string>();
+  const found: Array<{ entry: LegislationFeedEntry; kind: "act" | "si" }> = [];
+
+  // Dates are fixed once an SI is made, so only refetch metadata until we
+  // have a coming-into-force date
+  const knownDates = db.prepare(
+    `SELECT made_date as madeDate, laid_date as laidDate, in_force_date as inForceDate
+     FROM legislation_details WHERE output_id = ? AND in_force_date IS NOT NULL`
+  );
+
+  let failed = 0; // searches that errored, as opposed to returning nothing
+
+  // 1. Title searches per legislation type ------------------------------------
+  const searches = LEGISLATION_TYPES.flatMap(({ type, kind }) =>
+    mapping.legislationSearchTerms.map((term) => ({ type, kind, term }))
+  );
+  const searchResults = await mapConcurrent(searches, REQUEST_CONCURRENCY, async ({ type, term }) => {
+    try {
+      return await searchLegislation(type, term, options.since);
+    } catch (err) {
+      console.error(`legislation.gov.uk fetch error (type=${type}, term=${term}):`, err);
+      return null;
+    }
+  });
+
+  searches.forEach(({ kind }, i) => {
+    const entries = searchResults[i];
+    if (!entries) {
+      failed++;
+      return;
+    }
+    for (const entry of entries) {
+      const id = idFromEntry(entry);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      found.push({ entry, kind });
+    }
+  });
+
+  // 2. SI metadata for in-force dates ---------------------------------------
+  const results = await mapConcurrent(found, REQUEST_CONCURRENCY, async ({ entry, kind }) => {
+    let dates = knownDates.get(idFromEntry(entry)) as LegislationDates | undefined;
+    if (!dates && kind === "si") {
+      const xml = await fetchXml(`${LEGISLATION_BASE_URL}/${entry.type}/${entry.year}/${entry.number}/made/data.xml`);
+      dates = xml ? parseLegislationDates(xml) : undefined;
+    }
+    // The feed's creation date is Royal Assent for Acts and the made date
+    // for SIs whose metadata could not be fetched
+    dates ??= { madeDate: entry.createdDate, laidDate: null, inForceDate: null };
+    return { entry, kind, dates };
+  });
+
+  // 3. Upsert into DB --------------------------------------------------------
+  // Only update the fields legislation.gov.uk owns — rationale and curation survive
+  const upsert = db.prepare(`
+    INSERT INTO outputs
+      (id, type, title, description, url, source, status,
+       published_date, last_updated, department)
+    VALUES
+      (?, 'statutory_instrument', ?, ?, ?, 'legislation', ?, ?, ?, '')
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      description = excluded.description,
+      url = excluded.url,
+      status = excluded.status,
+      published_date = excluded.published_date,
+      last_updated = excluded.last_updated,
+      fetched_at = datetime('now')
+  `);
+
+  const upsertDetails = db.prepare(`
+    INSERT INTO legislation_details
+      (output_id, legislation_type, year, number, made_date, laid_date, in_force_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(output_id) DO UPDATE SET
+      made_date = excluded.made_date,
+      laid_date = excluded.laid_date,
+      in_force_date = excluded.in_force_date,
+      fetched_at = datetime('now')
+  `);
+
+  // Title matches on broad terms are weaker evidence than department searches
+  const link = db.prepare(`
+    INSERT INTO output_milestones (output_id, milestone_slug, confidence)
+    VALUES (?, ?, 'medium')
+    ON CONFLICT(output_id, milestone_slug) DO NOTHING
+  `);
+
+  const upsertMany = db.transaction((items: typeof results) => {
+    for (const { entry, kind, dates } of items) {
+      const id = idFromEntry(entry);
+      const publishedDate = dates.madeDate ?? entry.createdDate ?? entry.updated;
+
+      upsert.run(
+        id,
+        entry.title,
+        entry.summary,
+        entry.url,
+        kind === "act" ? "Royal Assent" : "Made",
+        publishedDate,
+        entry.updated || publishedDate
+      );
+      upsertDetails.run(
+        id,
+        entry.type,
+        entry.year,
+        entry.number,
+        dates.madeDate,
+        dates.laidDate,
+        dates.inForceDate
+      );
+      link.run(id, milestoneSlug);
+    }
+  });
+
+  upsertMany(results);
+
+  console.log(
+    `[legislation] Upserted ${results.length} Acts and SIs for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
+  );
+  return { written: results.length, failed, sourceUrl: LEGISLATION_BASE_URL };
+}
+
+// ---------------------------------------------------------------------------
+// Commencement of enacted Acts
+// ---------------------------------------------------------------------------
+
+const MAX_EFFECT_PAGES = 10;
+
+/** "Renters’ Rights Bill [HL]" → "renters' rights" */
+function normaliseBillTitle(title: string): string {
+  return title
+    .replace(/[‘’]/g, "'")
+    .replace(/\s*\[HL\]\s*$/i, "")
+    .replace(/\s+Bill$/i, "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Find the Act a bill became, by searching Acts for "<bill title> Act".
+ * Returns undefined when the search failed, null when there is no Act yet.
+ */
+async function findActForBill(title: string): Promise<LegislationFeedEntry | null | undefined> {
+  const base = normaliseBillTitle(title);
+  const entries = await searchLegislation("ukpga", `${base} act`);
+  if (!entries) return undefined;
+  return (
+    entries.find((e) =>
+      e.title.replace(/[‘’]/g, "'").toLowerCase().startsWith(`${base} act`)
+    ) ?? null
+  );
+}
+
+/**
+ * All commencement effects on an Act. Returns null if any page failed, so a
+ * partial list never replaces what is stored.
+ */
+async function fetchCommencementEffects(
+  type: string,
+  year: number,
+  number: number
+): Promise<CommencementEffect[] | null> {
+  let url: string | null = `${LEGISLATION_BASE_URL}/changes/affected/${type}/${year}/${number}/data.feed`;
+  const effects: CommencementEffect[] = [];
+
+  for (let page = 0; url && page < MAX_EFFECT_PAGES; page++) {
+    const xml = await fetchXml(url);
+    if (!xml) return null;
+    const parsed = parseCommencementEffects(xml);
+    effects.push(...parsed.effects);
+    url = parsed.nextUrl;
+  }
+
+  return effects;
+}
+
+/**
+ * Record which provisions of each enacted Act are in force, and the
+ * commencement regulations that brought them into force. Bills that have
+ * received Royal Assent are first matched to their Act on legislation.gov.uk.
+ * Run after fetchBills and fetchLegislation.
+ */
+export async function fetchCommencements(): Promise<FetchResult> {
+  const db = getDb();
+  let failed = 0;
+
+  // 1. Match enacted bills to Acts ---------------------------------------------
+  const unmatchedBills = db
+    .prepare(
+      `SELECT o.id, o.title FROM outputs o
+       LEFT JOIN legislation_details ld ON ld.output_id = o.id
+       WHERE o.type = 'bill' AND o.status LIKE '%Royal Assent%' AND ld.output_id IS NULL`
+    )
+    .all() as { id: string; title: string }[];
+
+  const insertAct = db.prepare(`
+    INSERT INTO legislation_details
+      (output_id, legislation_type, year, number, made_date)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(output_id) DO NOTHING
+  `);
+
+  for (const bill of unmatchedBills) {
+    try {
+      const act = await findActForBill(bill.title);
+      if (act === undefined) {
+        failed++;
+        continue;
+      }
+      if (!act) {
+        console.log(`[legislation] No Act found yet for "${bill.title}"`);
+        continue;
+      }
+      insertAct.run(bill.id, act.type, act.year, act.number, act.createdDate);
+    } catch (err) {
+      console.error(`legislation.gov.uk Act lookup failed for "${bill.title}":`, err);
+      failed++;
+    }
+  }
+
+  // 2. Fetch commencement effects for every known Act ----------------------------
+  const acts = db
+    .prepare(
+      `SELECT DISTINCT legislation_type as type, year, number FROM legislation_details
+       WHERE legislation_type = 'ukpga'`
+    )
+    .all() as { type: string; year: number; number: number }[];
+
+  const fetchedEffects = await mapConcurrent(acts, REQUEST_CONCURRENCY, async (act) => {
+    try {
+      return await fetchCommencementEffects(act.type, act.year, act.number);
+    } catch (err) {
+      console.error(
+        `legislation.gov.uk effects fetch failed for ${act.type}/${act.year}/${act.number}:`,
+        err
+      );
+      return null;
+    }
+  });
+
+  const actEffects: Array<{ act: (typeof acts)[number]; effects: CommencementEffect[] }> = [];
+  acts.forEach((act, i) => {
+    const effects = fetchedEffects[i];
+    if (effects) actEffects.push({ act, effects });
+    else failed++;
+  });
+
+  // 3. Replace commencement rows per Act ---------------------------------------
+  const deleteCommencements = db.prepare(
+    "DELETE FROM act_commencements WHERE act_type = ? AND act_year = ? AND act_number = ?"
+  );
+  const deleteRegulations = db.prepare(
+    "DELETE FROM commencement_regulations WHERE act_type = ? AND act_year = ? AND act_number = ?"
+  );
+  // Effects are sorted so provisions and regulations keep their earliest
+  // in-force date
+  const insertCommencement = db.prepare(`
+    INSERT OR IGNORE INTO act_commencements
+      (act_type, act_year, act_number, provisions, in_force_date, commenced_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertRegulation = db.prepare(`
+    INSERT OR IGNORE INTO commencement_regulations
+      (act_type, act_year, act_number, regulation, title, first_in_force_date)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  // Acts whose effects could not be fetched keep their previous time, or none
+  const markFetched = db.prepare(`
+    UPDATE legislation_details SET effects_fetched_at = datetime('now')
+    WHERE legislation_type = ? AND year = ? AND number = ?
+  `);
+
+  const writeAll = db.transaction((items: typeof actEffects) => {
+    for (const { act, effects } of items) {
+      const actPath = `${act.type}/${act.year}/${act.number}`;
+      deleteCommencements.run(act.type, act.year, act.number);
+      deleteRegulations.run(act.type, act.year, act.number);
+      markFetched.run(act.type, act.year, act.number);
+
+      const sorted = [...effects].sort((a, b) =>
+        (a.inForceDate ?? "9999").localeCompare(b.inForceDate ?? "9999")
+      );
+      for (const effect of sorted) {
+        insertCommencement.run(
+          act.type,
+          act.year,
+          act.number,
+          effect.provisions,
+          effect.inForceDate,
+          effect.commencedBy
+        );
+        // Provisions commenced by the Act itself (e.g. on Royal Assent) have no regulation
+        if (effect.commencedBy && effect.commencedBy !== actPath) {
+          insertRegulation.run(
+            act.type,
+            act.year,
+            act.number,
+            effect.commencedBy,
+            effect.commencedByTitle,
+            effect.inForceDate
+          );
+        }
+      }
+    }
+  });
+
+  writeAll(actEffects);
+
+  console.log(
+    `[legislation] Recorded commencement for ${actEffects.length} Acts (${unmatchedBills.length} bills looked up)` +
+      (failed > 0 ? ` (${failed} lookups failed)` : "")
+  );
+  return { written: actEffects.length, failed, sourceUrl: LEGISLATION_BASE_URL };
+}
@@ -0,0 +1,222 @@
+import { createHash } from "crypto";
+import { getDb } from "../db";
+import { describeHttpError, fetchJson } from "../http";
+import { getMilestoneMapping } from "../milestones";
+import type { Confidence, FetchOptions, FetchResult, MilestoneSlug } from "../types";
+
+// ---------------------------------------------------------------------------
+// NewsAPI fetcher
+// Docs: https://newsapi.org/docs/endpoints/everything
+//
+// NEWSAPI_BASE_URL can point at any service exposing a NewsAPI-compatible
+// /v2/everything endpoint, e.g. a local mock.
+// ---------------------------------------------------------------------------
+
+const NEWSAPI_BASE_URL = process.env.NEWSAPI_BASE_URL ?? "https://newsapi.org";
+const FROM_DATE = "2024-07-01";
+const PAGE_SIZE = 20;
+
+interface NewsApiArticle {
+  source: { id: string | null; name: string };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string;
+  content: string | null;
+}
+
+interface NewsApiResponse {
+  status: "ok" | "error";
+  totalResults?: number;
+  articles?: NewsApiArticle[];
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Generate a deterministic article ID from the article URL.
+ */
+function idFromUrl(url: string): string {
+  return "newsapi-" + createHash("sha1").update(url).digest("hex").slice(0, 16);
+}
+
+/**
+ * Query the /v2/everything endpoint for a search phrase. Returns null if the
+ * request failed.
+ */
+async function searchNewsApi(
+  q: string,
+  fromDate: string = FROM_DATE
+): Promise<NewsApiArticle[] | null> {
+  const apiKey = process.env.NEWSAPI_KEY;
+  if (!apiKey) {
+    console.error("[newsapi] NEWSAPI_KEY environment variable is not set");
+    return null;
+  }
+
+  const searchParams = new URLSearchParams({
+    q,
+    from: fromDate,
+    language: "en",
+    sortBy: "publishedAt",
+    pageSize: String(PAGE_SIZE),
+  });
+
+  const url = `${NEWSAPI_BASE_URL}/v2/everything?${searchParams.toString()}`;
+  // Send the key as a header so it never appears in logged URLs
+  const res = await fetchJson<NewsApiResponse>(url, { headers: { "X-Api-Key": apiKey } });
+  if (!res.ok) {
+    console.error(`NewsAPI error: ${describeHttpError(res.error)}`);
+    return null;
+  }
+  if (res.data.status !== "ok") {
+    console.error(
+      `NewsAPI error: ${res.data.code ?? "unknown"}${
+        res.data.message ? ` (${res.data.message})` : ""
+      } for ${url}`
+    );
+    return null;
+  }
+
+  // NewsAPI marks articles taken down since indexing as "[Removed]"
+  return (res.data.articles ?? []).filter(
+    (a) => a.url && a.title && a.title !== "[Removed]"
+  );
+}
+
+/**
+ * Upsert NewsAPI articles into the media_articles table and link each article
+ * to the given milestones. Returns the number of new articles.
+ */
+function upsertArticles(
+  milestoneSlugs: MilestoneSlug[],
+  articles: NewsApiArticle[],
+  confidence: Confidence,
+  outputId?: string
+): number {
+  const db = getDb();
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO media_articles
+      (id, output_id, title, url, source, published_date,
+       excerpt, thumbnail_url, api_source)
+    VALUES
+      (?, ?, ?, ?, ?, ?, ?, ?, 'newsapi')
+  `);
+
+  const link = db.prepare(`
+    INSERT INTO media_article_milestones (article_id, milestone_slug, confidence)
+    VALUES (?, ?, ?)
+    ON CONFLICT(article_id, milestone_slug) DO NOTHING
+  `);
+
+  // INSERT OR IGNORE skips an article already stored under the same URL,
+  // e.g. one the Guardian or an RSS feed found first
+  const findStored = db.prepare("SELECT id FROM media_articles WHERE url = ?");
+
+  let inserted = 0;
+
+  const insertMany = db.transaction((items: NewsApiArticle[]) => {
+    for (const article of items) {
+      const publishedDate = article.publishedAt
+        ? article.publishedAt.slice(0, 10)
+        : "";
+
+      const result = insert.run(
+        idFromUrl(article.url),
+        outputId ?? null,
+        article.title,
+        article.url,
+        article.source?.name || "Unknown",
+        publishedDate,
+        article.description ?? null,
+        article.urlToImage ?? null
+      );
+
+      if (result.changes > 0) inserted++;
+
+      const stored = findStored.get(article.url) as { id: string } | undefined;
+      if (!stored) continue;
+      for (const slug of milestoneSlugs) {
+        link.run(stored.id, slug, confidence);
+      }
+    }
+  });
+
+  insertMany(articles);
+  return inserted;
+}
+
+/**
+ * Fetch NewsAPI articles for general milestone coverage, using the same
+ * keywords as the Guardian search.
+ */
+export async function fetchNewsApiForMilestone(
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
+  const mapping = getMilestoneMapping(milestoneSlug);
+  if (!mapping) {
+    console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
+    return { written: 0, failed: 0 };
+  }
+
+  const results: NewsApiArticle[] = [];
+  const seen = new Set<string>();
+  let failed = 0;
+
+  for (const term of mapping.guardianSearchTerms) {
+    try {
+      const articles = await searchNewsApi(term, options.since);
+      if (!articles) {
+        failed++;
+        continue;
+      }
+      for (const a of articles) {
+        if (!seen.has(a.url)) {
+          seen.add(a.url);
+          results.push(a);
+        }
+      }
+    } catch (err) {
+      console.error(`NewsAPI keyword search error (term="${term}"):`, err);
+      failed++;
+    }
+  }
+
+  const inserted = upsertArticles([milestoneSlug], results, "medium");
+  console.log(
+    `[newsapi] Inserted ${inserted} new articles (${seen.size} fetched) for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
+  );
+  return { written: inserted, failed, sourceUrl: `${NEWSAPI_BASE_URL}/v2/everything` };
+}
+
+/**
+ * Fetch NewsAPI articles about a specific output (e.g. a bill or policy paper)
+ * and link them to every milestone the output belongs to.
+ */
+export async function fetchNewsApiForOutput(
+  milestoneSlugs: MilestoneSlug[],
+  outputId: string,
+  outputTitle: string
+): Promise<FetchResult> {
+  try {
+    // Quote the title so NewsAPI matches it as a phrase
+    const results = await searchNewsApi(`"${outputTitle.replace(/"/g, "")}"`);
+    if (!results) return { written: 0, failed: 1 };
+    const inserted = upsertArticles(milestoneSlugs, results, "medium", outputId);
+    console.log(
+      `[newsapi] Inserted ${inserted} new articles for output "${outputId}" (${results.length} fetched)`
+    );
+    return { written: inserted, failed: 0 };
+  } catch (err) {
+    console.error(
+      `NewsAPI output search error (outputId="${outputId}"):`,
+      err
+    );
+    return { written: 0, failed: 1 };
+  }
+}
@@ -1,6 +1,8 @@
+import { mapConcurrent } from "../concurrency";
 import { getDb } from "../db";
+import { describeHttpError, fetchJson } from "../http";
 import { getMilestoneMapping } from "../milestones";
-import type { MilestoneSlug } from "../types";
+import type { FetchOptions, FetchResult, MilestoneSlug } from "../types";
 
 // ---------------------------------------------------------------------------
 // UK Parliament Bills API fetcher
@@ -8,6 +10,7 @@ import type { MilestoneSlug } from "../types";
 // ---------------------------------------------------------------------------
 
 const BILLS_SEARCH_URL = "https://bills-api.parliament.uk/api/v1/Bills";
+const REQUEST_CONCURRENCY = 4;
 
 interface ParliamentBillSummary {
   billId: number;
@@ -64,10 +67,11 @@ interface ParliamentStagesResponse {
 
 /**
  * Search the Parliament Bills API for matching bills.
+ * Returns null when the request failed.
  */
 async function searchBills(
   searchTerm: string
-): Promise<ParliamentBillSummary[]> {
+): Promise<ParliamentBillSummary[] | null> {
   const params = new URLSearchParams({
     SearchTerm: searchTerm,
     CurrentHouse: "All",
@@ -75,35 +79,29 @@ async function searchBills(
   });
 
   const url = `${BILLS_SEARCH_URL}?${params.toString()}`;
-  const res = await fetch(url);
+  const res = await fetchJson<ParliamentSearchResponse>(url);
   if (!res.ok) {
-    console.error(
-      `Parliament Bills API error: ${res.status} ${res.statusText} for ${url}`
-    );
-    return [];
+    console.error(`Parliament Bills API error: ${describeHttpError(res.error)}`);
+    return null;
   }
 
-  const data = (await res.json()) as ParliamentSearchResponse;
-  return data.items ?? [];
+  return res.data.items ?? [];
 }
 
 /**
- * Fetch stages for a specific bill.
+ * Fetch stages for a specific bill. Returns null when the request failed.
  */
 async function fetchBillStages(
   billId: number
-): Promise<ParliamentStage[]> {
+): Promise<ParliamentStage[] | null> {
   const url = `${BILLS_SEARCH_URL}/${billId}/Stages`;
-  const res = await fetch(url);
+  const res = await fetchJson<ParliamentStagesResponse>(url);
   if (!res.ok) {
-    console.error(
-      `Parliament Stages API error: ${res.status} ${res.statusText} for ${url}`
-    );
-    return [];
+    console.error(`Parliament Stages API error: ${describeHttpError(res.error)}`);
+    return null;
   }
 
-  const data = (await res.json()) as ParliamentStagesResponse;
-  return data.items ?? [];
+  return res.data.items ?? [];
 }
 
 /**
@@ -116,50 +114,78 @@ function shouldExclude(title: string, excludeTerms: string[]): boolean {
 
 /**
  * Fetch bills from the UK Parliament Bills API for a given milestone
- * and store them in the outputs + bill_stages tables.
+ * and store them in the outputs + bill_stages tables. With options.since,
+ * bills not updated since that date are skipped (the API has no date filter).
  */
 export async function fetchBills(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
   if (mapping.billSearchTerms.length === 0) {
     console.log(
       `[parliament-bills] No bill search terms for "${milestoneSlug}", skipping.`
     );
-    return;
+    return { written: 0, failed: 0 };
   }
 
   // Collect unique bills across all search terms
   const seenBillIds = new Set<number>();
   const bills: ParliamentBillSummary[] = [];
 
-  for (const term of mapping.billSearchTerms) {
+  let failed = 0;
+
+  const searches = await mapConcurrent(mapping.billSearchTerms, REQUEST_CONCURRENCY, async (term) => {
     try {
-      const items = await searchBills(term);
-      for (const bill of items) {
-        if (seenBillIds.has(bill.billId)) continue;
-        if (shouldExclude(bill.shortTitle, mapping.billExcludeTerms)) continue;
-        seenBillIds.add(bill.billId);
-        bills.push(bill);
-      }
+      return await searchBills(term);
     } catch (err) {
       console.error(`Parliament bills fetch error (term="${term}"):`, err);
+      return null;
+    }
+  });
+
+  for (const items of searches) {
+    if (!items) {
+      failed++;
+      continue;
+    }
+    for (const bill of items) {
+      if (seenBillIds.has(bill.billId)) continue;
+      if (options.since && bill.lastUpdate.slice(0, 10) < options.since) continue;
+      if (shouldExclude(bill.shortTitle, mapping.billExcludeTerms)) continue;
+      seenBillIds.add(bill.billId);
+      bills.push(bill);
     }
   }
 
   const db = getDb();
 
+  // Only update the fields the Bills API owns — rationale and curation survive
   const upsertOutput = db.prepare(`
-    INSERT OR REPLACE INTO outputs
-      (id, milestone_slug, type, title, description, url, source, status,
-       published_date, last_updated, department, confidence, dismissed)
+    INSERT INTO outputs
+      (id, type, title, description, url, source, status,
+       published_date, last_updated, department)
     VALUES
-      (?, ?, 'bill', ?, '', ?, 'parliament', ?, ?, ?, '', 'high', 0)
+      (?, 'bill', ?, '', ?, 'parliament', ?, ?, ?, '')
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      url = excluded.url,
+      status = excluded.status,
+      published_date = excluded.published_date,
+      last_updated = excluded.last_updated,
+      fetched_at = datetime('now')
+  `);
+
+  // Cross-cutting bills are linked to every milestone whose search finds them
+  const linkMilestone = db.prepare(`
+    INSERT INTO output_milestones (output_id, milestone_slug, confidence)
+    VALUES (?, ?, 'high')
+    ON CONFLICT(output_id, milestone_slug) DO NOTHING
   `);
 
   const deleteStages = db.prepare(
@@ -171,31 +197,31 @@ export async function fetchBills(
     VALUES (?, ?, ?, ?, ?)
   `);
 
-  // Fetch all stages first (async), then write to DB (sync transaction)
+  // Fetch all stages first (async), then write to DB (sync transaction).
+  // stages is null when the fetch failed, so the stored stages are kept.
   const billsWithStages: Array<{
     bill: ParliamentBillSummary;
-    stages: ParliamentStage[];
-  }> = [];
-
-  for (const bill of bills) {
+    stages: ParliamentStage[] | null;
+  }> = await mapConcurrent(bills, REQUEST_CONCURRENCY, async (bill) => {
     try {
-      const stages = await fetchBillStages(bill.billId);
-      billsWithStages.push({ bill, stages });
+      return { bill, stages: await fetchBillStages(bill.billId) };
     } catch (err) {
       console.error(
         `Failed to fetch stages for bill ${bill.billId}:`,
         err
       );
-      billsWithStages.push({ bill, stages: [] });
+      return { bill, stages: null };
     }
-  }
+  });
+
+  const stagesFailed = billsWithStages.filter((b) => !b.stages).length;
 
   // Write everything inside a synchronous transaction
   const writeAll = db.transaction(
     (
       items: Array<{
         bill: ParliamentBillSummary;
-        stages: ParliamentStage[];
+        stages: ParliamentStage[] | null;
       }>
     ) => {
       for (const { bill, stages } of items) {
@@ -210,15 +236,16 @@ export async function fetchBills(
 
         upsertOutput.run(
           outputId,
-          milestoneSlug,
           bill.shortTitle,
           billUrl,
           status,
           lastUpdated, // published_date
           lastUpdated  // last_updated
         );
+        linkMilestone.run(outputId, milestoneSlug);
 
         // Replace stages for this bill
+        if (!stages) continue;
         deleteStages.run(outputId);
 
         for (const stage of stages) {
@@ -249,6 +276,9 @@ export async function fetchBills(
   writeAll(billsWithStages);
 
   console.log(
-    `[parliament-bills] Upserted ${billsWithStages.length} bills for "${milestoneSlug}"`
+    `[parliament-bills] Upserted ${billsWithStages.length} bills for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "") +
+      (stagesFailed > 0 ? ` (${stagesFailed} stage fetches failed)` : "")
   );
+  return { written: billsWithStages.length, failed: failed + stagesFailed, sourceUrl: BILLS_SEARCH_URL };
 }
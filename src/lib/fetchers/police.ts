@@ -1,14 +1,20 @@
-import { getDb } from "../db";
 import * as XLSX from "xlsx";
+import type { KpiDataPoint } from "../kpi-store";
+import type { KpiAdapter, KpiFetchOutcome } from "../kpi-registry";
+import { describeHttpError, fetchBytes, fetchJson, fetchText } from "../http";
+import { readTable } from "../table-locator";
+import type { KpiSourceConfig, KpiTableLocator } from "../types";
 
 // ---------------------------------------------------------------------------
-// Police workforce (England & Wales) fetcher
+// Police workforce (England & Wales) adapter
 //
 // Strategy: Use the GOV.UK Search API to find the latest Home Office
 // "Police workforce, England and Wales" statistical publications, then
 // discover XLSX attachments from the publication HTML pages, download them,
-// and extract total headcount figures for police officers, PCSOs, and
-// special constables.
+// and read total headcount (police officers, PCSOs and special constables)
+// with the table specs in the police-workforce source's tableLocator. The
+// source's secondary metrics (each role on its own) are read from the same
+// workbook.
 //
 // The policing milestone targets 13,000 *additional* neighbourhood police.
 // We store raw totals here — the UI computes deltas against a baseline.
@@ -17,36 +23,6 @@ import * as XLSX from "xlsx";
 const GOVUK_SEARCH_URL = "https://www.gov.uk/api/search.json";
 const GOVUK_CONTENT_API = "https://www.gov.uk/api/content";
 
-const MONTH_NAMES: Record<string, string> = {
-  january: "01",
-  february: "02",
-  march: "03",
-  april: "04",
-  may: "05",
-  june: "06",
-  july: "07",
-  august: "08",
-  september: "09",
-  october: "10",
-  november: "11",
-  december: "12",
-};
-
-const MONTH_ABBREVS: Record<string, string> = {
-  "01": "Jan",
-  "02": "Feb",
-  "03": "Mar",
-  "04": "Apr",
-  "05": "May",
-  "06": "Jun",
-  "07": "Jul",
-  "08": "Aug",
-  "09": "Sep",
-  "10": "Oct",
-  "11": "Nov",
-  "12": "Dec",
-};
-
 // ---------------------------------------------------------------------------
 // GOV.UK Search: find police workforce publications
 // ---------------------------------------------------------------------------
@@ -92,10 +68,14 @@ async function findPoliceWorkforcePublications(): Promise<GovukSearchResult[]> {
   for (const path of candidates) {
     try {
       const contentUrl = `${GOVUK_CONTENT_API}${path}`;
-      const res = await fetch(contentUrl, { signal: AbortSignal.timeout(5000) });
+      // Most candidate paths 404, so probe quickly without much retrying
+      const res = await fetchJson<GovukContentResponse>(contentUrl, {
+        timeoutMs: 5000,
+        retries: 1,
+      });
       if (!res.ok) continue;
 
-      const data = (await res.json()) as GovukContentResponse;
+      const data = res.data;
       results.push({
         title: data.title,
         link: path,
@@ -122,10 +102,13 @@ async function findPoliceWorkforcePublications(): Promise<GovukSearchResult[]> {
     });
 
     try {
-      const res = await fetch(`${GOVUK_SEARCH_URL}?${params.toString()}`);
+      const res = await fetchJson<GovukSearchResponse>(
+        `${GOVUK_SEARCH_URL}?${params.toString()}`
+      );
       if (res.ok) {
-        const data = (await res.json()) as GovukSearchResponse;
-        results.push(...(data.results ?? []));
+        results.push(...(res.data.results ?? []));
+      } else {
+        console.error(`[police] GOV.UK search failed: ${describeHttpError(res.error)}`);
       }
     } catch (err) {
       console.error("[police] GOV.UK search request failed:", err);
@@ -169,9 +152,11 @@ async function discoverXlsxAttachments(linkPath: string): Promise<string[]> {
   // Approach 1: Content API
   try {
     const contentUrl = `${GOVUK_CONTENT_API}${linkPath}`;
-    const res = await fetch(contentUrl);
-    if (res.ok) {
-      const data = (await res.json()) as GovukContentResponse;
+    const res = await fetchJson<GovukContentResponse>(contentUrl);
+    if (!res.ok) {
+      console.error(`[police] Content API failed: ${describeHttpError(res.error)}`);
+    } else {
+      const data = res.data;
 
       // Direct attachments on the publication
       if (data.details?.attachments) {
@@ -218,9 +203,11 @@ async function discoverXlsxAttachments(linkPath: string): Promise<string[]> {
   // Approach 2: Scrape the HTML page for XLSX links
   if (xlsxUrls.length === 0) {
     try {
-      const htmlRes = await fetch(`https://www.gov.uk${linkPath}`);
-      if (htmlRes.ok) {
-        const html = await htmlRes.text();
+      const htmlRes = await fetchText(`https://www.gov.uk${linkPath}`);
+      if (!htmlRes.ok) {
+        console.error(`[police] HTML page failed: ${describeHttpError(htmlRes.error)}`);
+      } else {
+        const html = htmlRes.data;
         const linkRegex = /href=["']([^"']*\.(?:xlsx?|ods))["']/gi;
         let match: RegExpExecArray | null;
         while ((match = linkRegex.exec(html)) !== null) {
@@ -248,15 +235,12 @@ async function discoverXlsxAttachments(linkPath: string): Promise<string[]> {
 
 async function downloadWorkbook(url: string): Promise<XLSX.WorkBook | null> {
   try {
-    const res = await fetch(url);
+    const res = await fetchBytes(url);
     if (!res.ok) {
-      console.error(
-        `[police] Failed to download spreadsheet: ${res.status} from ${url}`
-      );
+      console.error(`[police] Failed to download spreadsheet: ${describeHttpError(res.error)}`);
       return null;
     }
-    const arrayBuffer = await res.arrayBuffer();
-    return XLSX.read(new Uint8Array(arrayBuffer), { type: "array" });
+    return XLSX.read(res.data, { type: "array" });
   } catch (err) {
     console.error(`[police] Error downloading/parsing spreadsheet from ${url}:`, err);
     return null;
@@ -264,404 +248,50 @@ async function downloadWorkbook(url: string): Promise<XLSX.WorkBook | null> {
 }
 
 /**
- * Excel serial date number to ISO date string.
- */
-function excelDateToISO(serial: number): string {
-  const epoch = new Date(1899, 11, 30);
-  const d = new Date(epoch.getTime() + serial * 86400000);
-  return d.toISOString().slice(0, 10);
-}
-
-/**
- * Attempt to find a sheet that contains workforce headcount data.
- * The Home Office ODS/XLSX files have multiple tables:
- *   - Table_1..3: Per-force breakdowns (FTE) for current period
- *   - Table_4: National time series (FTE) — the one we want
- *   - Table_5..7: Per-force breakdowns (headcount)
- *   - Table_8+: Demographics, diversity, etc.
- */
-function findWorkforceSheet(workbook: XLSX.WorkBook): string | null {
-  const sheetNames = workbook.SheetNames;
-
-  // Priority 1: Table_4 is the national time series in the standard layout
-  if (sheetNames.includes("Table_4")) return "Table_4";
-
-  // Priority 2: Look for sheets with time-series-like patterns
-  const patterns = [
-    /table.*h1/i,
-    /time.?series/i,
-    /workforce/i,
-    /headcount/i,
-    /summary/i,
-    /overview/i,
-    /table.*4/i,
-    /officer/i,
-    /strength/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = sheetNames.find((name) => pattern.test(name));
-    if (match) return match;
-  }
-
-  // Fall back to first sheet that looks like a data sheet
-  return sheetNames.find((n) => n.toLowerCase().startsWith("table")) ?? sheetNames[0] ?? null;
-}
-
-interface WorkforceDataPoint {
-  date: string;
-  label: string;
-  totalOfficers: number;
-  totalPCSOs: number;
-  totalSpecials: number;
-  combinedTotal: number;
-}
-
-/**
- * Try to extract workforce totals from a workbook.
- *
- * The typical structure is a table with columns including:
- *   - Date / Period (e.g. "31 March 2024")
- *   - Total police officers (FTE or headcount)
- *   - PCSOs
- *   - Special constables
- *
- * We search for header rows containing these keywords and then read data rows.
+ * Read workforce totals with the police-workforce table specs. The Home
+ * Office workbooks hold per-force tables alongside the national time series
+ * (Table_4 in the standard layout); the locator lists likely sheets in order.
  */
-function extractWorkforceData(workbook: XLSX.WorkBook): WorkforceDataPoint[] {
-  const results: WorkforceDataPoint[] = [];
-
-  // Try multiple sheets — some workbooks split data across sheets
-  const sheetsToTry: string[] = [];
-  const primarySheet = findWorkforceSheet(workbook);
-  if (primarySheet) sheetsToTry.push(primarySheet);
-
-  // Also try all sheets with relevant names
-  for (const name of workbook.SheetNames) {
-    if (!sheetsToTry.includes(name)) {
-      const lower = name.toLowerCase();
-      if (
-        lower.includes("table") ||
-        lower.includes("officer") ||
-        lower.includes("workforce") ||
-        lower.includes("headcount") ||
-        lower.includes("summary")
-      ) {
-        sheetsToTry.push(name);
-      }
-    }
-  }
-
-  for (const sheetName of sheetsToTry) {
-    const sheet = workbook.Sheets[sheetName];
-    if (!sheet) continue;
-
-    const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, {
-      header: 1,
-      defval: null,
-    });
-
-    const sheetResults = tryExtractFromRows(rows);
-    if (sheetResults.length > 0) {
-      results.push(...sheetResults);
-      break; // Use the first sheet that yields results
-    }
-  }
-
-  return results;
-}
-
-/**
- * Given raw rows from a sheet, try to locate column headers for
- * officer/PCSO/special counts and extract data points.
- */
-function tryExtractFromRows(rows: unknown[][]): WorkforceDataPoint[] {
-  // Scan for header row. We need a row that has multiple distinct column
-  // headers (date + at least one metric), not just a title row that
-  // happens to mention workforce terms.
-  let headerRowIdx = -1;
-  let dateColIdx = -1;
-  let officerColIdx = -1;
-  let pcsoColIdx = -1;
-  let specialColIdx = -1;
-  let totalColIdx = -1;
-
-  for (let i = 0; i < Math.min(rows.length, 30); i++) {
-    const row = rows[i];
-    if (!row) continue;
-
-    // Count how many non-null cells this row has — title rows typically
-    // have content only in column 0, while header rows span multiple columns.
-    const nonNullCount = row.filter((c) => c != null && String(c).trim() !== "").length;
-    if (nonNullCount < 2) continue;
-
-    let rowDateCol = -1;
-    let rowOfficerCol = -1;
-    let rowPcsoCol = -1;
-    let rowSpecialCol = -1;
-    let rowTotalCol = -1;
-    let relevantHeaders = 0;
-
-    for (let j = 0; j < row.length; j++) {
-      const cell = String(row[j] ?? "").toLowerCase().trim();
-      if (!cell) continue;
-
-      // Date/period column
-      if (
-        cell === "as at" ||
-        cell === "as of" ||
-        cell === "date" ||
-        cell === "period" ||
-        cell === "year"
-      ) {
-        rowDateCol = j;
-      }
-
-      // Total police officers
-      if (
-        (cell.includes("officer") || cell.includes("police officer")) &&
-        (cell.includes("total") || cell.includes("all"))
-      ) {
-        rowOfficerCol = j;
-        relevantHeaders++;
-      } else if (
-        cell === "police officers" ||
-        (cell.includes("officer") &&
-          !cell.includes("pcso") &&
-          !cell.includes("special") &&
-          !cell.includes("community") &&
-          cell.length < 40) // Avoid matching long title strings
-      ) {
-        if (rowOfficerCol < 0) {
-          rowOfficerCol = j;
-          relevantHeaders++;
-        }
-      }
-
-      // PCSOs
-      if (
-        cell === "pcsos" ||
-        cell === "pcsOs" ||
-        (cell.includes("community support") && cell.length < 60)
-      ) {
-        rowPcsoCol = j;
-        relevantHeaders++;
-      }
-
-      // Special constables
-      if (cell.includes("special") && cell.length < 30) {
-        rowSpecialCol = j;
-        relevantHeaders++;
-      }
-
-      // A combined total column
-      if (
-        cell === "total" ||
-        (cell.includes("total") &&
-          !cell.includes("officer") &&
-          !cell.includes("staff") &&
-          cell.length < 20)
-      ) {
-        rowTotalCol = j;
-      }
-    }
-
-    // Accept this row as header if it has a date column OR multiple
-    // metric columns — not just a single keyword match in a title row
-    if (relevantHeaders >= 1 && (rowDateCol >= 0 || relevantHeaders >= 2)) {
-      headerRowIdx = i;
-      dateColIdx = rowDateCol;
-      officerColIdx = rowOfficerCol;
-      pcsoColIdx = rowPcsoCol;
-      specialColIdx = rowSpecialCol;
-      totalColIdx = rowTotalCol;
-      break;
-    }
-  }
-
-  if (headerRowIdx < 0) return [];
-
-  // If no date column found, try column 0
-  if (dateColIdx < 0) dateColIdx = 0;
-
-  const results: WorkforceDataPoint[] = [];
-
-  for (let i = headerRowIdx + 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (!row) continue;
-
-    // Parse date
-    const rawDate = row[dateColIdx];
-    const parsed = parsePoliceDate(rawDate);
-    if (!parsed) continue;
-
-    const { isoDate, label } = parsed;
-
-    // Parse numeric values
-    const officers = parseNumericCell(
-      officerColIdx >= 0 ? row[officerColIdx] : null
-    );
-    const pcsos = parseNumericCell(pcsoColIdx >= 0 ? row[pcsoColIdx] : null);
-    const specials = parseNumericCell(
-      specialColIdx >= 0 ? row[specialColIdx] : null
-    );
-
-    // If we got a total column but no individual columns, use that
-    const total =
-      totalColIdx >= 0 ? parseNumericCell(row[totalColIdx]) : null;
-
-    const combinedTotal =
-      officers !== null || pcsos !== null || specials !== null
-        ? (officers ?? 0) + (pcsos ?? 0) + (specials ?? 0)
-        : total;
-
-    if (combinedTotal === null || combinedTotal === 0) continue;
-
-    results.push({
-      date: isoDate,
-      label,
-      totalOfficers: officers ?? 0,
-      totalPCSOs: pcsos ?? 0,
-      totalSpecials: specials ?? 0,
-      combinedTotal,
-    });
-  }
-
-  return results;
-}
-
-/**
- * Parse a date value from the police workforce spreadsheet.
- * Handles:
- *   - Excel serial dates (number > 10000)
- *   - Strings like "31 March 2024", "Mar 2024", "March 2024"
- *   - ISO date strings "2024-03-31"
- */
-function parsePoliceDate(
-  raw: unknown
-): { isoDate: string; label: string } | null {
-  if (raw == null) return null;
-
-  // Excel serial date
-  if (typeof raw === "number" && raw > 10000) {
-    const isoDate = excelDateToISO(raw);
-    const d = new Date(isoDate);
-    const monthNum = String(d.getMonth() + 1).padStart(2, "0");
-    const label = `${MONTH_ABBREVS[monthNum] ?? "???"} ${d.getFullYear()}`;
-    return { isoDate, label };
-  }
-
-  const str = String(raw).trim();
-  if (!str) return null;
-
-  // ISO format: "2024-03-31"
-  const isoMatch = str.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (isoMatch) {
-    const [, year, month] = isoMatch;
-    const label = `${MONTH_ABBREVS[month] ?? "???"} ${year}`;
-    return { isoDate: str, label };
-  }
-
-  // "31 March 2024" or "March 2024"
-  const longMatch = str.match(
-    /(?:(\d{1,2})\s+)?(\w+)\s+(\d{4})/
-  );
-  if (longMatch) {
-    const [, day, monthStr, year] = longMatch;
-    const monthLower = monthStr.toLowerCase();
-    const monthNum = MONTH_NAMES[monthLower];
-    if (monthNum) {
-      const dayStr = day ? day.padStart(2, "0") : "01";
-      const isoDate = `${year}-${monthNum}-${dayStr}`;
-      const label = `${MONTH_ABBREVS[monthNum] ?? "???"} ${year}`;
-      return { isoDate, label };
-    }
-  }
-
-  // "Mar 2024" (abbreviated)
-  const shortMatch = str.match(/^(\w{3})\s+(\d{4})$/);
-  if (shortMatch) {
-    const [, monthAbbr, year] = shortMatch;
-    const monthLower = monthAbbr.toLowerCase();
-    // Find month number from abbreviation
-    for (const [num, abbr] of Object.entries(MONTH_ABBREVS)) {
-      if (abbr.toLowerCase() === monthLower) {
-        const isoDate = `${year}-${num}-01`;
-        const label = `${abbr} ${year}`;
-        return { isoDate, label };
-      }
-    }
-  }
-
-  return null;
-}
-
-/**
- * Parse a cell value as a number. Handles comma-separated thousands,
- * percentage signs, and whitespace.
- */
-function parseNumericCell(raw: unknown): number | null {
-  if (raw == null) return null;
-  if (typeof raw === "number") return raw;
-
-  const str = String(raw).replace(/[,%\s]/g, "").trim();
-  if (str === "" || str === "-" || str === "..") return null;
-
-  const num = parseFloat(str);
-  return isNaN(num) ? null : num;
+function extractWorkforceData(workbook: XLSX.WorkBook, locator: KpiTableLocator): KpiDataPoint[] {
+  const series = readTable(workbook, locator, "police");
+  if (!series) return [];
+  return series.points.map(({ period, value }) => ({
+    value: Math.round(value),
+    date: period.date,
+    label: period.label,
+    period: period.span,
+    provenance: { sheetName: series.sheetName, parser: series.specId },
+  }));
 }
 
 // ---------------------------------------------------------------------------
-// Date extraction from publication title
+// Adapter
 // ---------------------------------------------------------------------------
 
 /**
- * Extract a date from a publication title like
- * "Police workforce, England and Wales: 31 March 2024"
+ * Read UK police workforce data from Home Office publications on GOV.UK,
+ * as total headcount (officers + PCSOs + specials) per snapshot date.
  */
-function extractDateFromTitle(
-  title: string
-): { isoDate: string; label: string } | null {
-  // Match patterns like "31 March 2024"
-  const match = title.match(
-    /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-  );
-  if (match) {
-    const [, day, monthStr, year] = match;
-    const monthNum = MONTH_NAMES[monthStr.toLowerCase()];
-    if (monthNum) {
-      const isoDate = `${year}-${monthNum}-${day.padStart(2, "0")}`;
-      const label = `${MONTH_ABBREVS[monthNum]} ${year}`;
-      return { isoDate, label };
-    }
+async function fetchWorkforceSeries(source: KpiSourceConfig): Promise<KpiFetchOutcome> {
+  if (!source.tableLocator) {
+    return { ok: false, error: "No table locator configured" };
   }
-  return null;
-}
-
-// ---------------------------------------------------------------------------
-// Main exported function
-// ---------------------------------------------------------------------------
 
-/**
- * Fetch UK police workforce data from Home Office publications on GOV.UK,
- * and store total headcount (officers + PCSOs + specials) as KPI snapshots
- * for the "policing" milestone.
- */
-export async function fetchPoliceWorkforce(): Promise<void> {
   console.log("[police] Searching GOV.UK for police workforce publications...");
 
   const publications = await findPoliceWorkforcePublications();
   if (publications.length === 0) {
     console.error("[police] No police workforce publications found");
-    return;
+    return { ok: false, error: "No workforce publications found" };
   }
 
   console.log(
     `[police] Found ${publications.length} publications, processing...`
   );
 
-  const allDataPoints: WorkforceDataPoint[] = [];
+  const allDataPoints: KpiDataPoint[] = [];
   const seenDates = new Set<string>();
+  const secondary: Record<string, KpiDataPoint[]> = {};
 
   for (const pub of publications) {
     // Only process publications that look like police workforce stats
@@ -675,9 +305,6 @@ export async function fetchPoliceWorkforce(): Promise<void> {
 
     console.log(`[police] Processing: "${pub.title}" (${pub.link})`);
 
-    // Try to get the date from the title for fallback
-    const titleDate = extractDateFromTitle(pub.title);
-
     // Discover spreadsheet attachments (XLSX, XLS, ODS)
     const xlsxUrls = await discoverXlsxAttachments(pub.link);
     if (xlsxUrls.length === 0) {
@@ -731,12 +358,25 @@ export async function fetchPoliceWorkforce(): Promise<void> {
       const workbook = await downloadWorkbook(xlsxUrl);
       if (!workbook) continue;
 
-      const dataPoints = extractWorkforceData(workbook);
+      const dataPoints = extractWorkforceData(workbook, source.tableLocator);
       if (dataPoints.length > 0) {
         for (const dp of dataPoints) {
           if (!seenDates.has(dp.date)) {
             seenDates.add(dp.date);
-            allDataPoints.push(dp);
+            allDataPoints.push({
+              ...dp,
+              provenance: { ...dp.provenance, sourceUrl: xlsxUrl },
+            });
+          }
+        }
+
+        // Earlier (newer) publications win, as for the totals
+        for (const { metric, tables } of source.secondary ?? []) {
+          const locator = { sheets: source.tableLocator.sheets, tables };
+          const points = (secondary[metric] ??= []);
+          for (const dp of extractWorkforceData(workbook, locator)) {
+            if (points.some((p) => p.date === dp.date)) continue;
+            points.push({ ...dp, provenance: { ...dp.provenance, sourceUrl: xlsxUrl } });
           }
         }
         foundData = true;
@@ -744,121 +384,33 @@ export async function fetchPoliceWorkforce(): Promise<void> {
       }
     }
 
-    // If we couldn't parse any XLSX but have a title date, try a simpler approach:
-    // Look for any numeric totals in the first XLSX
-    if (!foundData && titleDate) {
-      console.log(
-        `[police] Could not extract structured data, trying fallback for "${pub.title}"`
-      );
-      for (const xlsxUrl of xlsxUrls) {
-        const workbook = await downloadWorkbook(xlsxUrl);
-        if (!workbook) continue;
-
-        const fallback = tryFallbackExtraction(workbook, titleDate);
-        if (fallback && !seenDates.has(fallback.date)) {
-          seenDates.add(fallback.date);
-          allDataPoints.push(fallback);
-          break;
-        }
-      }
+    // No guessing at totals from other tables: an officers-only figure
+    // would land in a series of officers, PCSOs and specials
+    if (!foundData) {
+      console.log(`[police] No table matched the workforce specs in "${pub.title}"`);
     }
   }
 
   if (allDataPoints.length === 0) {
     console.error("[police] No workforce data points could be extracted");
-    return;
+    return { ok: false, error: "No data points extracted" };
   }
 
-  // Filter to 2020 onwards
-  const cutoff = "2020-01-01";
-  const recent = allDataPoints
-    .filter((dp) => dp.date >= cutoff)
-    .sort((a, b) => a.date.localeCompare(b.date));
-
-  if (recent.length === 0) {
-    console.error("[police] No data points from 2020 onwards");
-    return;
-  }
-
-  // Store in database
-  const db = getDb();
-  const upsert = db.prepare(`
-    INSERT OR REPLACE INTO kpi_snapshots
-      (milestone_slug, value, date, label)
-    VALUES ('policing', ?, ?, ?)
-  `);
-
-  const insertAll = db.transaction((items: WorkforceDataPoint[]) => {
-    for (const item of items) {
-      upsert.run(Math.round(item.combinedTotal), item.date, item.label);
-    }
-  });
-
-  insertAll(recent);
-
-  const latest = recent[recent.length - 1];
+  allDataPoints.sort((a, b) => a.date.localeCompare(b.date));
+  const latest = allDataPoints[allDataPoints.length - 1];
   console.log(
-    `[police] Stored ${recent.length} KPI snapshots. Latest: ${latest.combinedTotal.toLocaleString()} total (officers: ${latest.totalOfficers.toLocaleString()}, PCSOs: ${latest.totalPCSOs.toLocaleString()}, specials: ${latest.totalSpecials.toLocaleString()}) as of ${latest.label}`
+    `[police] Latest: ${latest.value.toLocaleString()} total as of ${latest.label}`
   );
-}
-
-// ---------------------------------------------------------------------------
-// Fallback extraction: scan all sheets for any large number that could
-// represent a total workforce figure, using the publication title date.
-// ---------------------------------------------------------------------------
-
-function tryFallbackExtraction(
-  workbook: XLSX.WorkBook,
-  titleDate: { isoDate: string; label: string }
-): WorkforceDataPoint | null {
-  for (const sheetName of workbook.SheetNames) {
-    const sheet = workbook.Sheets[sheetName];
-    if (!sheet) continue;
-
-    const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, {
-      header: 1,
-      defval: null,
-    });
 
-    // Look for rows where a cell contains "total" and an adjacent cell
-    // contains a number in a plausible range for police workforce (50k-200k)
-    for (const row of rows) {
-      if (!row) continue;
-
-      let hasTotalKeyword = false;
-      let largestNumber = 0;
-
-      for (const cell of row) {
-        const cellStr = String(cell ?? "").toLowerCase();
-        if (
-          cellStr.includes("total") &&
-          (cellStr.includes("officer") ||
-            cellStr.includes("police") ||
-            cellStr.includes("workforce") ||
-            cellStr.includes("strength"))
-        ) {
-          hasTotalKeyword = true;
-        }
-
-        const num = parseNumericCell(cell);
-        if (num !== null && num > largestNumber) {
-          largestNumber = num;
-        }
-      }
-
-      // Police workforce total is typically 120k-170k
-      if (hasTotalKeyword && largestNumber >= 50000 && largestNumber <= 300000) {
-        return {
-          date: titleDate.isoDate,
-          label: titleDate.label,
-          totalOfficers: 0,
-          totalPCSOs: 0,
-          totalSpecials: 0,
-          combinedTotal: Math.round(largestNumber),
-        };
-      }
-    }
-  }
-
-  return null;
+  return {
+    ok: true,
+    points: allDataPoints,
+    parser: "police-workforce",
+    sourceUrl: `https://www.gov.uk${publications[0].link}`,
+    secondary,
+  };
 }
+
+export const policeWorkforceAdapter: KpiAdapter = {
+  fetch: fetchWorkforceSeries,
+};
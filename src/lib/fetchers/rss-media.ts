@@ -0,0 +1,229 @@
+import { createHash } from "crypto";
+import { XMLParser } from "fast-xml-parser";
+import { mapConcurrent } from "../concurrency";
+import { getDb } from "../db";
+import { describeHttpError, fetchText } from "../http";
+import { getMilestoneMapping } from "../milestones";
+import type { FetchOptions, FetchResult, MediaFeed, MilestoneSlug } from "../types";
+
+// ---------------------------------------------------------------------------
+// RSS/Atom media fetcher
+//
+// Reads each milestone's mediaFeeds (BBC, FT, Telegraph, trade press) and
+// keeps items whose title or summary mentions one of its mediaKeywords.
+// Articles already stored under the same URL (e.g. from another feed or the
+// Guardian) are linked rather than duplicated.
+// ---------------------------------------------------------------------------
+
+const FROM_DATE = "2024-07-01";
+const EXCERPT_LENGTH = 300;
+const FEED_CONCURRENCY = 4; // feeds are on different hosts
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  isArray: (name) => ["item", "entry", "link", "thumbnail"].includes(name),
+});
+
+export interface FeedItem {
+  title: string;
+  url: string;
+  publishedDate: string; // YYYY-MM-DD, or "" if the feed gives none
+  excerpt: string | null;
+  thumbnailUrl: string | null;
+}
+
+type XmlNode = Record<string, unknown>;
+
+function text(node: unknown): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "object") return String((node as XmlNode)["#text"] ?? "");
+  return String(node);
+}
+
+function toDate(value: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10);
+}
+
+/** Strip markup from an HTML summary and trim it to a short excerpt. */
+function toExcerpt(html: string): string | null {
+  const plain = html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!plain) return null;
+  return plain.length > EXCERPT_LENGTH
+    ? plain.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, "") + "…"
+    : plain;
+}
+
+/** Parse an RSS 2.0 or Atom feed into a flat list of items. */
+export function parseFeed(xml: string): FeedItem[] {
+  const doc = parser.parse(xml) as XmlNode;
+
+  // RSS 2.0: <rss><channel><item>
+  const channel = (doc.rss as XmlNode | undefined)?.channel as XmlNode | undefined;
+  if (channel) {
+    return ((channel.item as XmlNode[] | undefined) ?? []).map((item) => {
+      const thumbnails = (item.thumbnail as XmlNode[] | undefined) ?? [];
+      return {
+        title: text(item.title).trim(),
+        url: text((item.link as unknown[] | undefined)?.[0]).trim(),
+        publishedDate: toDate(text(item.pubDate) || text(item.date)),
+        excerpt: toExcerpt(text(item.description)),
+        thumbnailUrl: (thumbnails[0]?.["@_url"] as string | undefined) ?? null,
+      };
+    });
+  }
+
+  // Atom: <feed><entry>
+  const feed = doc.feed as XmlNode | undefined;
+  if (feed) {
+    return ((feed.entry as XmlNode[] | undefined) ?? []).map((entry) => {
+      const links = (entry.link as XmlNode[] | undefined) ?? [];
+      const link =
+        links.find((l) => (l["@_rel"] ?? "alternate") === "alternate") ?? links[0];
+      return {
+        title: text(entry.title).trim(),
+        url: String(link?.["@_href"] ?? "").trim(),
+        publishedDate: toDate(text(entry.published) || text(entry.updated)),
+        excerpt: toExcerpt(text(entry.summary) || text(entry.content)),
+        thumbnailUrl: null,
+      };
+    });
+  }
+
+  return [];
+}
+
+/** Whole-word, case-insensitive match against any keyword. */
+export function matchesKeywords(item: FeedItem, keywords: string[]): boolean {
+  const haystack = `${item.title} ${item.excerpt ?? ""}`;
+  return keywords.some((keyword) => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`\\b${escaped}\\b`, "i").test(haystack);
+  });
+}
+
+/** Deterministic article ID from the article URL. */
+function idFromUrl(url: string): string {
+  return "rss-" + createHash("sha1").update(url).digest("hex").slice(0, 16);
+}
+
+/** Fetch and parse one feed. Returns null if the request failed. */
+async function fetchFeed(feed: MediaFeed): Promise<FeedItem[] | null> {
+  const res = await fetchText(feed.url, {
+    headers: { Accept: "application/rss+xml, application/atom+xml, application/xml" },
+  });
+  if (!res.ok) {
+    console.error(`RSS feed error (${feed.source}): ${describeHttpError(res.error)}`);
+    return null;
+  }
+  return parseFeed(res.data);
+}
+
+/**
+ * Fetch a milestone's RSS/Atom feeds and store keyword-matching items in
+ * media_articles, linked to the milestone.
+ */
+export async function fetchRssMediaForMilestone(
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
+  const mapping = getMilestoneMapping(milestoneSlug);
+  if (!mapping) {
+    console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
+    return { written: 0, failed: 0 };
+  }
+
+  if (mapping.mediaFeeds.length === 0) {
+    console.log(`[rss-media] No feeds for "${milestoneSlug}", skipping.`);
+    return { written: 0, failed: 0 };
+  }
+
+  const fromDate = options.since ?? FROM_DATE;
+
+  const matched: Array<{ feed: MediaFeed; item: FeedItem }> = [];
+  let fetched = 0;
+  let failed = 0;
+
+  const feedItems = await mapConcurrent(mapping.mediaFeeds, FEED_CONCURRENCY, async (feed) => {
+    try {
+      return await fetchFeed(feed);
+    } catch (err) {
+      console.error(`RSS feed fetch error (${feed.source}, ${feed.url}):`, err);
+      return null;
+    }
+  });
+
+  mapping.mediaFeeds.forEach((feed, i) => {
+    const items = feedItems[i];
+    if (!items) {
+      failed++;
+      return;
+    }
+    fetched += items.length;
+    for (const item of items) {
+      if (!item.url || !item.title) continue;
+      if (item.publishedDate && item.publishedDate < fromDate) continue;
+      if (!matchesKeywords(item, mapping.mediaKeywords)) continue;
+      matched.push({ feed, item });
+    }
+  });
+
+  const db = getDb();
+
+  // url is UNIQUE, so an article seen in another feed or source is skipped
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO media_articles
+      (id, title, url, source, published_date, excerpt, thumbnail_url, api_source)
+    VALUES
+      (?, ?, ?, ?, ?, ?, ?, 'rss')
+  `);
+
+  const findStored = db.prepare("SELECT id FROM media_articles WHERE url = ?");
+
+  // Keyword matches carry the same weight as Guardian keyword searches
+  const link = db.prepare(`
+    INSERT INTO media_article_milestones (article_id, milestone_slug, confidence)
+    VALUES (?, ?, 'medium')
+    ON CONFLICT(article_id, milestone_slug) DO NOTHING
+  `);
+
+  let inserted = 0;
+
+  const insertMany = db.transaction((items: typeof matched) => {
+    for (const { feed, item } of items) {
+      const result = insert.run(
+        idFromUrl(item.url),
+        item.title,
+        item.url,
+        feed.source,
+        item.publishedDate,
+        item.excerpt,
+        item.thumbnailUrl
+      );
+      if (result.changes > 0) inserted++;
+
+      const stored = findStored.get(item.url) as { id: string } | undefined;
+      if (stored) link.run(stored.id, milestoneSlug);
+    }
+  });
+
+  insertMany(matched);
+
+  console.log(
+    `[rss-media] Inserted ${inserted} new articles (${matched.length} matched of ${fetched} fetched) for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} feeds failed)` : "")
+  );
+  return { written: inserted, failed };
+}
@@ -1,6 +1,7 @@
 import { getDb } from "../db";
+import { describeHttpError, fetchJson } from "../http";
 import { getMilestoneMapping } from "../milestones";
-import type { MilestoneSlug } from "../types";
+import type { FetchOptions, FetchResult, MilestoneSlug } from "../types";
 
 // ---------------------------------------------------------------------------
 // TheyWorkForYou API fetcher — debates + written questions
@@ -30,6 +31,9 @@ interface TwfyWransResult {
   answered?: boolean;
 }
 
+/** The API returns a bare array, { rows: [...] }, or { error } with a 200. */
+type TwfySearchResponse<T> = T[] | { rows?: T[]; error?: string };
+
 function getApiKey(): string | null {
   const key = process.env.TWFY_API_KEY;
   if (!key) {
@@ -55,11 +59,12 @@ function houseFromType(htype: string): "Commons" | "Lords" | "Westminster Hall"
 
 /**
  * Search TheyWorkForYou for Hansard debates matching a search term.
+ * Returns null when the request failed.
  */
 async function searchDebates(
   apiKey: string,
   searchTerm: string
-): Promise<TwfyDebateResult[]> {
+): Promise<TwfyDebateResult[] | null> {
   const params = new URLSearchParams({
     key: apiKey,
     s: searchTerm,
@@ -68,13 +73,17 @@ async function searchDebates(
   });
 
   const url = `${TWFY_API_URL}/getDebates?${params.toString()}`;
-  const res = await fetch(url);
+  const res = await fetchJson<TwfySearchResponse<TwfyDebateResult>>(url);
   if (!res.ok) {
-    console.error(`[twfy] Debates API error: ${res.status} for ${url}`);
-    return [];
+    console.error(`[twfy] Debates API error: ${describeHttpError(res.error)}`);
+    return null;
   }
 
-  const data = await res.json();
+  const data = res.data;
+  if (!Array.isArray(data) && data?.error) {
+    console.error(`[twfy] Debates API error: ${data.error}`);
+    return null;
+  }
   if (Array.isArray(data)) {
     return data as TwfyDebateResult[];
   }
@@ -86,11 +95,12 @@ async function searchDebates(
 
 /**
  * Search TheyWorkForYou for written questions/answers.
+ * Returns null when the request failed.
  */
 async function searchWrans(
   apiKey: string,
   searchTerm: string
-): Promise<TwfyWransResult[]> {
+): Promise<TwfyWransResult[] | null> {
   const params = new URLSearchParams({
     key: apiKey,
     s: searchTerm,
@@ -99,13 +109,17 @@ async function searchWrans(
   });
 
   const url = `${TWFY_API_URL}/getWrans?${params.toString()}`;
-  const res = await fetch(url);
+  const res = await fetchJson<TwfySearchResponse<TwfyWransResult>>(url);
   if (!res.ok) {
-    console.error(`[twfy] Wrans API error: ${res.status} for ${url}`);
-    return [];
+    console.error(`[twfy] Wrans API error: ${describeHttpError(res.error)}`);
+    return null;
   }
 
-  const data = await res.json();
+  const data = res.data;
+  if (!Array.isArray(data) && data?.error) {
+    console.error(`[twfy] Wrans API error: ${data.error}`);
+    return null;
+  }
   if (Array.isArray(data)) {
     return data as TwfyWransResult[];
   }
@@ -128,22 +142,25 @@ function cleanText(html: string, maxLen = 200): string {
  * Fetch debates from TheyWorkForYou for a given milestone.
  */
 export async function fetchDebates(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const apiKey = getApiKey();
-  if (!apiKey) return;
+  if (!apiKey) return { written: 0, failed: 0 };
 
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
   if (mapping.debateSearchTerms.length === 0) {
     console.log(`[twfy] No debate search terms for "${milestoneSlug}", skipping.`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
+  const fromDate = options.since ?? FROM_DATE;
+
   const seenGids = new Set<string>();
   const debates: Array<{
     id: string;
@@ -153,12 +170,18 @@ export async function fetchDebates(
     url: string;
   }> = [];
 
+  let failed = 0;
+
   for (const term of mapping.debateSearchTerms) {
     try {
       const results = await searchDebates(apiKey, term);
+      if (!results) {
+        failed++;
+        continue;
+      }
       for (const r of results) {
         if (!r.gid || seenGids.has(r.gid)) continue;
-        if (r.hdate < FROM_DATE) continue;
+        if (r.hdate < fromDate) continue;
         seenGids.add(r.gid);
 
         const title = r.parent?.body
@@ -179,57 +202,80 @@ export async function fetchDebates(
       }
     } catch (err) {
       console.error(`[twfy] Debate search error (term="${term}"):`, err);
+      failed++;
     }
   }
 
   if (debates.length === 0) {
-    console.log(`[twfy] No debates found for "${milestoneSlug}"`);
-    return;
+    console.log(
+      failed > 0
+        ? `[twfy] No debates fetched for "${milestoneSlug}" (${failed} searches failed)`
+        : `[twfy] No debates found for "${milestoneSlug}"`
+    );
+    return { written: 0, failed };
   }
 
   const db = getDb();
   const upsert = db.prepare(`
-    INSERT OR REPLACE INTO debates
-      (id, milestone_slug, title, date, house, url, source)
-    VALUES (?, ?, ?, ?, ?, ?, 'theyworkforyou')
+    INSERT INTO debates (id, title, date, house, url, source)
+    VALUES (?, ?, ?, ?, ?, 'theyworkforyou')
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      date = excluded.date,
+      house = excluded.house,
+      url = excluded.url,
+      fetched_at = datetime('now')
+  `);
+
+  // A debate matched by several milestones' search terms is linked to each
+  const link = db.prepare(`
+    INSERT INTO debate_milestones (debate_id, milestone_slug, confidence)
+    VALUES (?, ?, 'medium')
+    ON CONFLICT(debate_id, milestone_slug) DO NOTHING
   `);
 
   const insertAll = db.transaction(
     (items: typeof debates) => {
       for (const d of items) {
-        upsert.run(d.id, milestoneSlug, d.title, d.date, d.house, d.url);
+        upsert.run(d.id, d.title, d.date, d.house, d.url);
+        link.run(d.id, milestoneSlug);
       }
     }
   );
 
   insertAll(debates);
   console.log(
-    `[twfy] Stored ${debates.length} debates for "${milestoneSlug}"`
+    `[twfy] Stored ${debates.length} debates for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
   );
+  return { written: debates.length, failed, sourceUrl: `${TWFY_API_URL}/getDebates` };
 }
 
 /**
  * Fetch written questions from TheyWorkForYou for a given milestone.
  */
 export async function fetchWrittenQuestions(
-  milestoneSlug: MilestoneSlug
-): Promise<void> {
+  milestoneSlug: MilestoneSlug,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const apiKey = getApiKey();
-  if (!apiKey) return;
+  if (!apiKey) return { written: 0, failed: 0 };
 
   const mapping = getMilestoneMapping(milestoneSlug);
   if (!mapping) {
     console.error(`No milestone mapping found for slug: ${milestoneSlug}`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
   // Use the same debate search terms for written questions
   const searchTerms = mapping.debateSearchTerms;
   if (searchTerms.length === 0) {
     console.log(`[twfy] No search terms for written questions for "${milestoneSlug}", skipping.`);
-    return;
+    return { written: 0, failed: 0 };
   }
 
+  const fromDate = options.since ?? FROM_DATE;
+
   const seenGids = new Set<string>();
   const questions: Array<{
     id: string;
@@ -240,12 +286,18 @@ export async function fetchWrittenQuestions(
     answered: boolean;
   }> = [];
 
+  let failed = 0;
+
   for (const term of searchTerms) {
     try {
       const results = await searchWrans(apiKey, term);
+      if (!results) {
+        failed++;
+        continue;
+      }
       for (const r of results) {
         if (!r.gid || seenGids.has(r.gid)) continue;
-        if (r.hdate < FROM_DATE) continue;
+        if (r.hdate < fromDate) continue;
         seenGids.add(r.gid);
 
         const title = cleanText(r.body, 200);
@@ -265,12 +317,17 @@ export async function fetchWrittenQuestions(
       }
     } catch (err) {
       console.error(`[twfy] Written question search error (term="${term}"):`, err);
+      failed++;
     }
   }
 
   if (questions.length === 0) {
-    console.log(`[twfy] No written questions found for "${milestoneSlug}"`);
-    return;
+    console.log(
+      failed > 0
+        ? `[twfy] No written questions fetched for "${milestoneSlug}" (${failed} searches failed)`
+        : `[twfy] No written questions found for "${milestoneSlug}"`
+    );
+    return { written: 0, failed };
   }
 
   const db = getDb();
@@ -298,6 +355,8 @@ export async function fetchWrittenQuestions(
 
   insertAll(questions);
   console.log(
-    `[twfy] Stored ${questions.length} written questions for "${milestoneSlug}"`
+    `[twfy] Stored ${questions.length} written questions for "${milestoneSlug}"` +
+      (failed > 0 ? ` (${failed} searches failed)` : "")
   );
+  return { written: questions.length, failed, sourceUrl: `${TWFY_API_URL}/getWrans` };
 }
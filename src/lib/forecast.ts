@@ -0,0 +1,421 @@
+import type { ComparisonMode, KpiSnapshot, MEFramework, Milestone, RagThresholds } from "./types";
+import type { DeliveryProgress } from "./delivery-progress";
+import { annualTarget, findBaseline } from "./kpi-presentation";
+import { snapshotLabel, snapshotMidpoint } from "./periods";
+
+// ---------------------------------------------------------------------------
+// KPI trajectories and forecasts
+//
+// A milestone's status should depend on where its KPI is heading, not on how
+// close the latest value is to the target. We fit a few simple trend models
+// to the recent history — linear, log-linear (constant growth rate) and, for
+// monthly or quarterly series with enough data, linear with a seasonal
+// pattern — keep the one with the lowest AICc, and project it to the target
+// date with a 90% prediction band. Observations sit at their period's
+// midpoint, so a financial year and a quarter dated by different days of the
+// same span line up. The RAG status compares that projected
+// outcome with the target, using the thresholds in the milestone's
+// presentation config.
+// ---------------------------------------------------------------------------
+
+export type ForecastModel = "linear" | "log-linear" | "seasonal";
+export type RagStatus = "green" | "amber" | "red";
+
+export interface ForecastPoint {
+  date: string; // ISO date
+  value: number;
+  lower: number; // 90% prediction band
+  upper: number;
+}
+
+export interface Forecast {
+  model: ForecastModel;
+  fittedFrom: string; // label of the first observation in the fitting window
+  fittedPoints: number;
+  annualChange: number; // trend change per year at the latest observation, in KPI units
+  projection: ForecastPoint[]; // from the latest observation to the target date
+  atTarget: ForecastPoint;
+}
+
+/** A projected value at the target date, in the target's terms. */
+export interface ProjectedOutcome {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+const DAY_MS = 86_400_000;
+const YEAR_MS = 365.25 * DAY_MS;
+/** Only the recent trend matters; older data mostly reflects other policies. */
+const FIT_WINDOW_YEARS = 3;
+const MIN_POINTS = 4;
+const Z_90 = 1.645;
+
+function ms(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+/** When an observation applies: the midpoint of its period. */
+function observedAt(snapshot: KpiSnapshot): number {
+  return ms(snapshotMidpoint(snapshot));
+}
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function addMonths(time: number, months: number): number {
+  const d = new Date(time);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, d.getUTCDate());
+}
+
+// ---------------------------------------------------------------------------
+// Target dates
+// ---------------------------------------------------------------------------
+
+const SEASON_END: Record<string, string> = {
+  spring: "03-31",
+  summer: "06-30",
+  autumn: "09-30",
+  winter: "12-31",
+};
+
+/**
+ * Read a milestone target date such as "Spring 2029" or "2030" as an ISO
+ * date. A season is taken as the end of the quarter it starts in, so
+ * "Spring 2029" is 31 March 2029 — the end of the 2028-29 financial year that
+ * departments report against. A bare year means its last day.
+ */
+export function resolveTargetDate(text: string): string | null {
+  const match = /(?:(spring|summer|autumn|winter)\s+)?((?:19|20)\d{2})/i.exec(text);
+  if (!match) return null;
+  const season = match[1]?.toLowerCase();
+  return `${match[2]}-${season ? SEASON_END[season] : "12-31"}`;
+}
+
+// ---------------------------------------------------------------------------
+// Fitting
+// ---------------------------------------------------------------------------
+
+interface Cadence {
+  stepMonths: number;
+  seasons: number; // periods per year for the seasonal model; 0 if not seasonal
+}
+
+function detectCadence(times: number[]): Cadence {
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / DAY_MS).sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)] ?? 365;
+  if (median <= 45) return { stepMonths: 1, seasons: 12 };
+  if (median <= 135) return { stepMonths: 3, seasons: 4 };
+  if (median <= 200) return { stepMonths: 6, seasons: 0 };
+  return { stepMonths: 12, seasons: 0 };
+}
+
+function seasonOf(time: number, seasons: number): number {
+  const month = new Date(time).getUTCMonth();
+  return seasons === 12 ? month : Math.floor(month / 3);
+}
+
+/** Ordinary least squares via the normal equations; null if singular. */
+function leastSquares(rows: number[][], y: number[]): number[] | null {
+  const k = rows[0].length;
+  const a = Array.from({ length: k }, () => new Array<number>(k + 1).fill(0));
+  rows.forEach((row, n) => {
+    for (let i = 0; i < k; i++) {
+      for (let j = 0; j < k; j++) a[i][j] += row[i] * row[j];
+      a[i][k] += row[i] * y[n];
+    }
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < k; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < k; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= k; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return a.map((row, i) => row[k] / row[i]);
+}
+
+interface Fit {
+  model: ForecastModel;
+  k: number; // parameters
+  rss: number; // residual sum of squares on the KPI's own scale
+  sigma: number; // residual standard error on the fitted scale
+  slope: number; // trend per year on the fitted scale
+  central: (t: number, time: number) => number; // on the fitted scale
+  log: boolean;
+}
+
+function fitModel(
+  model: ForecastModel,
+  ts: number[],
+  times: number[],
+  values: number[],
+  seasons: number
+): Fit | null {
+  const log = model === "log-linear";
+  const y = log ? values.map(Math.log) : values;
+  const design = (t: number, time: number): number[] => {
+    const row = [1, t];
+    if (model === "seasonal") {
+      const season = seasonOf(time, seasons);
+      for (let s = 1; s < seasons; s++) row.push(season === s ? 1 : 0);
+    }
+    return row;
+  };
+
+  const rows = ts.map((t, i) => design(t, times[i]));
+  const coef = leastSquares(rows, y);
+  if (!coef) return null;
+  const central = (t: number, time: number) =>
+    design(t, time).reduce((sum, x, i) => sum + x * coef[i], 0);
+
+  const k = coef.length;
+  const fitted = ts.map((t, i) => central(t, times[i]));
+  const residuals = fitted.map((f, i) => y[i] - f);
+  const rss = fitted.reduce((sum, f, i) => sum + ((log ? Math.exp(f) : f) - values[i]) ** 2, 0);
+  const df = Math.max(1, ts.length - k);
+  const sigma = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / df);
+  return { model, k, rss, sigma, slope: coef[1], central, log };
+}
+
+/** Small-sample Akaike criterion; lower is better. */
+function aicc(fit: Fit, n: number): number {
+  const rss = Math.max(fit.rss, 1e-12);
+  const correction = n - fit.k - 1 > 0 ? (2 * fit.k * (fit.k + 1)) / (n - fit.k - 1) : Infinity;
+  return n * Math.log(rss / n) + 2 * fit.k + correction;
+}
+
+/**
+ * Fit trend models to a KPI history (oldest first, one series) and project
+ * the best to `targetDate`. Returns null with fewer than four observations.
+ * `bounds` clamps projections, e.g. 0–100 for percentages.
+ */
+export function fitForecast(
+  history: KpiSnapshot[],
+  targetDate: string,
+  bounds: { min?: number; max?: number } = {}
+): Forecast | null {
+  if (history.length < MIN_POINTS) return null;
+
+  const latestTime = observedAt(history[history.length - 1]);
+  const recent = history.filter((p) => observedAt(p) >= latestTime - FIT_WINDOW_YEARS * YEAR_MS);
+  const window = recent.length >= MIN_POINTS ? recent : history.slice(-MIN_POINTS);
+
+  const times = window.map(observedAt);
+  const values = window.map((p) => p.value);
+  const origin = times[0];
+  const ts = times.map((t) => (t - origin) / YEAR_MS);
+  const n = ts.length;
+  const cadence = detectCadence(times);
+
+  const candidates: ForecastModel[] = ["linear"];
+  if (values.every((v) => v > 0)) candidates.push("log-linear");
+  if (cadence.seasons > 0 && n >= 2 * cadence.seasons) candidates.push("seasonal");
+
+  const fits = candidates
+    .map((model) => fitModel(model, ts, times, values, cadence.seasons))
+    .filter((fit): fit is Fit => fit !== null);
+  if (fits.length === 0) return null;
+  const best = fits.reduce((a, b) => (aicc(b, n) < aicc(a, n) ? b : a));
+
+  // Prediction band from the trend term; the seasonal terms' own
+  // uncertainty is small next to it over multi-year horizons
+  const meanT = ts.reduce((a, b) => a + b, 0) / n;
+  const sxx = ts.reduce((sum, t) => sum + (t - meanT) ** 2, 0);
+  const clamp = (v: number) => Math.min(bounds.max ?? Infinity, Math.max(bounds.min ?? -Infinity, v));
+  const pointAt = (time: number): ForecastPoint => {
+    const t = (time - origin) / YEAR_MS;
+    const centre = best.central(t, time);
+    const half = Z_90 * best.sigma * Math.sqrt(1 + 1 / n + (sxx > 0 ? (t - meanT) ** 2 / sxx : 0));
+    const toScale = (v: number) => clamp(best.log ? Math.exp(v) : v);
+    return {
+      date: isoDate(time),
+      value: toScale(centre),
+      lower: toScale(centre - half),
+      upper: toScale(centre + half),
+    };
+  };
+
+  // Start from the latest observation so the projection joins the line
+  const latest = history[history.length - 1];
+  const projection: ForecastPoint[] = [
+    { date: isoDate(latestTime), value: latest.value, lower: latest.value, upper: latest.value },
+  ];
+  const targetTime = ms(targetDate);
+  for (
+    let time = addMonths(latestTime, cadence.stepMonths);
+    time < targetTime;
+    time = addMonths(time, cadence.stepMonths)
+  ) {
+    projection.push(pointAt(time));
+  }
+  if (targetTime > latestTime) projection.push(pointAt(targetTime));
+
+  const latestFitted = best.central((latestTime - origin) / YEAR_MS, latestTime);
+  return {
+    model: best.model,
+    fittedFrom: snapshotLabel(window[0]),
+    fittedPoints: n,
+    annualChange: best.log ? best.slope * Math.exp(latestFitted) : best.slope,
+    projection,
+    atTarget: projection[projection.length - 1],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Outcomes and status
+// ---------------------------------------------------------------------------
+
+function valueAt(points: ForecastPoint[], time: number, key: keyof Omit<ForecastPoint, "date">): number {
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [ms(points[i - 1].date), ms(points[i].date)];
+    if (time <= b) {
+      const f = b > a ? Math.max(0, (time - a) / (b - a)) : 1;
+      return points[i - 1][key] + f * (points[i][key] - points[i - 1][key]);
+    }
+  }
+  return points[points.length - 1][key];
+}
+
+/**
+ * Total of a projected annual rate (e.g. homes per year) from `from.date` to
+ * the end of the projection, added to the total so far. Summing the band's
+ * ends treats every year's error as moving together, so the range is wide.
+ */
+export function projectCumulative(
+  forecast: Forecast,
+  from: { date: string; cumulative: number }
+): ProjectedOutcome {
+  const points = forecast.projection;
+  const start = ms(from.date);
+  const end = ms(points[points.length - 1].date);
+  const times = [start, ...points.map((p) => ms(p.date)).filter((t) => t > start && t <= end)];
+
+  const total = { value: from.cumulative, lower: from.cumulative, upper: from.cumulative };
+  for (let i = 1; i < times.length; i++) {
+    const years = (times[i] - times[i - 1]) / YEAR_MS;
+    for (const key of ["value", "lower", "upper"] as const) {
+      total[key] += ((valueAt(points, times[i - 1], key) + valueAt(points, times[i], key)) / 2) * years;
+    }
+  }
+  return {
+    value: Math.round(total.value),
+    lower: Math.round(total.lower),
+    upper: Math.round(total.upper),
+  };
+}
+
+/**
+ * Status from the projected share of the target: green at `thresholds.green`
+ * or better; amber at `thresholds.amber`, or if the band's better end reaches
+ * green; red otherwise. The target must be positive.
+ */
+export function ragFromOutcome(
+  outcome: ProjectedOutcome,
+  target: number,
+  higherIsBetter: boolean,
+  thresholds: RagThresholds
+): RagStatus {
+  const share = (v: number) => (higherIsBetter ? v / target : v > 0 ? target / v : Infinity);
+  if (share(outcome.value) >= thresholds.green) return "green";
+  const optimistic = higherIsBetter ? outcome.upper : outcome.lower;
+  return share(outcome.value) >= thresholds.amber || share(optimistic) >= thresholds.green
+    ? "amber"
+    : "red";
+}
+
+// ---------------------------------------------------------------------------
+// Milestone assessment
+// ---------------------------------------------------------------------------
+
+export interface TrajectoryAssessment {
+  forecast: Forecast;
+  targetDate: string; // ISO, resolved from milestone.targetDate
+  mode: ComparisonMode; // presentation.mode, or annualised while a cumulative total is missing
+  /** Projected outcome in the target's terms; null where there is no comparable target. */
+  outcome: ProjectedOutcome | null;
+  comparedWith: number | null; // what outcome is judged against, e.g. one year's share
+  rag: RagStatus | null;
+  /** Projected change per year or, for cumulative targets, delivery per year. */
+  projectedRate: number | null;
+  rateNeeded: number | null; // METrajectory.annualRateNeeded
+}
+
+/**
+ * Project a milestone's KPI to its target date and judge the outcome the
+ * way its presentation.mode compares KPI and target. `history` is the
+ * charted primary series, oldest first. Cumulative targets need `delivery`,
+ * the running total so far, and are judged annualised without it.
+ */
+export function assessTrajectory(
+  milestone: Milestone,
+  history: KpiSnapshot[],
+  framework?: MEFramework,
+  delivery?: DeliveryProgress
+): TrajectoryAssessment | null {
+  const targetDate = resolveTargetDate(milestone.targetDate);
+  if (!targetDate) return null;
+  const bounds = milestone.targetUnit.startsWith("%") ? { min: 0, max: 100 } : { min: 0 };
+  const forecast = fitForecast(history, targetDate, bounds);
+  if (!forecast) return null;
+
+  const { presentation } = milestone;
+  let outcome: ProjectedOutcome | null = null;
+  let comparedWith: number | null = milestone.targetValue;
+  let projectedRate: number | null = forecast.annualChange;
+  const totalSoFar = delivery?.latest ?? null;
+  const mode = presentation.mode === "cumulative" && !totalSoFar ? "annualised" : presentation.mode;
+
+  switch (mode) {
+    case "absolute":
+      outcome = forecast.atTarget;
+      break;
+    case "annualised":
+      outcome = forecast.atTarget;
+      comparedWith = annualTarget(milestone);
+      break;
+    case "cumulative": {
+      if (!totalSoFar) break;
+      outcome = projectCumulative(forecast, totalSoFar);
+      const years = (ms(targetDate) - ms(totalSoFar.date)) / YEAR_MS;
+      projectedRate = years > 0 ? (outcome.value - totalSoFar.cumulative) / years : null;
+      break;
+    }
+    case "delta-from-baseline": {
+      const baseline = findBaseline(milestone, history, framework);
+      if (!baseline) break;
+      const { atTarget } = forecast;
+      outcome = {
+        value: atTarget.value - baseline.value,
+        lower: atTarget.lower - baseline.value,
+        upper: atTarget.upper - baseline.value,
+      };
+      break;
+    }
+    case "comparative":
+      comparedWith = null;
+      break;
+  }
+
+  const rag =
+    outcome && comparedWith && comparedWith > 0 && presentation.rag
+      ? ragFromOutcome(outcome, comparedWith, milestone.higherIsBetter, presentation.rag)
+      : null;
+  return {
+    forecast,
+    targetDate,
+    mode,
+    outcome,
+    comparedWith,
+    rag,
+    projectedRate,
+    rateNeeded: framework?.requiredTrajectory.annualRateNeeded ?? null,
+  };
+}
@@ -0,0 +1,395 @@
+// ---------------------------------------------------------------------------
+// Shared HTTP client for fetchers
+//
+// Every request goes through per-host rate and concurrency limits, a timeout,
+// and retries with exponential backoff on 429/5xx and network errors
+// (honouring Retry-After). Failures come back as structured results rather than
+// exceptions or empty arrays, so callers can tell "no results" from
+// "request failed".
+//
+// HTTP_CACHE_MODE=record saves every response body under data/cache/raw;
+// HTTP_CACHE_MODE=replay serves requests from those files with no network,
+// so a refresh can be rerun offline against a fixed snapshot.
+// ---------------------------------------------------------------------------
+
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { createLimiter, type Limiter } from "./concurrency";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/** Minimum gap between requests to the same host, in milliseconds. */
+const HOST_INTERVALS_MS: Record<string, number> = {
+  "www.gov.uk": 150, // GOV.UK APIs allow ~10 requests/second
+  "content.guardianapis.com": 1_000, // developer key: 1 request/second
+  "newsapi.org": 1_000,
+  "www.theyworkforyou.com": 500,
+  "www.legislation.gov.uk": 250,
+  "bills-api.parliament.uk": 200,
+  "committees-api.parliament.uk": 200,
+};
+const DEFAULT_HOST_INTERVAL_MS = 100;
+
+/** Maximum requests in flight to the same host. */
+const HOST_CONCURRENCY: Record<string, number> = {
+  "content.guardianapis.com": 1,
+  "newsapi.org": 1,
+  "www.theyworkforyou.com": 2,
+};
+const DEFAULT_HOST_CONCURRENCY = 4;
+
+const RAW_CACHE_DIR =
+  process.env.HTTP_CACHE_DIR ?? path.join(process.cwd(), "data", "cache", "raw");
+
+export type HttpCacheMode = "live" | "record" | "replay";
+
+export type HttpErrorKind =
+  | "timeout" // no response within the timeout
+  | "network" // DNS, connection reset, TLS...
+  | "rate-limited" // still 429 after retries
+  | "http" // any other non-2xx status
+  | "parse" // body could not be decoded (e.g. invalid JSON)
+  | "not-recorded"; // replay mode, and no saved response for this request
+
+export interface HttpError {
+  kind: HttpErrorKind;
+  url: string;
+  status?: number;
+  message: string;
+  attempts: number;
+}
+
+export type HttpResult<T> =
+  | { ok: true; data: T; status: number; url: string }
+  | { ok: false; error: HttpError };
+
+export interface HttpOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number; // retries after the first attempt
+}
+
+type BodyReader<T> = (res: Response) => Promise<T>;
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+const nextSlotByHost = new Map<string, number>();
+const limiterByHost = new Map<string, Limiter>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+}
+
+/** The limiter bounding concurrent requests to this URL's host. */
+function hostLimiter(url: string): Limiter {
+  const host = hostOf(url) ?? "";
+  let limiter = limiterByHost.get(host);
+  if (!limiter) {
+    limiter = createLimiter(HOST_CONCURRENCY[host] ?? DEFAULT_HOST_CONCURRENCY);
+    limiterByHost.set(host, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Wait for this host's next free slot. Slots are reserved synchronously, so
+ * concurrent callers queue up rather than all firing at once.
+ */
+async function acquireHostSlot(url: string): Promise<void> {
+  const host = hostOf(url);
+  if (!host) return;
+  const interval = HOST_INTERVALS_MS[host] ?? DEFAULT_HOST_INTERVAL_MS;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByHost.get(host) ?? 0);
+  nextSlotByHost.set(host, slot + interval);
+  if (slot > now) await sleep(slot - now);
+}
+
+// ---------------------------------------------------------------------------
+// Retries
+// ---------------------------------------------------------------------------
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Retry-After is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Record and replay
+// ---------------------------------------------------------------------------
+
+/** Metadata saved alongside each recorded body (<key>.json next to <key>.body). */
+interface RecordedResponse {
+  url: string; // with API keys redacted
+  status: number;
+  contentType: string | null;
+  recordedAt: string;
+}
+
+export function getHttpCacheMode(): HttpCacheMode {
+  const mode = process.env.HTTP_CACHE_MODE;
+  if (mode === "record" || mode === "replay") return mode;
+  return "live";
+}
+
+/**
+ * Recordings are keyed by the redacted URL and Accept header, so a replay
+ * matches whatever API keys (if any) are set when it runs.
+ */
+function recordingKey(url: string, headers: Record<string, string> = {}): string {
+  const accept = Object.entries(headers).find(([name]) => name.toLowerCase() === "accept");
+  return createHash("sha1")
+    .update(`GET ${redactUrl(url)}\n${accept?.[1] ?? ""}`)
+    .digest("hex");
+}
+
+async function saveRecording(key: string, url: string, res: Response, body: ArrayBuffer): Promise<void> {
+  const meta: RecordedResponse = {
+    url: redactUrl(url),
+    status: res.status,
+    contentType: res.headers.get("content-type"),
+    recordedAt: new Date().toISOString(),
+  };
+  await fs.promises.mkdir(RAW_CACHE_DIR, { recursive: true });
+  await fs.promises.writeFile(path.join(RAW_CACHE_DIR, `${key}.body`), new Uint8Array(body));
+  await fs.promises.writeFile(path.join(RAW_CACHE_DIR, `${key}.json`), JSON.stringify(meta, null, 2) + "\n");
+}
+
+/** Rebuild a recorded response, or null if this request was never recorded. */
+async function loadRecording(key: string): Promise<Response | null> {
+  try {
+    const meta = JSON.parse(
+      await fs.promises.readFile(path.join(RAW_CACHE_DIR, `${key}.json`), "utf-8")
+    ) as RecordedResponse;
+    const body = await fs.promises.readFile(path.join(RAW_CACHE_DIR, `${key}.body`));
+    return new Response(body.length > 0 ? new Uint8Array(body) : null, {
+      status: meta.status,
+      headers: meta.contentType ? { "content-type": meta.contentType } : {},
+    });
+  } catch {
+    return null;
+  }
+}
+
+async function replay<T>(url: string, read: BodyReader<T>, options: HttpOptions): Promise<HttpResult<T>> {
+  const res = await loadRecording(recordingKey(url, options.headers));
+  if (!res) {
+    return {
+      ok: false,
+      error: { kind: "not-recorded", url, message: "no recorded response", attempts: 1 },
+    };
+  }
+  if (!res.ok) {
+    return {
+      ok: false,
+      error: {
+        kind: res.status === 429 ? "rate-limited" : "http",
+        url,
+        status: res.status,
+        message: `HTTP ${res.status} (recorded)`,
+        attempts: 1,
+      },
+    };
+  }
+  try {
+    return { ok: true, data: await read(res), status: res.status, url };
+  } catch (err) {
+    return {
+      ok: false,
+      error: {
+        kind: "parse",
+        url,
+        status: res.status,
+        message: err instanceof Error ? err.message : String(err),
+        attempts: 1,
+      },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+type AttemptOutcome<T> =
+  | { final: HttpResult<T> }
+  | { retry: HttpError; retryAfterMs: number | null };
+
+/** One attempt at a request, run while holding a host concurrency slot. */
+async function attemptRequest<T>(
+  url: string,
+  read: BodyReader<T>,
+  options: HttpOptions,
+  attempt: number,
+  record: boolean
+): Promise<AttemptOutcome<T>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  await acquireHostSlot(url);
+
+  try {
+    // The signal also covers reading the body, so a stalled download times out
+    let res = await fetch(url, {
+      headers: options.headers,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    // Record successes and definitive failures (e.g. a 404 while probing
+    // candidate URLs), but not the transient ones that will be retried
+    if (record && (res.ok || !isRetryableStatus(res.status))) {
+      const body = await res.arrayBuffer();
+      await saveRecording(recordingKey(url, options.headers), url, res, body);
+      res = new Response(body.byteLength > 0 ? body : null, {
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers,
+      });
+    }
+
+    if (res.ok) {
+      try {
+        return { final: { ok: true, data: await read(res), status: res.status, url } };
+      } catch (err) {
+        if (isTimeout(err)) throw err;
+        return {
+          final: {
+            ok: false,
+            error: {
+              kind: "parse",
+              url,
+              status: res.status,
+              message: err instanceof Error ? err.message : String(err),
+              attempts: attempt + 1,
+            },
+          },
+        };
+      }
+    }
+
+    const error: HttpError = {
+      kind: res.status === 429 ? "rate-limited" : "http",
+      url,
+      status: res.status,
+      message: res.statusText || `HTTP ${res.status}`,
+      attempts: attempt + 1,
+    };
+    // Drain the body so the connection can be reused
+    await res.arrayBuffer().catch(() => undefined);
+
+    if (!isRetryableStatus(res.status)) return { final: { ok: false, error } };
+    return { retry: error, retryAfterMs: parseRetryAfter(res.headers.get("retry-after")) };
+  } catch (err) {
+    return {
+      retry: {
+        kind: isTimeout(err) ? "timeout" : "network",
+        url,
+        message: isTimeout(err)
+          ? `no response after ${timeoutMs}ms`
+          : err instanceof Error
+            ? (err.cause instanceof Error ? err.cause.message : err.message)
+            : String(err),
+        attempts: attempt + 1,
+      },
+      retryAfterMs: null,
+    };
+  }
+}
+
+async function request<T>(
+  url: string,
+  read: BodyReader<T>,
+  options: HttpOptions = {}
+): Promise<HttpResult<T>> {
+  const mode = getHttpCacheMode();
+  if (mode === "replay") return replay(url, read, options);
+
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const limit = hostLimiter(url);
+
+  for (let attempt = 0; ; attempt++) {
+    // The slot is released before backing off, so other requests can proceed
+    const outcome = await limit(() =>
+      attemptRequest(url, read, options, attempt, mode === "record")
+    );
+    if ("final" in outcome) return outcome.final;
+    if (attempt >= retries) return { ok: false, error: outcome.retry };
+
+    const delay = backoffDelay(attempt, outcome.retryAfterMs);
+    console.error(
+      `[http] ${describeHttpError(outcome.retry)} — retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${retries})`
+    );
+    await sleep(delay);
+  }
+}
+
+function isTimeout(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    (err.name === "TimeoutError" || err.name === "AbortError")
+  );
+}
+
+/** GET a URL and parse the body as JSON. */
+export function fetchJson<T>(url: string, options?: HttpOptions): Promise<HttpResult<T>> {
+  return request(url, (res) => res.json() as Promise<T>, options);
+}
+
+/** GET a URL and return the body as text (HTML, XML, CSV). */
+export function fetchText(url: string, options?: HttpOptions): Promise<HttpResult<string>> {
+  return request(url, (res) => res.text(), options);
+}
+
+/** GET a URL and return the body as bytes (XLSX, ODS, ZIP). */
+export function fetchBytes(url: string, options?: HttpOptions): Promise<HttpResult<Uint8Array>> {
+  return request(url, async (res) => new Uint8Array(await res.arrayBuffer()), options);
+}
+
+const SECRET_PARAMS = ["key", "api-key", "apiKey"];
+
+/** Hide API keys passed as query parameters. */
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of SECRET_PARAMS) {
+      if (parsed.searchParams.has(name)) parsed.searchParams.set(name, "REDACTED");
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** One-line description of a failed request, for logs. */
+export function describeHttpError(error: HttpError): string {
+  const status = error.status ? ` ${error.status}` : "";
+  const attempts = error.attempts > 1 ? ` after ${error.attempts} attempts` : "";
+  return `${error.kind}${status} (${error.message}) for ${redactUrl(error.url)}${attempts}`;
+}
@@ -0,0 +1,157 @@
+import { describeHttpError, fetchJson, fetchText } from "./http";
+import type { KpiDiscoveryStep } from "./types";
+
+// ---------------------------------------------------------------------------
+// Spreadsheet discovery for declarative KPI sources
+//
+// Statistical releases move their files every edition, so KPI sources find
+// the current download by following links rather than pinning a URL. Each
+// discovery step below looks in one kind of place (an HTML page, a GOV.UK
+// Content API page, GOV.UK search results) and matches candidate links
+// against the step's patterns, most specific first.
+// ---------------------------------------------------------------------------
+
+const GOVUK_BASE_URL = "https://www.gov.uk";
+
+interface GovukAttachment {
+  title?: string;
+  url?: string;
+  filename?: string;
+}
+
+interface GovukContentResponse {
+  title?: string;
+  details?: {
+    attachments?: GovukAttachment[];
+    documents?: string[];
+  };
+}
+
+interface GovukSearchResponse {
+  results?: { title: string; link: string }[];
+}
+
+/** A link found on a page, with the text its patterns are matched against. */
+interface Candidate {
+  url: string;
+  text: string;
+}
+
+const SPREADSHEET_PATTERN = /\.(xlsx?|ods)\b/i;
+
+/**
+ * Pick the first candidate matching the earliest pattern, so a specific
+ * pattern ("table 120") beats a broad one ("120") anywhere on the page.
+ */
+function matchCandidate(candidates: Candidate[], patterns: string[]): Candidate | null {
+  for (const pattern of patterns) {
+    const regex = new RegExp(pattern, "i");
+    const found = candidates.find((c) => regex.test(c.text));
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Spreadsheet links in an HTML page or fragment. */
+function extractSpreadsheetLinks(html: string): Candidate[] {
+  const linkRegex = /href=["']([^"']*\.(?:xlsx?|ods)(?:\?[^"']*)?)["'][^>]*>([^<]*)/gi;
+  const candidates: Candidate[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = linkRegex.exec(html)) !== null) {
+    candidates.push({ url: match[1], text: `${match[2].trim()} ${match[1]}` });
+  }
+  return candidates;
+}
+
+/**
+ * Spreadsheet attachments on a GOV.UK Content API page. Some pages list
+ * their files only inside HTML fragments in `details.documents`.
+ */
+async function fetchGovukAttachments(tag: string, path: string): Promise<Candidate[]> {
+  const url = `${GOVUK_BASE_URL}/api/content${path}`;
+  const res = await fetchJson<GovukContentResponse>(url);
+  if (!res.ok) {
+    console.warn(`[${tag}] Content API failed: ${describeHttpError(res.error)}`);
+    return [];
+  }
+
+  const attachments = res.data.details?.attachments ?? [];
+  if (attachments.length > 0) {
+    return attachments
+      .filter((a): a is GovukAttachment & { url: string } => Boolean(a.url))
+      .map((a) => ({ url: a.url, text: `${a.title ?? ""} ${a.filename ?? ""} ${a.url}` }))
+      .filter((c) => SPREADSHEET_PATTERN.test(c.text));
+  }
+  return (res.data.details?.documents ?? []).flatMap(extractSpreadsheetLinks);
+}
+
+async function discoverFromPage(
+  tag: string,
+  step: Extract<KpiDiscoveryStep, { method: "page-links" }>
+): Promise<string | null> {
+  const res = await fetchText(step.url);
+  if (!res.ok) {
+    console.warn(`[${tag}] Failed to load ${step.url}: ${describeHttpError(res.error)}`);
+    return null;
+  }
+  const found = matchCandidate(extractSpreadsheetLinks(res.data), step.linkPatterns);
+  return found ? new URL(found.url, step.url).toString() : null;
+}
+
+async function discoverFromGovukContent(
+  tag: string,
+  step: Extract<KpiDiscoveryStep, { method: "govuk-content" }>
+): Promise<string | null> {
+  const attachments = await fetchGovukAttachments(tag, step.path);
+  const found = matchCandidate(attachments, step.linkPatterns);
+  return found ? new URL(found.url, GOVUK_BASE_URL).toString() : null;
+}
+
+async function discoverFromGovukSearch(
+  tag: string,
+  step: Extract<KpiDiscoveryStep, { method: "govuk-search" }>
+): Promise<string | null> {
+  const params = new URLSearchParams({ q: step.query, count: "5" });
+  if (step.organisation) params.set("filter_organisations", step.organisation);
+  if (step.documentType) params.set("filter_content_store_document_type", step.documentType);
+
+  const res = await fetchJson<GovukSearchResponse>(
+    `${GOVUK_BASE_URL}/api/search.json?${params.toString()}`
+  );
+  if (!res.ok) {
+    console.warn(`[${tag}] Search API failed: ${describeHttpError(res.error)}`);
+    return null;
+  }
+
+  const titleRegex = step.titlePattern ? new RegExp(step.titlePattern, "i") : null;
+  const results = (res.data.results ?? []).filter((r) => !titleRegex || titleRegex.test(r.title));
+  for (const result of results) {
+    const attachments = await fetchGovukAttachments(tag, result.link);
+    const found = matchCandidate(attachments, step.linkPatterns);
+    if (found) return new URL(found.url, GOVUK_BASE_URL).toString();
+  }
+  return null;
+}
+
+/**
+ * Resolve a discovery step to an absolute spreadsheet URL, or null if the
+ * step found nothing. `tag` prefixes log lines, e.g. the source id.
+ */
+export async function discoverSpreadsheet(
+  tag: string,
+  step: KpiDiscoveryStep
+): Promise<string | null> {
+  switch (step.method) {
+    case "url":
+      return step.url;
+    case "page-links":
+      return discoverFromPage(tag, step);
+    case "govuk-content":
+      return discoverFromGovukContent(tag, step);
+    case "govuk-search":
+      return discoverFromGovukSearch(tag, step);
+    default:
+      console.warn(`[${tag}] Discovery method "${step.method}" does not find spreadsheets`);
+      return null;
+  }
+}
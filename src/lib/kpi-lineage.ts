@@ -0,0 +1,50 @@
+import type { KpiSnapshot } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI lineage helpers
+//
+// A milestone's snapshots can come from more than one series when a fetcher
+// falls back (e.g. ONS RHDI → GDP). Values from different series are not
+// comparable, so charts only plot the series of the latest data point and
+// report how many points were left out.
+// ---------------------------------------------------------------------------
+
+export interface KpiSeriesSplit {
+  /** Points from the same series as the latest point, oldest first. */
+  charted: KpiSnapshot[];
+  /** Points from any other series (or with no recorded series). */
+  excluded: KpiSnapshot[];
+  /** Series of the latest point, or null if it predates provenance. */
+  seriesId: string | null;
+}
+
+/**
+ * Split a date-ordered KPI history into the latest point's series and the rest.
+ */
+export function splitLatestSeries(history: KpiSnapshot[]): KpiSeriesSplit {
+  if (history.length === 0) {
+    return { charted: [], excluded: [], seriesId: null };
+  }
+
+  const seriesId = history[history.length - 1].seriesId ?? null;
+  const charted: KpiSnapshot[] = [];
+  const excluded: KpiSnapshot[] = [];
+
+  for (const point of history) {
+    if ((point.seriesId ?? null) === seriesId) {
+      charted.push(point);
+    } else {
+      excluded.push(point);
+    }
+  }
+
+  return { charted, excluded, seriesId };
+}
+
+/**
+ * Distinct series IDs among the given points, in first-seen order.
+ * Points with no recorded series are reported as "unrecorded".
+ */
+export function listSeries(points: KpiSnapshot[]): string[] {
+  return [...new Set(points.map((p) => p.seriesId ?? "unrecorded"))];
+}
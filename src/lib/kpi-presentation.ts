@@ -0,0 +1,76 @@
+import { calendarYearPeriod, financialYearPeriod, monthPeriod, snapshotMidpoint } from "./periods";
+import type { KpiSnapshot, MEFramework, Milestone } from "./types";
+
+// ---------------------------------------------------------------------------
+// Numbers behind each comparison mode (see KpiPresentation in types.ts).
+// Components format these; the mode decides which apply.
+// ---------------------------------------------------------------------------
+
+/** One year's share of an annualised or cumulative target, e.g. 300k homes. */
+export function annualTarget(milestone: Milestone): number | null {
+  const years = milestone.presentation.periodYears;
+  return years && milestone.targetValue > 0 ? Math.round(milestone.targetValue / years) : null;
+}
+
+/** Value of the reference line drawn on the KPI chart, if any. */
+export function referenceLineValue(milestone: Milestone): number | undefined {
+  switch (milestone.presentation.referenceLine) {
+    case "target":
+      return milestone.targetValue > 0 ? milestone.targetValue : undefined;
+    case "annual-rate":
+      return annualTarget(milestone) ?? undefined;
+    case "none":
+      return undefined;
+  }
+}
+
+/** Publication of the Plan for Change; the baseline where nothing sets one. */
+export const PLAN_FOR_CHANGE_START = "2024-12-05";
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Last day of a baseline written the way me-framework.json writes them:
+ * "2024-03-31", "September 2024", "2023-24" (taken as the financial year,
+ * which also picks out the school year) or "2024". Null if unrecognised.
+ */
+function baselineEnd(text: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const month = /([A-Za-z]{3,9})\s+((?:19|20)\d{2})/.exec(text);
+  const monthIndex = month ? MONTH_NAMES.indexOf(month[1].slice(0, 3).toLowerCase()) : -1;
+  if (month && monthIndex >= 0) return monthPeriod(Number(month[2]), monthIndex + 1).end;
+  const range = /((?:19|20)\d{2})\s*[-/]\s*(\d{2})\b/.exec(text);
+  if (range) return financialYearPeriod(Number(range[1]) + 1).end;
+  const year = /\b((?:19|20)\d{2})\b/.exec(text);
+  return year ? calendarYearPeriod(Number(year[1])).end : null;
+}
+
+/**
+ * The date a milestone's progress is measured from: its presentation's
+ * baselineDate, else its M&E framework's baseline, else the Plan for Change.
+ */
+export function resolveBaselineDate(milestone: Milestone, framework?: MEFramework): string {
+  return (
+    milestone.presentation.baselineDate ??
+    (framework ? baselineEnd(framework.baseline.date) : null) ??
+    PLAN_FOR_CHANGE_START
+  );
+}
+
+/**
+ * The value a series had at `date`: the latest snapshot whose period's
+ * midpoint falls on or before it. Null if the series starts later.
+ */
+export function snapshotAsOf(history: KpiSnapshot[], date: string): KpiSnapshot | null {
+  const before = history.filter((s) => snapshotMidpoint(s) <= date);
+  return before.length > 0 ? before[before.length - 1] : null;
+}
+
+/** The snapshot a milestone's progress is measured from, or null if none is stored. */
+export function findBaseline(
+  milestone: Milestone,
+  history: KpiSnapshot[],
+  framework?: MEFramework
+): KpiSnapshot | null {
+  return snapshotAsOf(history, resolveBaselineDate(milestone, framework));
+}
@@ -0,0 +1,195 @@
+import { getDb } from "./db";
+import { storeKpiSnapshots, type KpiDataPoint, type KpiProvenance } from "./kpi-store";
+import type { MilestoneSlug } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI quarantine
+//
+// Batches that break their source's validation rules (kpi-validation.ts) are
+// held in kpi_quarantine rather than written to kpi_snapshots, so the charts
+// keep showing the last values that passed. A person then approves a batch
+// (storing it exactly as it would have been stored) or rejects it, with
+// src/scripts/kpi-quarantine.ts. Until then the milestone page shows a warning.
+// The decision sticks: a source that returns the same batch again is not held
+// a second time.
+// ---------------------------------------------------------------------------
+
+export type QuarantineStatus = "pending" | "approved" | "rejected" | "superseded";
+
+export interface QuarantinedBatch {
+  id: number;
+  milestoneSlug: MilestoneSlug;
+  metricId: string;
+  sourceId: string;
+  points: KpiDataPoint[];
+  provenance: KpiProvenance;
+  issues: string[];
+  status: QuarantineStatus;
+  createdAt: string; // SQLite UTC datetime
+  reviewedAt: string | null;
+}
+
+interface QuarantineRow {
+  id: number;
+  milestoneSlug: MilestoneSlug;
+  metricId: string;
+  sourceId: string;
+  points: string;
+  provenance: string;
+  issues: string;
+  status: QuarantineStatus;
+  createdAt: string;
+  reviewedAt: string | null;
+}
+
+const SELECT_BATCH = `
+  SELECT id, milestone_slug as milestoneSlug, metric_id as metricId, source_id as sourceId,
+         points, provenance,
+         issues, status, created_at as createdAt, reviewed_at as reviewedAt
+  FROM kpi_quarantine`;
+
+function fromRow(row: QuarantineRow): QuarantinedBatch {
+  return {
+    ...row,
+    points: JSON.parse(row.points) as KpiDataPoint[],
+    provenance: JSON.parse(row.provenance) as KpiProvenance,
+    issues: JSON.parse(row.issues) as string[],
+  };
+}
+
+/**
+ * Hold a batch of one metric's values for review. A source that keeps
+ * returning the same suspect batch reuses its pending entry rather than
+ * adding one per refresh, and a batch with the same points as one already
+ * approved or rejected returns that batch and its decision instead of being
+ * held again.
+ */
+export function quarantineKpiBatch(
+  milestoneSlug: MilestoneSlug,
+  metricId: string,
+  sourceId: string,
+  points: KpiDataPoint[],
+  provenance: KpiProvenance,
+  issues: string[]
+): { id: number; status: QuarantineStatus } {
+  const db = getDb();
+  const pointsJson = JSON.stringify(points);
+  const issuesJson = JSON.stringify(issues);
+
+  const quarantine = db.transaction((): { id: number; status: QuarantineStatus } => {
+    const reviewed = db
+      .prepare(
+        `SELECT id, status FROM kpi_quarantine
+         WHERE source_id = ? AND metric_id = ? AND status IN ('approved', 'rejected') AND points = ?
+         ORDER BY id DESC LIMIT 1`
+      )
+      .get(sourceId, metricId, pointsJson) as { id: number; status: QuarantineStatus } | undefined;
+    if (reviewed) return reviewed;
+
+    const pending = db
+      .prepare(
+        `SELECT id, points, issues FROM kpi_quarantine
+         WHERE source_id = ? AND metric_id = ? AND status = 'pending'
+         ORDER BY id DESC LIMIT 1`
+      )
+      .get(sourceId, metricId) as { id: number; points: string; issues: string } | undefined;
+    if (pending && pending.points === pointsJson && pending.issues === issuesJson) {
+      return { id: pending.id, status: "pending" };
+    }
+
+    const result = db
+      .prepare(
+        `INSERT INTO kpi_quarantine
+           (milestone_slug, metric_id, source_id, points, provenance, issues)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(milestoneSlug, metricId, sourceId, pointsJson, JSON.stringify(provenance), issuesJson);
+    return { id: Number(result.lastInsertRowid), status: "pending" };
+  });
+
+  return quarantine();
+}
+
+/**
+ * Retire a source's pending batches for a metric once newer data for it has
+ * been stored, so the warning does not outlive the problem.
+ */
+export function supersedeQuarantinedBatches(sourceId: string, metricId: string): number {
+  return getDb()
+    .prepare(
+      `UPDATE kpi_quarantine SET status = 'superseded', reviewed_at = datetime('now')
+       WHERE source_id = ? AND metric_id = ? AND status = 'pending'`
+    )
+    .run(sourceId, metricId).changes;
+}
+
+export function getQuarantinedBatch(id: number): QuarantinedBatch | undefined {
+  const row = getDb().prepare(`${SELECT_BATCH} WHERE id = ?`).get(id) as QuarantineRow | undefined;
+  return row ? fromRow(row) : undefined;
+}
+
+/** Quarantined batches, newest first, optionally for one milestone or status. */
+export function getQuarantinedBatches(
+  filter: { milestoneSlug?: MilestoneSlug; status?: QuarantineStatus } = {}
+): QuarantinedBatch[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.milestoneSlug) {
+    conditions.push("milestone_slug = ?");
+    params.push(filter.milestoneSlug);
+  }
+  if (filter.status) {
+    conditions.push("status = ?");
+    params.push(filter.status);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getDb()
+    .prepare(`${SELECT_BATCH}${where} ORDER BY id DESC`)
+    .all(...params) as QuarantineRow[];
+  return rows.map(fromRow);
+}
+
+/**
+ * Store a pending batch as-is and mark it approved. Older pending batches
+ * from the same source and metric are superseded. Returns undefined if the batch is
+ * missing or already reviewed.
+ */
+export function approveQuarantinedBatch(
+  id: number
+): { stored: number; revised: number } | undefined {
+  const db = getDb();
+
+  const approve = db.transaction(() => {
+    const batch = getQuarantinedBatch(id);
+    if (!batch || batch.status !== "pending") return undefined;
+
+    const result = storeKpiSnapshots(
+      batch.milestoneSlug,
+      batch.metricId,
+      batch.points,
+      batch.provenance
+    );
+    db.prepare(
+      `UPDATE kpi_quarantine SET status = 'superseded', reviewed_at = datetime('now')
+       WHERE source_id = ? AND metric_id = ? AND status = 'pending' AND id < ?`
+    ).run(batch.sourceId, batch.metricId, id);
+    db.prepare(
+      "UPDATE kpi_quarantine SET status = 'approved', reviewed_at = datetime('now') WHERE id = ?"
+    ).run(id);
+    return result;
+  });
+
+  return approve();
+}
+
+/** Mark a pending batch rejected. Returns false if it is missing or already reviewed. */
+export function rejectQuarantinedBatch(id: number): boolean {
+  return (
+    getDb()
+      .prepare(
+        `UPDATE kpi_quarantine SET status = 'rejected', reviewed_at = datetime('now')
+         WHERE id = ? AND status = 'pending'`
+      )
+      .run(id).changes > 0
+  );
+}
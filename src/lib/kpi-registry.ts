@@ -0,0 +1,364 @@
+import * as XLSX from "xlsx";
+import { getPrimaryMetric, milestoneMappings } from "./milestones";
+import { describeHttpError, fetchBytes, fetchJson } from "./http";
+import { discoverSpreadsheet } from "./kpi-discovery";
+import { getStoredKpiValues, storeKpiSnapshots, type KpiDataPoint, type KpiProvenance } from "./kpi-store";
+import { validateKpiBatch } from "./kpi-validation";
+import { quarantineKpiBatch, supersedeQuarantinedBatches } from "./kpi-quarantine";
+import { readTable, type TableSeries } from "./table-locator";
+import { onsQuarterlyAdapter } from "./fetchers/ons";
+import { policeWorkforceAdapter } from "./fetchers/police";
+import { eyfspGldAdapter } from "./fetchers/education";
+import type { FetchResult, KpiSourceConfig, KpiValidationRules, MilestoneSlug } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI source registry
+//
+// KPI sources are declared per milestone in milestone-mappings.json (see
+// KpiSourceConfig). The registry does the generic work — discovery, download,
+// date filtering and storage — and hands the parsing to the adapter named in
+// the source's transform. Spreadsheet sources use the "table" adapter, which
+// reads the table specs in the source's tableLocator (see table-locator.ts).
+// Adding or swapping a metric is a config change plus, at most, a small
+// adapter registered below.
+//
+// A source's main series is stored under its milestone's primary metric
+// (unless transform.metric says otherwise). Secondary and leading metrics
+// read from the same workbook are declared in the source's `secondary` list
+// and are validated and stored as series of their own.
+// ---------------------------------------------------------------------------
+
+/** Values an adapter read, and the strategy it used to read them. */
+export interface KpiParseResult {
+  points: KpiDataPoint[];
+  parser: string;
+  sheetName?: string;
+  /** Values for the source's secondary metrics, keyed by metric id. */
+  secondary?: Record<string, KpiDataPoint[]>;
+}
+
+/** Outcome of a custom adapter fetch; mirrors HttpResult. */
+export type KpiFetchOutcome =
+  | (KpiParseResult & { ok: true; sourceUrl: string; seriesId?: string; release?: string })
+  | { ok: false; error: string; sourceUrl?: string };
+
+export interface KpiAdapter {
+  /** Parse a workbook, for "spreadsheet" sources. */
+  parseWorkbook?: (workbook: XLSX.WorkBook, source: KpiSourceConfig) => KpiParseResult;
+  /** Parse a response body, for "ons-timeseries" sources. */
+  parseJson?: (data: unknown) => KpiParseResult;
+  /** Discover, download and parse in one go, for "custom" sources. */
+  fetch?: (source: KpiSourceConfig) => Promise<KpiFetchOutcome>;
+}
+
+function toDataPoints(series: TableSeries): KpiDataPoint[] {
+  return series.points.map(({ period, value }) => ({
+    value,
+    date: period.date,
+    label: period.label,
+    period: period.span,
+  }));
+}
+
+/**
+ * Read a source's secondary metrics from the workbook its main series came
+ * from, using each metric's table specs against the source's sheet patterns.
+ * Points record the sheet and spec they were read from; metrics with no
+ * matching table are left out.
+ */
+export function readSecondarySeries(
+  workbook: XLSX.WorkBook,
+  source: KpiSourceConfig
+): Record<string, KpiDataPoint[]> {
+  const found: Record<string, KpiDataPoint[]> = {};
+  if (!source.tableLocator) return found;
+
+  for (const secondary of source.secondary ?? []) {
+    const locator = { sheets: source.tableLocator.sheets, tables: secondary.tables };
+    const series = readTable(workbook, locator, `${source.id}:${secondary.metric}`);
+    if (!series) continue;
+    found[secondary.metric] = toDataPoints(series).map((point) => ({
+      ...point,
+      provenance: { sheetName: series.sheetName, parser: series.specId },
+    }));
+  }
+  return found;
+}
+
+/** Reads a workbook with the source's declarative table specs. */
+const tableAdapter: KpiAdapter = {
+  parseWorkbook: (workbook, source) => {
+    const series = source.tableLocator ? readTable(workbook, source.tableLocator, source.id) : null;
+    if (!series) return { points: [], parser: "table" };
+    return {
+      points: toDataPoints(series),
+      parser: series.specId,
+      sheetName: series.sheetName,
+      secondary: readSecondarySeries(workbook, source),
+    };
+  },
+};
+
+const ADAPTERS: Record<string, KpiAdapter> = {
+  table: tableAdapter,
+  "ons-quarterly": onsQuarterlyAdapter,
+  "police-workforce": policeWorkforceAdapter,
+  "eyfsp-gld": eyfspGldAdapter,
+};
+
+const ONS_BASE_URL = "https://www.ons.gov.uk";
+
+/** Every declared KPI source for the given milestones, in config order. */
+export function getKpiSources(
+  slugs?: MilestoneSlug[]
+): Array<{ slug: MilestoneSlug; source: KpiSourceConfig }> {
+  return milestoneMappings
+    .filter((m) => !slugs || slugs.includes(m.slug))
+    .flatMap((m) => m.kpiSources.map((source) => ({ slug: m.slug, source })));
+}
+
+// ---------------------------------------------------------------------------
+// Source types
+// ---------------------------------------------------------------------------
+
+async function fetchSpreadsheet(
+  source: KpiSourceConfig,
+  parseWorkbook: NonNullable<KpiAdapter["parseWorkbook"]>
+): Promise<KpiFetchOutcome> {
+  const tag = source.id;
+  const tried = new Set<string>();
+  let outcome: KpiFetchOutcome = { ok: false, error: "No spreadsheet found" };
+
+  for (const step of source.discovery) {
+    const url = await discoverSpreadsheet(tag, step);
+    if (!url || tried.has(url)) continue;
+    tried.add(url);
+
+    console.log(`[${tag}] Downloading ${url}`);
+    const res = await fetchBytes(url);
+    if (!res.ok) {
+      console.error(`[${tag}] Failed to download spreadsheet: ${describeHttpError(res.error)}`);
+      outcome = { ok: false, error: "Spreadsheet download failed", sourceUrl: url };
+      continue;
+    }
+
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(res.data, { type: "array" });
+    } catch (err) {
+      console.error(`[${tag}] Failed to parse spreadsheet from ${url}:`, err);
+      outcome = { ok: false, error: "Spreadsheet could not be parsed", sourceUrl: url };
+      continue;
+    }
+
+    const parsed = parseWorkbook(workbook, source);
+    if (parsed.points.length > 0) return { ok: true, ...parsed, sourceUrl: url };
+    outcome = { ok: false, error: "No data points extracted", sourceUrl: url };
+  }
+  return outcome;
+}
+
+async function fetchOnsTimeSeries(
+  source: KpiSourceConfig,
+  parseJson: NonNullable<KpiAdapter["parseJson"]>
+): Promise<KpiFetchOutcome> {
+  const tag = source.id;
+  let outcome: KpiFetchOutcome = { ok: false, error: "All series failed" };
+
+  for (const step of source.discovery) {
+    if (step.method !== "ons-series") continue;
+    const url = `${ONS_BASE_URL}/${step.topicPath}/timeseries/${step.seriesId.toLowerCase()}/${step.datasetId.toLowerCase()}/data`;
+    console.log(`[${tag}] Trying series ${step.seriesId} (${step.label}): ${url}`);
+
+    const res = await fetchJson<{ description?: { releaseDate?: string } }>(url, {
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) {
+      console.error(`[${tag}] Series ${step.seriesId} failed: ${describeHttpError(res.error)}`);
+      continue;
+    }
+
+    const parsed = parseJson(res.data);
+    if (parsed.points.length === 0) {
+      console.error(`[${tag}] Series ${step.seriesId} returned no usable values`);
+      outcome = { ok: false, error: "No valid data points", sourceUrl: url };
+      continue;
+    }
+
+    const releaseDate = res.data.description?.releaseDate?.slice(0, 10);
+    return {
+      ok: true,
+      ...parsed,
+      sourceUrl: url,
+      seriesId: `${step.datasetId}/${step.seriesId}`,
+      release: releaseDate ? `${step.datasetId} ${releaseDate}` : url,
+    };
+  }
+  return outcome;
+}
+
+// ---------------------------------------------------------------------------
+// Running a source
+// ---------------------------------------------------------------------------
+
+function fetchSource(source: KpiSourceConfig, adapter: KpiAdapter): Promise<KpiFetchOutcome> {
+  switch (source.sourceType) {
+    case "spreadsheet":
+      if (adapter.parseWorkbook) return fetchSpreadsheet(source, adapter.parseWorkbook);
+      break;
+    case "ons-timeseries":
+      if (adapter.parseJson) return fetchOnsTimeSeries(source, adapter.parseJson);
+      break;
+    case "custom":
+      if (adapter.fetch) return adapter.fetch(source);
+      break;
+  }
+  return Promise.resolve({
+    ok: false,
+    error: `Adapter "${source.transform.adapter}" cannot read ${source.sourceType} sources`,
+  });
+}
+
+/**
+ * Discover, download and parse a KPI source with its adapter, without
+ * storing anything. Replaying recorded responses through this (see
+ * HTTP_CACHE_MODE in http.ts) exercises the whole read path offline.
+ */
+export function fetchKpiSource(source: KpiSourceConfig): Promise<KpiFetchOutcome> {
+  const adapter = ADAPTERS[source.transform.adapter];
+  return adapter
+    ? fetchSource(source, adapter)
+    : Promise.resolve({ ok: false, error: `Unknown adapter "${source.transform.adapter}"` });
+}
+
+type SeriesOutcome =
+  | { ok: true; stored: number }
+  | { ok: false; error: string };
+
+/**
+ * Store one metric's values from a fetched source. Points before
+ * `transform.since` are dropped, and a period reported twice keeps its last
+ * value (the most recent revision). Periods that are new or changed since the
+ * last store are validated; a batch that breaks the rules is quarantined
+ * instead of stored, unless the same batch was already approved (it is
+ * stored) or rejected (it is skipped).
+ */
+function storeSeries(
+  slug: MilestoneSlug,
+  source: KpiSourceConfig,
+  metricId: string,
+  fetched: KpiDataPoint[],
+  provenance: KpiProvenance,
+  validation: KpiValidationRules | undefined
+): SeriesOutcome {
+  const tag = source.id;
+  const read = fetched.filter(
+    (point) => !source.transform.since || point.date >= source.transform.since
+  );
+  const byDate = new Map<string, KpiDataPoint>();
+  for (const point of read) byDate.set(point.date, point);
+  const points = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length === 0) {
+    const since = source.transform.since ? ` since ${source.transform.since}` : "";
+    const error = `No ${metricId} data points${since}`;
+    console.error(`[${tag}] ${error}`);
+    return { ok: false, error };
+  }
+
+  const storedValues = getStoredKpiValues(slug, metricId);
+  const changed = new Set(
+    points
+      .filter((point) => {
+        const previous = storedValues.get(point.date);
+        const seriesId = point.provenance?.seriesId ?? provenance.seriesId;
+        return !previous || previous.value !== point.value || previous.seriesId !== seriesId;
+      })
+      .map((point) => point.date)
+  );
+
+  const issues = validation ? validateKpiBatch(read, points, validation, changed) : [];
+  if (issues.length > 0) {
+    const batch = quarantineKpiBatch(slug, metricId, source.id, points, provenance, issues);
+    if (batch.status === "rejected") {
+      console.log(`[${tag}] Skipped ${metricId} batch: same as rejected batch #${batch.id}`);
+      return { ok: true, stored: 0 };
+    }
+    if (batch.status !== "approved") {
+      const error = `Quarantined ${metricId} batch #${batch.id}: ${issues.join("; ")}`;
+      console.error(`[${tag}] ${error}`);
+      return { ok: false, error };
+    }
+    console.log(`[${tag}] Storing ${metricId} batch: same as approved batch #${batch.id}`);
+  }
+
+  const { stored, revised } = storeKpiSnapshots(slug, metricId, points, provenance);
+  supersedeQuarantinedBatches(source.id, metricId);
+
+  const latest = points[points.length - 1];
+  console.log(
+    `[${tag}] Stored ${points.length} ${metricId} snapshots (${revised} revised). ` +
+      `Latest: ${latest.value} (${latest.label})`
+  );
+  return { ok: true, stored };
+}
+
+/**
+ * Fetch a KPI source and store its main series and any secondary metrics.
+ * The source fails if its main series cannot be stored; a secondary metric
+ * that is missing or quarantined only counts as a failed request.
+ */
+export async function runKpiSource(
+  slug: MilestoneSlug,
+  source: KpiSourceConfig
+): Promise<FetchResult> {
+  const tag = source.id;
+  const outcome = await fetchKpiSource(source);
+
+  if (!outcome.ok) {
+    console.error(`[${tag}] ${outcome.error}`);
+    return { written: 0, failed: 1, error: outcome.error, sourceUrl: outcome.sourceUrl };
+  }
+
+  const provenance: KpiProvenance = {
+    seriesId: outcome.seriesId ?? source.transform.seriesId,
+    sourceUrl: outcome.sourceUrl,
+    sheetName: outcome.sheetName,
+    parser: outcome.parser,
+    release: outcome.release,
+  };
+
+  const metricId = source.transform.metric ?? getPrimaryMetric(slug).id;
+  const main = storeSeries(slug, source, metricId, outcome.points, provenance, source.validation);
+  if (!main.ok) {
+    return { written: 0, failed: 1, error: main.error, sourceUrl: outcome.sourceUrl };
+  }
+
+  let written = main.stored;
+  const errors: string[] = [];
+  for (const secondary of source.secondary ?? []) {
+    const points = outcome.secondary?.[secondary.metric] ?? [];
+    if (points.length === 0) {
+      const error = `No ${secondary.metric} values found`;
+      console.error(`[${tag}] ${error}`);
+      errors.push(error);
+      continue;
+    }
+    const result = storeSeries(
+      slug,
+      source,
+      secondary.metric,
+      points,
+      { ...provenance, seriesId: secondary.seriesId },
+      secondary.validation
+    );
+    if (result.ok) written += result.stored;
+    else errors.push(result.error);
+  }
+
+  return {
+    written,
+    failed: errors.length,
+    error: errors.length > 0 ? errors.join("; ") : undefined,
+    sourceUrl: outcome.sourceUrl,
+  };
+}
@@ -0,0 +1,162 @@
+import { getDb } from "./db";
+import type { KpiPeriod, MilestoneSlug } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI snapshot storage shared by all KPI fetchers
+//
+// kpi_snapshots holds the latest value for each metric and period and is what
+// the dashboard charts. A milestone's metrics (its primary KPI plus any
+// secondary and leading indicators, see KpiMetric) are separate series.
+//
+// kpi_vintages is append-only: every time a fetch returns a value for a
+// period that differs from the last one we recorded (or the first value we
+// see for that period), it is stored alongside the release it came from. This
+// lets us show "first published vs latest revision" when ONS or DfE revise a
+// figure.
+//
+// Both tables also record where each value came from — the series, download
+// URL, sheet and parser strategy — so values from different series (e.g. when
+// ONS falls back from RHDI to GDP) are never mistaken for one line.
+//
+// Snapshots store the span each value covers (see KpiPeriod) beside the date
+// the source keys it under; charts and forecasts place values by that span.
+// ---------------------------------------------------------------------------
+
+export interface KpiProvenance {
+  /** Stable identifier for the series, e.g. "UKEA/CRXS" or "LT120:net-additions". */
+  seriesId: string;
+  /** URL the values were downloaded from. */
+  sourceUrl: string;
+  /** Workbook sheet the values were read from, for spreadsheet sources. */
+  sheetName?: string;
+  /** Parser strategy that produced the values, e.g. "lt120:years-across". */
+  parser: string;
+  /** Release identifier, e.g. "UKEA 2025-09-30". Defaults to sourceUrl. */
+  release?: string;
+}
+
+export interface KpiDataPoint {
+  value: number;
+  date: string; // ISO date the source identifies the period by
+  label: string;
+  period?: KpiPeriod; // the span the value covers, where the adapter knows it
+  /** Overrides the batch provenance for points taken from a different file. */
+  provenance?: Partial<KpiProvenance>;
+}
+
+/** The stored value and series for each period of one of a milestone's metrics, keyed by date. */
+export function getStoredKpiValues(
+  milestoneSlug: MilestoneSlug,
+  metricId: string
+): Map<string, { value: number; seriesId: string | null }> {
+  const rows = getDb()
+    .prepare(
+      `SELECT date, value, series_id as seriesId FROM kpi_snapshots
+       WHERE milestone_slug = ? AND metric_id = ?`
+    )
+    .all(milestoneSlug, metricId) as { date: string; value: number; seriesId: string | null }[];
+  return new Map(rows.map(({ date, value, seriesId }) => [date, { value, seriesId }]));
+}
+
+/**
+ * Upsert a batch of values for one of a milestone's metrics and record any
+ * new vintages. `provenance` describes where the batch came from; individual
+ * points can override parts of it.
+ *
+ * Returns the number of periods stored and how many of them were revised.
+ */
+export function storeKpiSnapshots(
+  milestoneSlug: MilestoneSlug,
+  metricId: string,
+  items: KpiDataPoint[],
+  provenance: KpiProvenance
+): { stored: number; revised: number } {
+  const db = getDb();
+
+  const upsert = db.prepare(`
+    INSERT INTO kpi_snapshots
+      (milestone_slug, metric_id, value, date, label, period_start, period_end, granularity, calendar,
+       series_id, source_url, sheet_name, parser, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(milestone_slug, metric_id, date) DO UPDATE SET
+      value = excluded.value,
+      label = excluded.label,
+      period_start = COALESCE(excluded.period_start, period_start),
+      period_end = COALESCE(excluded.period_end, period_end),
+      granularity = COALESCE(excluded.granularity, granularity),
+      calendar = COALESCE(excluded.calendar, calendar),
+      series_id = excluded.series_id,
+      source_url = excluded.source_url,
+      sheet_name = excluded.sheet_name,
+      parser = excluded.parser,
+      fetched_at = excluded.fetched_at
+  `);
+
+  const latestVintage = db.prepare(`
+    SELECT value, series_id as seriesId FROM kpi_vintages
+    WHERE milestone_slug = ? AND metric_id = ? AND date = ?
+    ORDER BY id DESC LIMIT 1
+  `);
+
+  const insertVintage = db.prepare(`
+    INSERT INTO kpi_vintages
+      (milestone_slug, metric_id, date, value, label, release, series_id, source_url, sheet_name, parser)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let revised = 0;
+
+  const storeAll = db.transaction((points: KpiDataPoint[]) => {
+    for (const point of points) {
+      const source = { ...provenance, ...point.provenance };
+      const previous = latestVintage.get(milestoneSlug, metricId, point.date) as
+        | { value: number; seriesId: string | null }
+        | undefined;
+
+      // A value from a different series is a new vintage even if the number
+      // happens to match. Vintages recorded before provenance was tracked
+      // have no series and are only compared on value.
+      const seriesChanged =
+        previous?.seriesId != null && previous.seriesId !== source.seriesId;
+      if (
+        !previous ||
+        Math.abs(previous.value - point.value) > 1e-9 ||
+        seriesChanged
+      ) {
+        insertVintage.run(
+          milestoneSlug,
+          metricId,
+          point.date,
+          point.value,
+          point.label,
+          source.release ?? source.sourceUrl,
+          source.seriesId,
+          source.sourceUrl,
+          source.sheetName ?? null,
+          source.parser
+        );
+        if (previous) revised++;
+      }
+
+      upsert.run(
+        milestoneSlug,
+        metricId,
+        point.value,
+        point.date,
+        point.label,
+        point.period?.start ?? null,
+        point.period?.end ?? null,
+        point.period?.granularity ?? null,
+        point.period?.calendar ?? null,
+        source.seriesId,
+        source.sourceUrl,
+        source.sheetName ?? null,
+        source.parser
+      );
+    }
+  });
+
+  storeAll(items);
+
+  return { stored: items.length, revised };
+}
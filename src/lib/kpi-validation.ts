@@ -0,0 +1,123 @@
+import type { KpiDataPoint } from "./kpi-store";
+import type { KpiCadence, KpiValidationRules } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI batch validation
+//
+// A restructured workbook rarely makes a parser fail outright; more often it
+// reads a neighbouring column or table and returns plausible-looking numbers.
+// Each KPI source can declare rules in milestone-mappings.json, and a batch
+// that breaks any of them is quarantined (see kpi-quarantine.ts) instead of
+// being written to kpi_snapshots.
+//
+// Only periods that are new or whose value changed are checked, so history
+// already stored (approved, or from before a rule was added) is not judged
+// again on every refresh.
+// ---------------------------------------------------------------------------
+
+/** Acceptable gap in days between consecutive periods at each cadence. */
+const CADENCE_DAYS: Record<KpiCadence, { min: number; max: number }> = {
+  month: { min: 28, max: 31 },
+  quarter: { min: 89, max: 92 },
+  "half-year": { min: 181, max: 184 },
+  year: { min: 365, max: 366 },
+};
+
+/** Describe at most a few offending points, so issues stay one line. */
+function examples(points: string[]): string {
+  const shown = points.slice(0, 3).join(", ");
+  return points.length > 3 ? `${shown}, …` : shown;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86_400_000);
+}
+
+/** Whether the step from points[i - 1] to points[i] touches a changed period. */
+function touchesChanged(points: KpiDataPoint[], i: number, changed: Set<string>): boolean {
+  return changed.has(points[i - 1].date) || changed.has(points[i].date);
+}
+
+function checkMonotonic(read: KpiDataPoint[], changed: Set<string>): string[] {
+  if (read.length < 2) return [];
+  const ascending = read[read.length - 1].date > read[0].date;
+  const outOfOrder: string[] = [];
+  for (let i = 1; i < read.length; i++) {
+    if (!touchesChanged(read, i, changed)) continue;
+    const ok = ascending ? read[i].date > read[i - 1].date : read[i].date < read[i - 1].date;
+    if (!ok) outOfOrder.push(`${read[i - 1].label} then ${read[i].label}`);
+  }
+  return outOfOrder.length > 0
+    ? [`Periods out of order or repeated: ${examples(outOfOrder)}`]
+    : [];
+}
+
+function checkRange(
+  points: KpiDataPoint[],
+  range: NonNullable<KpiValidationRules["range"]>,
+  changed: Set<string>
+): string[] {
+  const outside = points.filter(
+    (p) =>
+      changed.has(p.date) &&
+      ((range.min !== undefined && p.value < range.min) ||
+        (range.max !== undefined && p.value > range.max))
+  );
+  if (outside.length === 0) return [];
+  const bounds = `${range.min ?? "-∞"} to ${range.max ?? "∞"}`;
+  return [
+    `${outside.length} value(s) outside ${bounds}: ${examples(outside.map((p) => `${p.value} (${p.label})`))}`,
+  ];
+}
+
+function checkChange(
+  points: KpiDataPoint[],
+  maxChange: NonNullable<KpiValidationRules["maxChange"]>,
+  changed: Set<string>
+): string[] {
+  const jumps: string[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (!touchesChanged(points, i, changed)) continue;
+    const prev = points[i - 1].value;
+    const change = Math.abs(points[i].value - prev);
+    const tooLarge =
+      (maxChange.absolute !== undefined && change > maxChange.absolute) ||
+      (maxChange.relative !== undefined && prev !== 0 && change / Math.abs(prev) > maxChange.relative);
+    if (tooLarge) jumps.push(`${points[i - 1].label} ${prev} → ${points[i].label} ${points[i].value}`);
+  }
+  return jumps.length > 0 ? [`Period-on-period change too large: ${examples(jumps)}`] : [];
+}
+
+function checkCadence(points: KpiDataPoint[], cadence: KpiCadence, changed: Set<string>): string[] {
+  const { min, max } = CADENCE_DAYS[cadence];
+  const gaps: string[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (!touchesChanged(points, i, changed)) continue;
+    const days = daysBetween(points[i - 1].date, points[i].date);
+    if (days < min || days > 2 * max) {
+      gaps.push(`${points[i - 1].label} → ${points[i].label} (${days} days)`);
+    }
+  }
+  return gaps.length > 0 ? [`Periods not ${cadence}ly: ${examples(gaps)}`] : [];
+}
+
+/**
+ * Check a batch against its source's rules. `read` is the batch in the order
+ * the parser returned it; `points` is the same batch with one value per
+ * period, sorted by date. `changed` holds the dates of new or changed
+ * periods: only they, and the steps into and out of them, are checked; by
+ * default every period is. Returns one line per broken rule.
+ */
+export function validateKpiBatch(
+  read: KpiDataPoint[],
+  points: KpiDataPoint[],
+  rules: KpiValidationRules,
+  changed: Set<string> = new Set(points.map((p) => p.date))
+): string[] {
+  return [
+    ...(rules.monotonicDates ? checkMonotonic(read, changed) : []),
+    ...(rules.range ? checkRange(points, rules.range, changed) : []),
+    ...(rules.maxChange ? checkChange(points, rules.maxChange, changed) : []),
+    ...(rules.cadence ? checkCadence(points, rules.cadence, changed) : []),
+  ];
+}
@@ -1,7 +1,9 @@
 import type { MEFramework, MilestoneSlug } from "./types";
+import { loadMEFrameworks } from "./milestone-config";
+import { MILESTONE_SLUGS } from "./milestones";
 import frameworkData from "../../data/me-framework.json";
 
-export const meFrameworks: MEFramework[] = frameworkData as MEFramework[];
+export const meFrameworks: MEFramework[] = loadMEFrameworks(frameworkData, MILESTONE_SLUGS);
 
 export function getMEFramework(
   slug: MilestoneSlug
@@ -8,6 +8,7 @@ import type {
   MEFramework,
   MEMilestoneView,
 } from "./types";
+import { getCommencementStatus } from "./commencement";
 
 /**
  * Check if an output matches a deliverable by searching the output's title
@@ -73,20 +74,29 @@ function computeStatus(
     return "not-started";
   }
 
-  // Check for strong completion signals
-  const hasEnactedBill = matchedOutputs.some(
+  // Check for strong completion signals. An enacted bill only counts as
+  // delivered once some of it is in force; Acts not yet matched on
+  // legislation.gov.uk are given the benefit of the doubt.
+  const enactedBills = matchedOutputs.filter(
     (o) =>
       o.type === "bill" &&
       o.status?.toLowerCase().includes("royal assent")
   );
+  const hasCommencedAct = enactedBills.some(
+    (o) => getCommencementStatus(o) !== "not-commenced"
+  );
   const hasPublishedStrategy = matchedOutputs.some((o) =>
     ["policy_paper", "white_paper", "action_plan", "framework"].includes(o.type)
   );
 
-  if (hasEnactedBill || hasPublishedStrategy) {
+  if (hasCommencedAct || hasPublishedStrategy) {
     return "delivered";
   }
 
+  if (enactedBills.length > 0) {
+    return "enacted-not-commenced";
+  }
+
   return "in-progress";
 }
 
@@ -150,6 +160,9 @@ export function enrichDeliverables(
   const inProgressCount = enriched.filter(
     (d) => d.computedStatus === "in-progress"
   ).length;
+  const enactedNotCommencedCount = enriched.filter(
+    (d) => d.computedStatus === "enacted-not-commenced"
+  ).length;
   const notStartedCount = enriched.filter(
     (d) => d.computedStatus === "not-started"
   ).length;
@@ -161,7 +174,10 @@ export function enrichDeliverables(
   const overallProgress =
     total > 0
       ? Math.round(
-          ((deliveredCount * 100 + inProgressCount * 50 + atRiskCount * 25) /
+          ((deliveredCount * 100 +
+            enactedNotCommencedCount * 75 +
+            inProgressCount * 50 +
+            atRiskCount * 25) /
             (total * 100)) *
             100
         )
@@ -172,6 +188,7 @@ export function enrichDeliverables(
     enrichedDeliverables: enriched,
     deliveredCount,
     inProgressCount,
+    enactedNotCommencedCount,
     notStartedCount,
     atRiskCount,
     overallProgress,
@@ -0,0 +1,755 @@
+import type Database from "better-sqlite3";
+
+// ---------------------------------------------------------------------------
+// Versioned schema migrations for the SQLite cache
+//
+// Migrations are numbered and forward-only. Each one is recorded in
+// schema_version, so an existing dashboard.db only gets the migrations it
+// has not seen yet. Never edit a migration once it has been committed — add
+// a new one instead.
+//
+// Databases created before schema_version existed are "adopted": we detect
+// which of the early migrations their schema already reflects and stamp that
+// version without re-running them.
+// ---------------------------------------------------------------------------
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Each milestone's primary metric id when metric_id was introduced (v10).
+// Frozen here rather than read from milestone-mappings.json so the migration
+// stays the same if the config changes later.
+const V10_PRIMARY_METRIC = `CASE milestone_slug
+  WHEN 'economic-growth' THEN 'rhdi-per-head'
+  WHEN 'housing' THEN 'net-additional-dwellings'
+  WHEN 'nhs' THEN 'rtt-within-18-weeks'
+  WHEN 'policing' THEN 'police-workforce-total'
+  WHEN 'education' THEN 'eyfs-gld'
+  WHEN 'clean-energy' THEN 'renewables-share'
+  ELSE 'primary'
+END`;
+
+// How each metric fetched before v11 dated its periods, for backfilling the
+// period columns. Frozen like V10_PRIMARY_METRIC; adapters now store periods.
+const V11_QUARTER_START = `'rhdi-per-head', 'dwelling-completions', 'dwelling-starts', 'renewables-share'`;
+const V11_MONTH_START = `'rtt-within-18-weeks', 'rtt-waiting-list', 'rtt-over-52-weeks'`;
+const V11_AS_AT = `'police-workforce-total', 'police-officers', 'pcsos', 'special-constables'`;
+const V11_FINANCIAL_YEAR_END = `'net-additional-dwellings'`;
+const V11_SEPTEMBER_AFTER_SCHOOL_YEAR = `'eyfs-gld'`;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    sql: `
+      CREATE TABLE kpi_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        milestone_slug TEXT NOT NULL,
+        value REAL NOT NULL,
+        date TEXT NOT NULL,
+        label TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(milestone_slug, date)
+      );
+
+      CREATE TABLE outputs (
+        id TEXT PRIMARY KEY,
+        milestone_slug TEXT NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        url TEXT NOT NULL,
+        source TEXT NOT NULL,
+        status TEXT DEFAULT '',
+        published_date TEXT,
+        last_updated TEXT,
+        department TEXT,
+        confidence TEXT NOT NULL DEFAULT 'medium',
+        dismissed INTEGER NOT NULL DEFAULT 0,
+        rationale TEXT,
+        rationale_updated_at TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE bill_stages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        output_id TEXT NOT NULL REFERENCES outputs(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        house TEXT NOT NULL,
+        date TEXT,
+        completed INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE media_articles (
+        id TEXT PRIMARY KEY,
+        milestone_slug TEXT NOT NULL,
+        output_id TEXT,
+        title TEXT NOT NULL,
+        url TEXT NOT NULL UNIQUE,
+        source TEXT NOT NULL,
+        published_date TEXT,
+        excerpt TEXT,
+        thumbnail_url TEXT,
+        api_source TEXT NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE committee_inquiries (
+        id TEXT PRIMARY KEY,
+        milestone_slug TEXT NOT NULL,
+        committee_name TEXT NOT NULL,
+        committee_id INTEGER NOT NULL,
+        inquiry_title TEXT NOT NULL,
+        status TEXT DEFAULT 'Open',
+        url TEXT,
+        evidence_sessions INTEGER DEFAULT 0,
+        reports_published INTEGER DEFAULT 0,
+        last_activity TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE debates (
+        id TEXT PRIMARY KEY,
+        milestone_slug TEXT NOT NULL,
+        title TEXT NOT NULL,
+        date TEXT NOT NULL,
+        house TEXT NOT NULL,
+        url TEXT NOT NULL,
+        source TEXT NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE written_questions (
+        id TEXT PRIMARY KEY,
+        milestone_slug TEXT NOT NULL,
+        question_title TEXT NOT NULL,
+        asked_by TEXT,
+        date TEXT NOT NULL,
+        url TEXT,
+        answered INTEGER NOT NULL DEFAULT 0,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE milestone_briefings (
+        milestone_slug TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        data_hash TEXT NOT NULL,
+        generated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_kpi_milestone ON kpi_snapshots(milestone_slug);
+      CREATE INDEX idx_outputs_milestone ON outputs(milestone_slug);
+      CREATE INDEX idx_outputs_type ON outputs(type);
+      CREATE INDEX idx_media_milestone ON media_articles(milestone_slug);
+      CREATE INDEX idx_media_output ON media_articles(output_id);
+      CREATE INDEX idx_media_date ON media_articles(published_date);
+      CREATE INDEX idx_debates_milestone ON debates(milestone_slug);
+      CREATE INDEX idx_committees_milestone ON committee_inquiries(milestone_slug);
+    `,
+  },
+  {
+    version: 2,
+    name: "kpi vintages",
+    sql: `
+      CREATE TABLE kpi_vintages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        milestone_slug TEXT NOT NULL,
+        date TEXT NOT NULL,
+        value REAL NOT NULL,
+        label TEXT,
+        release TEXT NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_vintages_period ON kpi_vintages(milestone_slug, date);
+
+      -- Values fetched before vintages were tracked have no known release
+      INSERT INTO kpi_vintages (milestone_slug, date, value, label, release, fetched_at)
+      SELECT milestone_slug, date, value, label, 'unknown', fetched_at
+      FROM kpi_snapshots;
+    `,
+  },
+  {
+    version: 3,
+    name: "kpi provenance",
+    sql: `
+      ALTER TABLE kpi_snapshots ADD COLUMN series_id TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN source_url TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN sheet_name TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN parser TEXT;
+
+      ALTER TABLE kpi_vintages ADD COLUMN series_id TEXT;
+      ALTER TABLE kpi_vintages ADD COLUMN source_url TEXT;
+      ALTER TABLE kpi_vintages ADD COLUMN sheet_name TEXT;
+      ALTER TABLE kpi_vintages ADD COLUMN parser TEXT;
+    `,
+  },
+  {
+    version: 4,
+    name: "output curation",
+    sql: `
+      -- Human curation lives apart from fetched data so refreshes never
+      -- touch it. NULL overrides fall back to the fetched value. No foreign
+      -- key: curation must survive an output disappearing from a source.
+      CREATE TABLE output_curation (
+        output_id TEXT PRIMARY KEY,
+        dismissed INTEGER NOT NULL DEFAULT 0,
+        milestone_slug TEXT,
+        confidence TEXT,
+        notes TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      INSERT INTO output_curation (output_id, dismissed)
+      SELECT id, 1 FROM outputs WHERE dismissed = 1;
+
+      ALTER TABLE outputs DROP COLUMN dismissed;
+
+      -- What the dashboard reads: fetched outputs with curation applied
+      CREATE VIEW curated_outputs AS
+      SELECT
+        o.id,
+        COALESCE(c.milestone_slug, o.milestone_slug) AS milestone_slug,
+        o.type, o.title, o.description, o.url, o.source, o.status,
+        o.published_date, o.last_updated, o.department,
+        COALESCE(c.confidence, o.confidence) AS confidence,
+        COALESCE(c.dismissed, 0) AS dismissed,
+        c.notes AS curation_notes,
+        o.rationale, o.rationale_updated_at, o.fetched_at
+      FROM outputs o
+      LEFT JOIN output_curation c ON c.output_id = o.id;
+    `,
+  },
+  {
+    version: 5,
+    name: "milestone link tables",
+    sql: `
+      -- Outputs, articles, debates and inquiries can belong to several
+      -- milestones, each link with its own confidence. The single
+      -- milestone_slug columns move into link tables.
+      DROP VIEW curated_outputs;
+
+      CREATE TABLE output_milestones (
+        output_id TEXT NOT NULL REFERENCES outputs(id) ON DELETE CASCADE,
+        milestone_slug TEXT NOT NULL,
+        confidence TEXT NOT NULL DEFAULT 'medium',
+        linked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (output_id, milestone_slug)
+      );
+      INSERT INTO output_milestones (output_id, milestone_slug, confidence)
+      SELECT id, milestone_slug, confidence FROM outputs;
+
+      -- Manual links (linked = 1) and unlinks (linked = 0) made by curators
+      CREATE TABLE output_milestone_curation (
+        output_id TEXT NOT NULL,
+        milestone_slug TEXT NOT NULL,
+        linked INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (output_id, milestone_slug)
+      );
+      -- A reassignment becomes an unlink from the fetched milestone plus a link
+      INSERT INTO output_milestone_curation (output_id, milestone_slug, linked)
+      SELECT c.output_id, o.milestone_slug, 0
+      FROM output_curation c JOIN outputs o ON o.id = c.output_id
+      WHERE c.milestone_slug IS NOT NULL AND c.milestone_slug <> o.milestone_slug;
+      INSERT INTO output_milestone_curation (output_id, milestone_slug, linked)
+      SELECT output_id, milestone_slug, 1 FROM output_curation
+      WHERE milestone_slug IS NOT NULL;
+
+      ALTER TABLE output_curation DROP COLUMN milestone_slug;
+      DROP INDEX idx_outputs_milestone;
+      ALTER TABLE outputs DROP COLUMN milestone_slug;
+      ALTER TABLE outputs DROP COLUMN confidence;
+
+      CREATE TABLE media_article_milestones (
+        article_id TEXT NOT NULL REFERENCES media_articles(id) ON DELETE CASCADE,
+        milestone_slug TEXT NOT NULL,
+        confidence TEXT NOT NULL DEFAULT 'medium',
+        linked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (article_id, milestone_slug)
+      );
+      INSERT INTO media_article_milestones (article_id, milestone_slug)
+      SELECT id, milestone_slug FROM media_articles;
+      DROP INDEX idx_media_milestone;
+      ALTER TABLE media_articles DROP COLUMN milestone_slug;
+
+      CREATE TABLE debate_milestones (
+        debate_id TEXT NOT NULL REFERENCES debates(id) ON DELETE CASCADE,
+        milestone_slug TEXT NOT NULL,
+        confidence TEXT NOT NULL DEFAULT 'medium',
+        linked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (debate_id, milestone_slug)
+      );
+      INSERT INTO debate_milestones (debate_id, milestone_slug)
+      SELECT id, milestone_slug FROM debates;
+      DROP INDEX idx_debates_milestone;
+      ALTER TABLE debates DROP COLUMN milestone_slug;
+
+      CREATE TABLE committee_inquiry_milestones (
+        inquiry_id TEXT NOT NULL REFERENCES committee_inquiries(id) ON DELETE CASCADE,
+        milestone_slug TEXT NOT NULL,
+        confidence TEXT NOT NULL DEFAULT 'high',
+        linked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (inquiry_id, milestone_slug)
+      );
+      INSERT INTO committee_inquiry_milestones (inquiry_id, milestone_slug)
+      SELECT id, milestone_slug FROM committee_inquiries;
+      DROP INDEX idx_committees_milestone;
+      ALTER TABLE committee_inquiries DROP COLUMN milestone_slug;
+
+      CREATE INDEX idx_output_milestones_slug ON output_milestones(milestone_slug);
+      CREATE INDEX idx_media_milestones_slug ON media_article_milestones(milestone_slug);
+      CREATE INDEX idx_debate_milestones_slug ON debate_milestones(milestone_slug);
+      CREATE INDEX idx_committee_milestones_slug ON committee_inquiry_milestones(milestone_slug);
+
+      -- One row per (output, milestone) link after curation, with curator
+      -- unlinks removed and manual links added
+      CREATE VIEW curated_outputs AS
+      WITH links AS (
+        SELECT l.output_id, l.milestone_slug, l.confidence
+        FROM output_milestones l
+        WHERE NOT EXISTS (
+          SELECT 1 FROM output_milestone_curation mc
+          WHERE mc.output_id = l.output_id
+            AND mc.milestone_slug = l.milestone_slug
+            AND mc.linked = 0
+        )
+        UNION ALL
+        SELECT mc.output_id, mc.milestone_slug, 'high'
+        FROM output_milestone_curation mc
+        WHERE mc.linked = 1
+          AND NOT EXISTS (
+            SELECT 1 FROM output_milestones l
+            WHERE l.output_id = mc.output_id AND l.milestone_slug = mc.milestone_slug
+          )
+      )
+      SELECT
+        o.id,
+        links.milestone_slug,
+        o.type, o.title, o.description, o.url, o.source, o.status,
+        o.published_date, o.last_updated, o.department,
+        COALESCE(c.confidence, links.confidence) AS confidence,
+        COALESCE(c.dismissed, 0) AS dismissed,
+        c.notes AS curation_notes,
+        o.rationale, o.rationale_updated_at, o.fetched_at
+      FROM links
+      JOIN outputs o ON o.id = links.output_id
+      LEFT JOIN output_curation c ON c.output_id = o.id;
+
+      -- One row per (article|debate|inquiry, milestone) link
+      CREATE VIEW milestone_media_articles AS
+      SELECT
+        ma.id, l.milestone_slug, l.confidence AS link_confidence,
+        ma.output_id, ma.title, ma.url, ma.source, ma.published_date,
+        ma.excerpt, ma.thumbnail_url, ma.api_source, ma.fetched_at
+      FROM media_article_milestones l
+      JOIN media_articles ma ON ma.id = l.article_id;
+
+      CREATE VIEW milestone_debates AS
+      SELECT
+        d.id, l.milestone_slug, l.confidence AS link_confidence,
+        d.title, d.date, d.house, d.url, d.source, d.fetched_at
+      FROM debate_milestones l
+      JOIN debates d ON d.id = l.debate_id;
+
+      CREATE VIEW milestone_committee_inquiries AS
+      SELECT
+        ci.id, l.milestone_slug, l.confidence AS link_confidence,
+        ci.committee_name, ci.committee_id, ci.inquiry_title, ci.status, ci.url,
+        ci.evidence_sessions, ci.reports_published, ci.last_activity, ci.fetched_at
+      FROM committee_inquiry_milestones l
+      JOIN committee_inquiries ci ON ci.id = l.inquiry_id;
+    `,
+  },
+  {
+    version: 6,
+    name: "legislation details",
+    sql: `
+      -- Acts and SIs from legislation.gov.uk. For Acts made_date is the date
+      -- of Royal Assent; in_force_date is the earliest coming-into-force date.
+      CREATE TABLE legislation_details (
+        output_id TEXT PRIMARY KEY REFERENCES outputs(id) ON DELETE CASCADE,
+        legislation_type TEXT NOT NULL, -- e.g. "uksi", "ukpga"
+        year INTEGER NOT NULL,
+        number INTEGER NOT NULL,
+        made_date TEXT,
+        laid_date TEXT,
+        in_force_date TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: "act commencement",
+    sql: `
+      -- Enacted bills are matched to their Act and recorded in
+      -- legislation_details alongside Acts found on legislation.gov.uk.
+      -- Commencement is keyed by the Act itself so both outputs share it.
+      CREATE TABLE act_commencements (
+        act_type TEXT NOT NULL,
+        act_year INTEGER NOT NULL,
+        act_number INTEGER NOT NULL,
+        provisions TEXT NOT NULL, -- e.g. "s. 1-5", "Sch. 2"
+        in_force_date TEXT, -- null while prospective
+        commenced_by TEXT NOT NULL, -- e.g. "uksi/2025/500", or the Act itself
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (act_type, act_year, act_number, provisions, commenced_by)
+      );
+
+      CREATE TABLE commencement_regulations (
+        act_type TEXT NOT NULL,
+        act_year INTEGER NOT NULL,
+        act_number INTEGER NOT NULL,
+        regulation TEXT NOT NULL, -- e.g. "uksi/2025/500"
+        title TEXT NOT NULL,
+        first_in_force_date TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (act_type, act_year, act_number, regulation)
+      );
+
+      -- One row per output that is (or became) an Act
+      CREATE VIEW act_commencement_summary AS
+      SELECT
+        ld.output_id,
+        COUNT(CASE WHEN ac.in_force_date <= date('now') THEN 1 END) AS provisions_in_force,
+        COUNT(CASE WHEN ac.provisions IS NOT NULL
+                    AND (ac.in_force_date IS NULL OR ac.in_force_date > date('now')) THEN 1 END)
+          AS provisions_pending,
+        (SELECT COUNT(*) FROM commencement_regulations cr
+         WHERE cr.act_type = ld.legislation_type AND cr.act_year = ld.year
+           AND cr.act_number = ld.number) AS regulation_count
+      FROM legislation_details ld
+      LEFT JOIN act_commencements ac
+        ON ac.act_type = ld.legislation_type AND ac.act_year = ld.year
+        AND ac.act_number = ld.number
+      WHERE ld.legislation_type = 'ukpga'
+      GROUP BY ld.output_id;
+    `,
+  },
+  {
+    version: 8,
+    name: "refresh runs",
+    sql: `
+      -- One row per refresh-all invocation
+      CREATE TABLE refresh_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        started_at TEXT NOT NULL DEFAULT (datetime('now')),
+        finished_at TEXT,
+        status TEXT, -- null while running; "ok" or "failed" once finished
+        options TEXT -- JSON of the command-line options
+      );
+
+      -- One row per fetcher call within a run. source is a data source id
+      -- from refresh-log.ts (e.g. "nhs-rtt"), so the dashboard can tell
+      -- when each source last succeeded.
+      CREATE TABLE refresh_steps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES refresh_runs(id) ON DELETE CASCADE,
+        step TEXT NOT NULL, -- e.g. "Bills: housing"
+        source TEXT NOT NULL,
+        milestone_slug TEXT, -- null for steps that cover every milestone
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        status TEXT NOT NULL, -- "ok", "partial", "failed" or "skipped"
+        rows_written INTEGER NOT NULL DEFAULT 0,
+        failed_requests INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        source_url TEXT
+      );
+
+      CREATE INDEX idx_refresh_steps_source ON refresh_steps(source, status, finished_at);
+    `,
+  },
+  {
+    version: 9,
+    name: "kpi quarantine",
+    sql: `
+      -- KPI batches that broke their source's validation rules. They are held
+      -- here instead of kpi_snapshots until approved (and then stored) or
+      -- rejected with the kpi-quarantine script.
+      CREATE TABLE kpi_quarantine (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        milestone_slug TEXT NOT NULL,
+        source_id TEXT NOT NULL, -- KPI source id, e.g. "energy-trends"
+        points TEXT NOT NULL, -- JSON array of the batch's data points
+        provenance TEXT NOT NULL, -- JSON provenance the batch would be stored with
+        issues TEXT NOT NULL, -- JSON array of broken rules, one line each
+        -- "pending", "approved", "rejected", or "superseded" once a later
+        -- batch from the same source is stored
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        reviewed_at TEXT
+      );
+
+      CREATE INDEX idx_kpi_quarantine_milestone ON kpi_quarantine(milestone_slug, status);
+    `,
+  },
+  {
+    version: 10,
+    name: "kpi metrics",
+    sql: `
+      -- Each milestone now tracks several metrics (a primary KPI plus
+      -- secondary and leading indicators), so periods are unique per metric.
+      -- Existing rows all belong to their milestone's primary metric.
+      CREATE TABLE kpi_snapshots_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        milestone_slug TEXT NOT NULL,
+        metric_id TEXT NOT NULL,
+        value REAL NOT NULL,
+        date TEXT NOT NULL,
+        label TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        series_id TEXT,
+        source_url TEXT,
+        sheet_name TEXT,
+        parser TEXT,
+        UNIQUE(milestone_slug, metric_id, date)
+      );
+
+      INSERT INTO kpi_snapshots_new
+        (id, milestone_slug, metric_id, value, date, label, fetched_at,
+         series_id, source_url, sheet_name, parser)
+      SELECT id, milestone_slug, ${V10_PRIMARY_METRIC}, value, date, label, fetched_at,
+             series_id, source_url, sheet_name, parser
+      FROM kpi_snapshots;
+
+      DROP TABLE kpi_snapshots;
+      ALTER TABLE kpi_snapshots_new RENAME TO kpi_snapshots;
+      CREATE INDEX idx_kpi_milestone ON kpi_snapshots(milestone_slug, metric_id);
+
+      ALTER TABLE kpi_vintages ADD COLUMN metric_id TEXT;
+      UPDATE kpi_vintages SET metric_id = ${V10_PRIMARY_METRIC};
+      DROP INDEX idx_vintages_period;
+      CREATE INDEX idx_vintages_period ON kpi_vintages(milestone_slug, metric_id, date);
+
+      ALTER TABLE kpi_quarantine ADD COLUMN metric_id TEXT;
+      UPDATE kpi_quarantine SET metric_id = ${V10_PRIMARY_METRIC};
+    `,
+  },
+  {
+    version: 11,
+    name: "kpi periods",
+    sql: `
+      -- The span each value covers (see KpiPeriod). date stays the key a
+      -- source's periods are stored under; rows of unknown cadence keep
+      -- NULL periods and are placed at their date.
+      ALTER TABLE kpi_snapshots ADD COLUMN period_start TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN period_end TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN granularity TEXT;
+      ALTER TABLE kpi_snapshots ADD COLUMN calendar TEXT;
+
+      UPDATE kpi_snapshots
+      SET period_start = date, period_end = date(date, '+3 months', '-1 day'),
+          granularity = 'quarter', calendar = 'calendar'
+      WHERE metric_id IN (${V11_QUARTER_START});
+
+      UPDATE kpi_snapshots
+      SET period_start = date, period_end = date(date, '+1 month', '-1 day'),
+          granularity = 'month', calendar = 'calendar'
+      WHERE metric_id IN (${V11_MONTH_START});
+
+      UPDATE kpi_snapshots
+      SET period_start = date, period_end = date, granularity = 'day', calendar = 'calendar'
+      WHERE metric_id IN (${V11_AS_AT});
+
+      UPDATE kpi_snapshots
+      SET period_start = date(date, '+1 day', '-12 months'), period_end = date,
+          granularity = 'year', calendar = 'financial'
+      WHERE metric_id IN (${V11_FINANCIAL_YEAR_END});
+
+      UPDATE kpi_snapshots
+      SET period_start = date(date, '-12 months'), period_end = date(date, '-1 day'),
+          granularity = 'year', calendar = 'academic'
+      WHERE metric_id IN (${V11_SEPTEMBER_AFTER_SCHOOL_YEAR});
+    `,
+  },
+  {
+    version: 12,
+    name: "commencement fetch time",
+    sql: `
+      -- When an Act's commencement effects were last fetched in full. Until
+      -- then, or while legislation.gov.uk lists no effects for it, its
+      -- commencement is unknown rather than "not commenced", so the summary
+      -- has no row for it.
+      ALTER TABLE legislation_details ADD COLUMN effects_fetched_at TEXT;
+
+      DROP VIEW act_commencement_summary;
+      CREATE VIEW act_commencement_summary AS
+      SELECT
+        ld.output_id,
+        COUNT(CASE WHEN ac.in_force_date <= date('now') THEN 1 END) AS provisions_in_force,
+        COUNT(CASE WHEN ac.in_force_date IS NULL OR ac.in_force_date > date('now') THEN 1 END)
+          AS provisions_pending,
+        (SELECT COUNT(*) FROM commencement_regulations cr
+         WHERE cr.act_type = ld.legislation_type AND cr.act_year = ld.year
+           AND cr.act_number = ld.number) AS regulation_count,
+        ld.effects_fetched_at
+      FROM legislation_details ld
+      JOIN act_commencements ac
+        ON ac.act_type = ld.legislation_type AND ac.act_year = ld.year
+        AND ac.act_number = ld.number
+      WHERE ld.legislation_type = 'ukpga' AND ld.effects_fetched_at IS NOT NULL
+      GROUP BY ld.output_id;
+    `,
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+export interface MigrationPlan {
+  /** Version the database is at now (0 for an empty database). */
+  currentVersion: number;
+  /** Set when a pre-schema_version database will be stamped at this version. */
+  adoptedVersion: number | null;
+  /** SQL needed to bring a legacy database in line with adoptedVersion. */
+  adoptionSql: string[];
+  pending: Migration[];
+}
+
+const CREATE_SCHEMA_VERSION = `
+  CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )
+`;
+
+function tableExists(db: Database.Database, name: string): boolean {
+  return (
+    db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(name) !== undefined
+  );
+}
+
+function columnNames(db: Database.Database, table: string): Set<string> {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return new Set(cols.map((c) => c.name));
+}
+
+/**
+ * Work out which version a database created before schema_version existed
+ * corresponds to, and any SQL needed to get it there. Returns null for an
+ * empty database.
+ */
+function detectLegacyVersion(
+  db: Database.Database
+): { version: number; sql: string[] } | null {
+  if (!tableExists(db, "outputs")) return null;
+
+  const sql: string[] = [];
+
+  // The rationale columns were added by hand before migrations existed
+  if (!columnNames(db, "outputs").has("rationale")) {
+    sql.push("ALTER TABLE outputs ADD COLUMN rationale TEXT");
+    sql.push("ALTER TABLE outputs ADD COLUMN rationale_updated_at TEXT");
+  }
+
+  let version = 1;
+  if (tableExists(db, "kpi_vintages")) {
+    version = 2;
+    if (columnNames(db, "kpi_snapshots").has("series_id")) version = 3;
+  }
+
+  return { version, sql };
+}
+
+/**
+ * Read the database's schema version and list the migrations still to run.
+ * Does not modify the database.
+ */
+export function planMigrations(db: Database.Database): MigrationPlan {
+  let currentVersion = 0;
+  let adoptedVersion: number | null = null;
+  let adoptionSql: string[] = [];
+
+  if (tableExists(db, "schema_version")) {
+    const row = db
+      .prepare("SELECT MAX(version) as version FROM schema_version")
+      .get() as { version: number | null };
+    currentVersion = row.version ?? 0;
+  } else {
+    const legacy = detectLegacyVersion(db);
+    if (legacy) {
+      adoptedVersion = legacy.version;
+      adoptionSql = legacy.sql;
+      currentVersion = legacy.version;
+    }
+  }
+
+  return {
+    currentVersion,
+    adoptedVersion,
+    adoptionSql,
+    pending: MIGRATIONS.filter((m) => m.version > currentVersion),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+/**
+ * Bring the database up to the latest schema version. Planning and applying
+ * happen in one IMMEDIATE transaction, so concurrent callers (e.g. parallel
+ * page renders during `next build`) cannot both apply the same migration,
+ * and a failing migration leaves the database untouched.
+ *
+ * Returns the versions that were applied.
+ */
+export function runMigrations(db: Database.Database): number[] {
+  const migrate = db.transaction((): number[] => {
+    const plan = planMigrations(db);
+    db.exec(CREATE_SCHEMA_VERSION);
+    const insertVersion = db.prepare(
+      "INSERT INTO schema_version (version, name) VALUES (?, ?)"
+    );
+
+    if (plan.adoptedVersion !== null) {
+      for (const sql of plan.adoptionSql) db.exec(sql);
+      for (const m of MIGRATIONS) {
+        if (m.version <= plan.adoptedVersion) insertVersion.run(m.version, m.name);
+      }
+      console.log(
+        `[db] Adopted existing database at schema version ${plan.adoptedVersion}`
+      );
+    }
+
+    for (const migration of plan.pending) {
+      db.exec(migration.sql);
+      insertVersion.run(migration.version, migration.name);
+      console.log(`[db] Applied migration ${migration.version}: ${migration.name}`);
+    }
+
+    return plan.pending.map((m) => m.version);
+  });
+
+  return migrate.immediate();
+}
+
+/**
+ * Render a migration plan as SQL, for `setup-db --dry-run`.
+ */
+export function formatMigrationPlan(plan: MigrationPlan): string {
+  const parts: string[] = [];
+
+  if (plan.adoptedVersion !== null) {
+    parts.push(
+      `-- Existing database without schema_version: adopt at version ${plan.adoptedVersion}`
+    );
+    for (const sql of plan.adoptionSql) parts.push(`${sql.trim()};`);
+  }
+
+  for (const m of plan.pending) {
+    parts.push(`-- Migration ${m.version}: ${m.name}`);
+    parts.push(m.sql.replace(/^\n+|\s+$/g, "").replace(/^ {6}/gm, ""));
+  }
+
+  return parts.join("\n\n");
+}
@@ -0,0 +1,429 @@
+import type { MEFramework, MilestoneMapping } from "./types";
+
+// ---------------------------------------------------------------------------
+// Milestone configuration
+//
+// Milestones are declared entirely in data/milestone-mappings.json — slug,
+// titles, sidebar icon, target, metrics, presentation and KPI sources — and
+// listed across the dashboard in that file's order. me-framework.json adds
+// an M&E framework for any of them. Routes, navigation and the refresh all
+// read the list from here, so adding a milestone needs no code changes.
+// Both files are checked when loaded and fail with every problem listed,
+// rather than rendering a half-configured milestone.
+// ---------------------------------------------------------------------------
+
+type JsonObject = Record<string, unknown>;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const METRIC_ROLES = ["primary", "secondary", "leading"];
+const COMPARISON_MODES = ["absolute", "annualised", "cumulative", "delta-from-baseline", "comparative"];
+const REFERENCE_LINES = ["target", "annual-rate", "none"];
+const SOURCE_TYPES = ["spreadsheet", "ons-timeseries", "custom"];
+const PERIOD_AXES = ["rows", "columns"];
+const PERIOD_FORMATS = ["excel-date", "iso-date", "month-name", "quarter", "year", "financial-year"];
+const GRANULARITIES = ["day", "month", "quarter", "year", "financial-year"];
+
+// Fields each discovery method needs, beyond its method
+const DISCOVERY_FIELDS: Record<string, { strings: string[]; patterns: boolean }> = {
+  url: { strings: ["url"], patterns: false },
+  "page-links": { strings: ["url"], patterns: true },
+  "govuk-content": { strings: ["path"], patterns: true },
+  "govuk-search": { strings: ["query"], patterns: true },
+  "ons-series": { strings: ["topicPath", "datasetId", "seriesId", "label"], patterns: false },
+  adapter: { strings: [], patterns: false },
+};
+
+/**
+ * refresh_steps ids of the dedicated fetchers (FetcherSourceId in
+ * refresh-log.ts). KPI sources are recorded under their own ids in the same
+ * table, so they may not reuse one of these.
+ */
+export const FETCHER_SOURCE_IDS = [
+  "govuk",
+  "bills",
+  "legislation",
+  "commencement",
+  "committees",
+  "debates",
+  "written-questions",
+  "guardian",
+  "rss",
+  "newsapi",
+  "ai-rationale",
+  "ai-briefings",
+] as const;
+
+const STRING_LISTS = [
+  "departments",
+  "govukSearchTerms",
+  "govukDocTypes",
+  "billSearchTerms",
+  "billExcludeTerms",
+  "debateSearchTerms",
+  "guardianTags",
+  "guardianSearchTerms",
+  "legislationSearchTerms",
+  "mediaKeywords",
+];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Each check records problems against a path such as "housing.target.value". */
+function fail(issues: string[], path: string, problem: string): void {
+  issues.push(`${path}: ${problem}`);
+}
+
+function expectObject(issues: string[], obj: JsonObject, key: string, path: string): JsonObject | null {
+  if (isObject(obj[key])) return obj[key] as JsonObject;
+  fail(issues, `${path}.${key}`, "expected an object");
+  return null;
+}
+
+function expectString(issues: string[], obj: JsonObject, key: string, path: string, optional = false): void {
+  const value = obj[key];
+  if (optional && value === undefined) return;
+  if (typeof value !== "string" || value.trim() === "") {
+    fail(issues, `${path}.${key}`, "expected a non-empty string");
+  }
+}
+
+function expectNumber(issues: string[], obj: JsonObject, key: string, path: string, nullable = false): void {
+  const value = obj[key];
+  if (nullable && value === null) return;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(issues, `${path}.${key}`, nullable ? "expected a number or null" : "expected a number");
+  }
+}
+
+function expectIsoDate(issues: string[], obj: JsonObject, key: string, path: string): void {
+  const value = obj[key];
+  if (typeof value !== "string" || !ISO_DATE.test(value) || Number.isNaN(Date.parse(value))) {
+    fail(issues, `${path}.${key}`, "expected an ISO date such as 2024-07-04");
+  }
+}
+
+function expectBoolean(issues: string[], obj: JsonObject, key: string, path: string): void {
+  if (typeof obj[key] !== "boolean") fail(issues, `${path}.${key}`, "expected true or false");
+}
+
+function expectOneOf(issues: string[], obj: JsonObject, key: string, allowed: string[], path: string): void {
+  if (!allowed.includes(obj[key] as string)) {
+    fail(issues, `${path}.${key}`, `expected one of ${allowed.join(", ")}`);
+  }
+}
+
+function expectArray(issues: string[], obj: JsonObject, key: string, path: string): unknown[] {
+  if (Array.isArray(obj[key])) return obj[key] as unknown[];
+  fail(issues, `${path}.${key}`, "expected an array");
+  return [];
+}
+
+function expectStrings(issues: string[], obj: JsonObject, key: string, path: string): void {
+  if (expectArray(issues, obj, key, path).some((v) => typeof v !== "string")) {
+    fail(issues, `${path}.${key}`, "expected strings only");
+  }
+}
+
+/** A list of case-insensitive regexes, as the discovery steps and table specs take them. */
+function checkPatterns(issues: string[], patterns: unknown, path: string): void {
+  if (!Array.isArray(patterns)) return fail(issues, path, "expected an array");
+  if (patterns.length === 0) return fail(issues, path, "expected at least one pattern");
+  patterns.forEach((pattern, i) => {
+    if (typeof pattern !== "string") return fail(issues, `${path}[${i}]`, "expected a string");
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      fail(issues, `${path}[${i}]`, "not a valid regular expression");
+    }
+  });
+}
+
+function expectPatterns(issues: string[], obj: JsonObject, key: string, path: string, optional = false): void {
+  if (optional && obj[key] === undefined) return;
+  checkPatterns(issues, obj[key], `${path}.${key}`);
+}
+
+function expectOptionalNumber(issues: string[], obj: JsonObject, key: string, path: string): void {
+  if (obj[key] !== undefined) expectNumber(issues, obj, key, path);
+}
+
+function checkMetrics(issues: string[], mapping: JsonObject, path: string): Set<string> {
+  const ids = new Set<string>();
+  const metrics = expectArray(issues, mapping, "metrics", path);
+  metrics.forEach((metric, i) => {
+    const at = `${path}.metrics[${i}]`;
+    if (!isObject(metric)) return fail(issues, at, "expected an object");
+    expectString(issues, metric, "id", at);
+    expectString(issues, metric, "label", at);
+    expectString(issues, metric, "unit", at);
+    expectOneOf(issues, metric, "role", METRIC_ROLES, at);
+    if (ids.has(metric.id as string)) fail(issues, at, `duplicate metric id "${metric.id}"`);
+    ids.add(metric.id as string);
+  });
+  const primaries = metrics.filter((m) => isObject(m) && m.role === "primary").length;
+  if (primaries !== 1) fail(issues, `${path}.metrics`, `expected one primary metric, found ${primaries}`);
+  return ids;
+}
+
+function checkPresentation(issues: string[], mapping: JsonObject, metricIds: Set<string>, path: string): void {
+  const presentation = expectObject(issues, mapping, "presentation", path);
+  if (!presentation) return;
+  const at = `${path}.presentation`;
+  expectOneOf(issues, presentation, "mode", COMPARISON_MODES, at);
+  expectOneOf(issues, presentation, "referenceLine", REFERENCE_LINES, at);
+  expectString(issues, presentation, "targetText", at, true);
+  expectString(issues, presentation, "valueLabel", at, true);
+
+  if (presentation.rag !== null) {
+    const rag = expectObject(issues, presentation, "rag", at);
+    if (rag) {
+      expectNumber(issues, rag, "green", `${at}.rag`);
+      expectNumber(issues, rag, "amber", `${at}.rag`);
+      if ((rag.amber as number) > (rag.green as number)) {
+        fail(issues, `${at}.rag`, "amber threshold is above green");
+      }
+    }
+  }
+
+  const mode = presentation.mode;
+  if (mode === "annualised" || mode === "cumulative" || presentation.referenceLine === "annual-rate") {
+    expectNumber(issues, presentation, "periodYears", at);
+  }
+  if (mode === "cumulative") {
+    expectIsoDate(issues, presentation, "periodStart", at);
+    if (presentation.proxyMetric !== undefined && !metricIds.has(presentation.proxyMetric as string)) {
+      fail(issues, `${at}.proxyMetric`, `unknown metric "${presentation.proxyMetric}"`);
+    }
+  }
+  if (mode === "delta-from-baseline") {
+    expectString(issues, presentation, "baselineDate", at);
+  }
+}
+
+function checkDiscovery(issues: string[], source: JsonObject, path: string): void {
+  expectArray(issues, source, "discovery", path).forEach((step, i) => {
+    const at = `${path}.discovery[${i}]`;
+    if (!isObject(step)) return fail(issues, at, "expected an object");
+    const fields = DISCOVERY_FIELDS[step.method as string];
+    if (!fields) return expectOneOf(issues, step, "method", Object.keys(DISCOVERY_FIELDS), at);
+    for (const key of fields.strings) expectString(issues, step, key, at);
+    if (fields.patterns) expectPatterns(issues, step, "linkPatterns", at);
+    if (step.method === "govuk-search") {
+      expectString(issues, step, "organisation", at, true);
+      expectString(issues, step, "documentType", at, true);
+      expectString(issues, step, "titlePattern", at, true);
+    }
+  });
+}
+
+function checkTableSpecs(issues: string[], owner: JsonObject, key: string, path: string): void {
+  expectArray(issues, owner, key, path).forEach((spec, i) => {
+    const at = `${path}.${key}[${i}]`;
+    if (!isObject(spec)) return fail(issues, at, "expected an object");
+    expectString(issues, spec, "id", at);
+    expectOneOf(issues, spec, "periodAxis", PERIOD_AXES, at);
+    expectPatterns(issues, spec, "header", at, true);
+    expectOptionalNumber(issues, spec, "labelColumn", at);
+    expectOptionalNumber(issues, spec, "scanRows", at);
+
+    const period = expectObject(issues, spec, "period", at);
+    if (period) {
+      const formats = expectArray(issues, period, "formats", `${at}.period`);
+      if (formats.length === 0 || formats.some((f) => !PERIOD_FORMATS.includes(f as string))) {
+        fail(issues, `${at}.period.formats`, `expected one or more of ${PERIOD_FORMATS.join(", ")}`);
+      }
+      if (period.granularity !== undefined) {
+        expectOneOf(issues, period, "granularity", GRANULARITIES, `${at}.period`);
+      }
+      expectPatterns(issues, period, "match", `${at}.period`, true);
+      expectOptionalNumber(issues, period, "column", `${at}.period`);
+    }
+
+    const value = expectObject(issues, spec, "value", at);
+    if (value) {
+      expectPatterns(issues, value, "match", `${at}.value`);
+      if (value.plus !== undefined) {
+        expectArray(issues, value, "plus", `${at}.value`).forEach((series, j) => {
+          checkPatterns(issues, series, `${at}.value.plus[${j}]`);
+        });
+      }
+      expectPatterns(issues, value, "per", `${at}.value`, true);
+      expectOptionalNumber(issues, value, "min", `${at}.value`);
+    }
+
+    if (spec.scale === undefined) return;
+    const scale = expectObject(issues, spec, "scale", at);
+    if (scale) {
+      if (scale.fractionToPercent !== undefined) expectBoolean(issues, scale, "fractionToPercent", `${at}.scale`);
+      expectOptionalNumber(issues, scale, "multiply", `${at}.scale`);
+      expectOptionalNumber(issues, scale, "decimals", `${at}.scale`);
+    }
+  });
+}
+
+/** Source ids and labels already used by earlier milestones; both must be unique across the file. */
+interface SeenSources {
+  ids: Set<string>;
+  labels: Set<string>;
+}
+
+function checkKpiSources(
+  issues: string[],
+  mapping: JsonObject,
+  metricIds: Set<string>,
+  seen: SeenSources,
+  path: string
+): void {
+  expectArray(issues, mapping, "kpiSources", path).forEach((source, i) => {
+    const at = `${path}.kpiSources[${i}]`;
+    if (!isObject(source)) return fail(issues, at, "expected an object");
+    expectString(issues, source, "id", at);
+    expectString(issues, source, "label", at);
+    expectOneOf(issues, source, "sourceType", SOURCE_TYPES, at);
+    expectNumber(issues, source, "maxAgeDays", at);
+
+    // refresh_steps and quarantine rows are keyed by id, refresh-all's tasks by label
+    const id = source.id as string;
+    if ((FETCHER_SOURCE_IDS as readonly string[]).includes(id)) {
+      fail(issues, `${at}.id`, `"${id}" is reserved for the ${id} fetcher`);
+    } else if (seen.ids.has(id)) {
+      fail(issues, `${at}.id`, `duplicate KPI source id "${id}"`);
+    }
+    seen.ids.add(id);
+    if (seen.labels.has(source.label as string)) {
+      fail(issues, `${at}.label`, `duplicate KPI source label "${source.label}"`);
+    }
+    seen.labels.add(source.label as string);
+
+    checkDiscovery(issues, source, at);
+    if (source.tableLocator !== undefined) {
+      const locator = expectObject(issues, source, "tableLocator", at);
+      if (locator) {
+        expectPatterns(issues, locator, "sheets", `${at}.tableLocator`);
+        checkTableSpecs(issues, locator, "tables", `${at}.tableLocator`);
+      }
+    }
+
+    const transform = expectObject(issues, source, "transform", at);
+    if (transform) {
+      expectString(issues, transform, "adapter", `${at}.transform`);
+      expectString(issues, transform, "seriesId", `${at}.transform`);
+      if (transform.metric !== undefined && !metricIds.has(transform.metric as string)) {
+        fail(issues, `${at}.transform.metric`, `unknown metric "${transform.metric}"`);
+      }
+    }
+    if (source.secondary === undefined) return;
+    if (!isObject(source.tableLocator)) fail(issues, `${at}.secondary`, "needs the source's tableLocator sheets");
+    expectArray(issues, source, "secondary", at).forEach((series, j) => {
+      const seriesAt = `${at}.secondary[${j}]`;
+      if (!isObject(series)) return fail(issues, seriesAt, "expected an object");
+      if (!metricIds.has(series.metric as string)) {
+        fail(issues, `${seriesAt}.metric`, `unknown metric "${series.metric}"`);
+      }
+      expectString(issues, series, "seriesId", seriesAt);
+      checkTableSpecs(issues, series, "tables", seriesAt);
+    });
+  });
+}
+
+/** Problems with the contents of milestone-mappings.json; empty if it is valid. */
+export function validateMilestoneMappings(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!Array.isArray(data) || data.length === 0) {
+    fail(issues, "milestone-mappings", "expected a non-empty array of milestones");
+    return issues;
+  }
+
+  const slugs = new Set<string>();
+  const sources: SeenSources = { ids: new Set(), labels: new Set() };
+  data.forEach((mapping, i) => {
+    if (!isObject(mapping)) return fail(issues, `[${i}]`, "expected an object");
+    const slug = mapping.slug;
+    const path = typeof slug === "string" && slug ? slug : `[${i}]`;
+    if (typeof slug !== "string" || !SLUG_PATTERN.test(slug)) {
+      fail(issues, `${path}.slug`, "expected lowercase words joined by hyphens");
+    } else if (slugs.has(slug)) {
+      fail(issues, `${path}.slug`, "duplicate slug");
+    }
+    slugs.add(slug as string);
+
+    for (const key of ["title", "shortTitle", "description", "icon"]) expectString(issues, mapping, key, path);
+    const target = expectObject(issues, mapping, "target", path);
+    if (target) {
+      expectNumber(issues, target, "value", `${path}.target`);
+      expectString(issues, target, "unit", `${path}.target`);
+      expectString(issues, target, "date", `${path}.target`);
+      expectString(issues, target, "kpiLabel", `${path}.target`);
+      expectBoolean(issues, target, "higherIsBetter", `${path}.target`);
+    }
+    const metricIds = checkMetrics(issues, mapping, path);
+    checkPresentation(issues, mapping, metricIds, path);
+    for (const key of STRING_LISTS) expectStrings(issues, mapping, key, path);
+    expectArray(issues, mapping, "committeeIds", path);
+    expectArray(issues, mapping, "mediaFeeds", path);
+    checkKpiSources(issues, mapping, metricIds, sources, path);
+  });
+  return issues;
+}
+
+/** Problems with the contents of me-framework.json; empty if it is valid. */
+export function validateMEFrameworks(data: unknown, milestoneSlugs: string[]): string[] {
+  const issues: string[] = [];
+  if (!Array.isArray(data)) {
+    fail(issues, "me-framework", "expected an array of frameworks");
+    return issues;
+  }
+
+  const seen = new Set<string>();
+  data.forEach((framework, i) => {
+    if (!isObject(framework)) return fail(issues, `[${i}]`, "expected an object");
+    const path = typeof framework.slug === "string" ? framework.slug : `[${i}]`;
+    if (!milestoneSlugs.includes(framework.slug as string)) {
+      fail(issues, `${path}.slug`, "not a milestone in milestone-mappings.json");
+    } else if (seen.has(path)) {
+      fail(issues, `${path}.slug`, "more than one framework for this milestone");
+    }
+    seen.add(path);
+
+    for (const key of ["documentSource", "mission", "theoryOfChange"]) expectString(issues, framework, key, path);
+    const baseline = expectObject(issues, framework, "baseline", path);
+    if (baseline) {
+      expectString(issues, baseline, "date", `${path}.baseline`);
+      expectArray(issues, baseline, "metrics", `${path}.baseline`);
+    }
+    const target = expectObject(issues, framework, "target", path);
+    if (target) expectNumber(issues, target, "value", `${path}.target`, true);
+    const trajectory = expectObject(issues, framework, "requiredTrajectory", path);
+    if (trajectory) {
+      expectNumber(issues, trajectory, "annualRateNeeded", `${path}.requiredTrajectory`, true);
+    }
+    expectStrings(issues, framework, "pillars", path);
+
+    expectArray(issues, framework, "deliverables", path).forEach((deliverable, j) => {
+      const at = `${path}.deliverables[${j}]`;
+      if (!isObject(deliverable)) return fail(issues, at, "expected an object");
+      for (const key of ["id", "commitment", "expectedDate", "category"]) expectString(issues, deliverable, key, at);
+      expectStrings(issues, deliverable, "searchTerms", at);
+    });
+  });
+  return issues;
+}
+
+function invalid(file: string, issues: string[]): Error {
+  return new Error(`[milestones] Invalid ${file}:\n  ${issues.join("\n  ")}`);
+}
+
+export function loadMilestoneMappings(data: unknown): MilestoneMapping[] {
+  const issues = validateMilestoneMappings(data);
+  if (issues.length > 0) throw invalid("data/milestone-mappings.json", issues);
+  return data as MilestoneMapping[];
+}
+
+export function loadMEFrameworks(data: unknown, milestoneSlugs: string[]): MEFramework[] {
+  const issues = validateMEFrameworks(data, milestoneSlugs);
+  if (issues.length > 0) throw invalid("data/me-framework.json", issues);
+  return data as MEFramework[];
+}
@@ -1,8 +1,9 @@
-import type { MilestoneMapping, MilestoneSlug, Milestone } from "./types";
+import type { KpiMetric, MilestoneMapping, MilestoneSlug, Milestone } from "./types";
+import { loadMilestoneMappings } from "./milestone-config";
 import mappingsData from "../../data/milestone-mappings.json";
 
-export const milestoneMappings: MilestoneMapping[] =
-  mappingsData as MilestoneMapping[];
+/** Every milestone, in display order. Throws if the file is invalid. */
+export const milestoneMappings: MilestoneMapping[] = loadMilestoneMappings(mappingsData);
 
 export function getMilestoneMapping(
   slug: MilestoneSlug
@@ -17,24 +18,29 @@ export function getMilestone(slug: MilestoneSlug): Milestone {
     slug: mapping.slug,
     title: mapping.title,
     shortTitle: mapping.shortTitle,
+    icon: mapping.icon,
     description: mapping.description,
     targetValue: mapping.target.value,
     targetUnit: mapping.target.unit,
     targetDate: mapping.target.date,
     kpiLabel: mapping.target.kpiLabel,
     higherIsBetter: mapping.target.higherIsBetter,
+    metrics: [...mapping.metrics].sort(
+      (a, b) => Number(b.role === "primary") - Number(a.role === "primary")
+    ),
+    presentation: mapping.presentation,
   };
 }
 
+/** The headline metric a milestone's target is measured on. */
+export function getPrimaryMetric(slug: MilestoneSlug): KpiMetric {
+  const metric = getMilestoneMapping(slug)?.metrics.find((m) => m.role === "primary");
+  if (!metric) throw new Error(`No primary metric for milestone: ${slug}`);
+  return metric;
+}
+
 export function getAllMilestones(): Milestone[] {
   return milestoneMappings.map((m) => getMilestone(m.slug));
 }
 
-export const MILESTONE_SLUGS: MilestoneSlug[] = [
-  "economic-growth",
-  "housing",
-  "nhs",
-  "policing",
-  "education",
-  "clean-energy",
-];
+export const MILESTONE_SLUGS: MilestoneSlug[] = milestoneMappings.map((m) => m.slug);
@@ -0,0 +1,129 @@
+import type { KpiPeriod, KpiSnapshot } from "./types";
+
+// ---------------------------------------------------------------------------
+// KPI periods
+//
+// Each source identifies a value's period by one date, and not the same one:
+// ONS and the house building tables use a quarter's first day, Live Table 120
+// a financial year's last, NHS RTT a month's first and the EYFS results the
+// September after the school year. A KpiPeriod states the span explicitly.
+// Adapters build them with the constructors here, which also generate every
+// period label, and snapshots store them beside the date (which stays the
+// key a source's periods are stored under).
+// ---------------------------------------------------------------------------
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function iso(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/** Last day of the month `months` after (year, month). */
+function lastDay(year: number, month: number, months: number): string {
+  return iso(year, month + months, 0);
+}
+
+function parts(date: string): [number, number, number] {
+  const [y, m, d] = date.split("-").map(Number);
+  return [y, m, d];
+}
+
+/** A point in time, e.g. a workforce headcount "as at 31 March 2024". */
+export function dayPeriod(date: string): KpiPeriod {
+  return { start: date, end: date, granularity: "day", calendar: "calendar" };
+}
+
+export function monthPeriod(year: number, month: number): KpiPeriod {
+  return {
+    start: `${year}-${pad(month)}-01`,
+    end: lastDay(year, month, 1),
+    granularity: "month",
+    calendar: "calendar",
+  };
+}
+
+export function quarterPeriod(year: number, quarter: number): KpiPeriod {
+  const month = (quarter - 1) * 3 + 1;
+  return {
+    start: `${year}-${pad(month)}-01`,
+    end: lastDay(year, month, 3),
+    granularity: "quarter",
+    calendar: "calendar",
+  };
+}
+
+export function calendarYearPeriod(year: number): KpiPeriod {
+  return { start: `${year}-01-01`, end: `${year}-12-31`, granularity: "year", calendar: "calendar" };
+}
+
+/** April to March; `endYear` 2024 is 2023-24. */
+export function financialYearPeriod(endYear: number): KpiPeriod {
+  return {
+    start: `${endYear - 1}-04-01`,
+    end: `${endYear}-03-31`,
+    granularity: "year",
+    calendar: "financial",
+  };
+}
+
+/** September to August; `startYear` 2023 is 2023/24. */
+export function academicYearPeriod(startYear: number): KpiPeriod {
+  return {
+    start: `${startYear}-09-01`,
+    end: `${startYear + 1}-08-31`,
+    granularity: "year",
+    calendar: "academic",
+  };
+}
+
+/** "31 Mar 2024", "Mar 2024", "Q1 2024", "2024", "2023-24" or "2023/24". */
+export function periodLabel(period: KpiPeriod): string {
+  const [year, month, day] = parts(period.start);
+  switch (period.granularity) {
+    case "day":
+      return `${day} ${MONTHS[month - 1]} ${year}`;
+    case "month":
+      return `${MONTHS[month - 1]} ${year}`;
+    case "quarter":
+      return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+    case "year": {
+      const next = String(year + 1).slice(2);
+      if (period.calendar === "financial") return `${year}-${next}`;
+      if (period.calendar === "academic") return `${year}/${next}`;
+      return String(year);
+    }
+  }
+}
+
+/** ISO date halfway through the period; the period's own date for a point in time. */
+export function periodMidpoint(period: KpiPeriod): string {
+  const start = Date.parse(`${period.start}T00:00:00Z`);
+  const end = Date.parse(`${period.end}T00:00:00Z`);
+  const midnight = Math.floor((start + end) / 2 / 86_400_000) * 86_400_000;
+  return new Date(midnight).toISOString().slice(0, 10);
+}
+
+/** Where a snapshot sits on a time axis: its period's midpoint, else its date. */
+export function snapshotMidpoint(snapshot: Pick<KpiSnapshot, "date" | "period">): string {
+  return snapshot.period ? periodMidpoint(snapshot.period) : snapshot.date;
+}
+
+/** A snapshot's label, generated from its period where one is stored. */
+export function snapshotLabel(snapshot: Pick<KpiSnapshot, "date" | "label" | "period">): string {
+  return snapshot.period ? periodLabel(snapshot.period) : snapshot.label || snapshot.date;
+}
+
+/** Read the period columns of a kpi_snapshots row; null if they were never filled in. */
+export function periodFromRow(row: Record<string, unknown>): KpiPeriod | null {
+  if (!row.period_start || !row.period_end || !row.granularity || !row.calendar) return null;
+  return {
+    start: row.period_start as string,
+    end: row.period_end as string,
+    granularity: row.granularity as KpiPeriod["granularity"],
+    calendar: row.calendar as KpiPeriod["calendar"],
+  };
+}
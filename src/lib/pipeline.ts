@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// Task graph runner for the data refresh
+//
+// Tasks start as soon as everything they depend on has settled, with at most
+// `concurrency` running at once. Dependencies only order tasks: a task still
+// runs if one of its dependencies failed (e.g. commencement is worth fetching
+// even if one milestone's bill search errored).
+// ---------------------------------------------------------------------------
+
+export interface PipelineTask<R> {
+  id: string;
+  dependsOn?: string[];
+  run: () => Promise<R>;
+}
+
+/**
+ * Run a task graph and return each task's settled result, keyed by id.
+ * Throws before starting anything if a dependency is unknown or cyclic.
+ */
+export async function runPipeline<R>(
+  tasks: PipelineTask<R>[],
+  concurrency: number
+): Promise<Map<string, PromiseSettledResult<R>>> {
+  validateGraph(tasks);
+
+  const results = new Map<string, PromiseSettledResult<R>>();
+  const pending = [...tasks];
+  const running = new Map<string, Promise<void>>();
+
+  const isReady = (task: PipelineTask<R>) =>
+    (task.dependsOn ?? []).every((id) => results.has(id));
+
+  const start = (task: PipelineTask<R>) => {
+    const settled = Promise.resolve()
+      .then(() => task.run())
+      .then(
+        (value): PromiseSettledResult<R> => ({ status: "fulfilled", value }),
+        (reason): PromiseSettledResult<R> => ({ status: "rejected", reason })
+      )
+      .then((result) => {
+        results.set(task.id, result);
+        running.delete(task.id);
+      });
+    running.set(task.id, settled);
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    // Start ready tasks in list order, so earlier tasks get slots first
+    for (let i = 0; i < pending.length && running.size < concurrency; ) {
+      if (isReady(pending[i])) {
+        start(pending.splice(i, 1)[0]);
+      } else {
+        i++;
+      }
+    }
+    await Promise.race(running.values());
+  }
+
+  return results;
+}
+
+function validateGraph<R>(tasks: PipelineTask<R>[]): void {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  if (byId.size !== tasks.length) {
+    throw new Error("[pipeline] Duplicate task ids");
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (id: string, from: string) => {
+    const task = byId.get(id);
+    if (!task) throw new Error(`[pipeline] Task "${from}" depends on unknown task "${id}"`);
+    if (visited.has(id)) return;
+    if (visiting.has(id)) throw new Error(`[pipeline] Dependency cycle through "${id}"`);
+    visiting.add(id);
+    for (const dep of task.dependsOn ?? []) visit(dep, id);
+    visiting.delete(id);
+    visited.add(id);
+  };
+  for (const task of tasks) visit(task.id, task.id);
+}
@@ -1,4 +1,6 @@
 import { getDb } from "./db";
+import { getPrimaryMetric } from "./milestones";
+import { periodFromRow } from "./periods";
 import type {
   MilestoneSlug,
   KpiSnapshot,
@@ -13,14 +15,20 @@ import type {
 // Row-to-model mappers (DB uses snake_case, TS uses camelCase)
 // ---------------------------------------------------------------------------
 
-function mapKpiRow(row: Record<string, unknown>): KpiSnapshot {
+export function mapKpiRow(row: Record<string, unknown>): KpiSnapshot {
   return {
     id: row.id as number,
     milestoneSlug: row.milestone_slug as MilestoneSlug,
+    metricId: row.metric_id as string,
     value: row.value as number,
     date: row.date as string,
     label: (row.label as string) ?? undefined,
+    period: periodFromRow(row),
     fetchedAt: row.fetched_at as string,
+    seriesId: (row.series_id as string) ?? null,
+    sourceUrl: (row.source_url as string) ?? null,
+    sheetName: (row.sheet_name as string) ?? null,
+    parser: (row.parser as string) ?? null,
   };
 }
 
@@ -39,6 +47,10 @@ function mapOutputRow(row: Record<string, unknown>): Output {
     department: (row.department as string) ?? undefined,
     confidence: row.confidence as Output["confidence"],
     dismissed: Boolean(row.dismissed),
+    curationNotes: (row.curation_notes as string) ?? undefined,
+    provisionsInForce: (row.provisions_in_force as number) ?? null,
+    provisionsPending: (row.provisions_pending as number) ?? null,
+    commencementRegulationCount: (row.regulation_count as number) ?? null,
   };
 }
 
@@ -90,30 +102,37 @@ function mapCommitteeRow(row: Record<string, unknown>): CommitteeInquiry {
 // ---------------------------------------------------------------------------
 
 /**
- * Get all KPI snapshots for a milestone, ordered by date ascending.
+ * Get all KPI snapshots for one of a milestone's metrics (the primary metric
+ * by default), ordered by date ascending.
  */
-export function getKpiHistory(milestoneSlug: MilestoneSlug): KpiSnapshot[] {
+export function getKpiHistory(
+  milestoneSlug: MilestoneSlug,
+  metricId: string = getPrimaryMetric(milestoneSlug).id
+): KpiSnapshot[] {
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date ASC`
+      `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? AND metric_id = ? ORDER BY date ASC`
     )
-    .all(milestoneSlug) as Record<string, unknown>[];
+    .all(milestoneSlug, metricId) as Record<string, unknown>[];
   return rows.map(mapKpiRow);
 }
 
 /**
- * Get the most recent KPI snapshot for a milestone.
+ * Get the most recent KPI snapshot for one of a milestone's metrics (the
+ * primary metric by default).
  */
 export function getLatestKpi(
-  milestoneSlug: MilestoneSlug
+  milestoneSlug: MilestoneSlug,
+  metricId: string = getPrimaryMetric(milestoneSlug).id
 ): KpiSnapshot | undefined {
   const db = getDb();
   const row = db
     .prepare(
-      `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date DESC LIMIT 1`
+      `SELECT * FROM kpi_snapshots WHERE milestone_slug = ? AND metric_id = ?
+       ORDER BY date DESC LIMIT 1`
     )
-    .get(milestoneSlug) as Record<string, unknown> | undefined;
+    .get(milestoneSlug, metricId) as Record<string, unknown> | undefined;
   return row ? mapKpiRow(row) : undefined;
 }
 
@@ -124,9 +143,11 @@ export function getOutputs(milestoneSlug: MilestoneSlug): Output[] {
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM outputs
-       WHERE milestone_slug = ? AND dismissed = 0
-       ORDER BY last_updated DESC`
+      `SELECT o.*, acs.provisions_in_force, acs.provisions_pending, acs.regulation_count
+       FROM curated_outputs o
+       LEFT JOIN act_commencement_summary acs ON acs.output_id = o.id
+       WHERE o.milestone_slug = ? AND o.dismissed = 0
+       ORDER BY o.last_updated DESC`
     )
     .all(milestoneSlug) as Record<string, unknown>[];
   return rows.map(mapOutputRow);
@@ -142,7 +163,7 @@ export function getMediaForMilestone(
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM media_articles
+      `SELECT * FROM milestone_media_articles
        WHERE milestone_slug = ?
        ORDER BY published_date DESC
        LIMIT ?`
@@ -158,8 +179,9 @@ export function getMediaForOutput(outputId: string): MediaArticle[] {
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM media_articles
+      `SELECT * FROM milestone_media_articles
        WHERE output_id = ?
+       GROUP BY id
        ORDER BY published_date DESC`
     )
     .all(outputId) as Record<string, unknown>[];
@@ -176,7 +198,7 @@ export function getDebates(
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM debates
+      `SELECT * FROM milestone_debates
        WHERE milestone_slug = ?
        ORDER BY date DESC
        LIMIT ?`
@@ -194,7 +216,7 @@ export function getCommitteeInquiries(
   const db = getDb();
   const rows = db
     .prepare(
-      `SELECT * FROM committee_inquiries
+      `SELECT * FROM milestone_committee_inquiries
        WHERE milestone_slug = ?
        ORDER BY last_activity DESC`
     )
@@ -213,7 +235,7 @@ export function getOverviewStats(
   const outputCount = (
     db
       .prepare(
-        `SELECT COUNT(*) as cnt FROM outputs
+        `SELECT COUNT(*) as cnt FROM curated_outputs
          WHERE milestone_slug = ? AND dismissed = 0`
       )
       .get(milestoneSlug) as { cnt: number }
@@ -222,7 +244,7 @@ export function getOverviewStats(
   const recentMediaCount = (
     db
       .prepare(
-        `SELECT COUNT(*) as cnt FROM media_articles
+        `SELECT COUNT(*) as cnt FROM milestone_media_articles
          WHERE milestone_slug = ?
            AND published_date >= date('now', '-7 days')`
       )
@@ -232,7 +254,7 @@ export function getOverviewStats(
   const billCount = (
     db
       .prepare(
-        `SELECT COUNT(*) as cnt FROM outputs
+        `SELECT COUNT(*) as cnt FROM curated_outputs
          WHERE milestone_slug = ? AND type = 'bill' AND dismissed = 0`
       )
       .get(milestoneSlug) as { cnt: number }
@@ -253,7 +275,7 @@ export function getBillStagesForMilestone(
     .prepare(
       `SELECT bs.output_id, bs.name, bs.house, bs.date, bs.completed
        FROM bill_stages bs
-       JOIN outputs o ON o.id = bs.output_id
+       JOIN curated_outputs o ON o.id = bs.output_id
        WHERE o.milestone_slug = ? AND o.type = 'bill' AND o.dismissed = 0
        ORDER BY bs.id ASC`
     )
@@ -0,0 +1,222 @@
+import { getDb } from "./db";
+import { FETCHER_SOURCE_IDS } from "./milestone-config";
+import { getMilestoneMapping, getPrimaryMetric, milestoneMappings } from "./milestones";
+import type { MilestoneSlug } from "./types";
+
+// ---------------------------------------------------------------------------
+// Refresh run log and data freshness
+//
+// refresh-all records every run in refresh_runs and every fetcher call in
+// refresh_steps. The status page and the KPI "data as of" badges read the
+// same tables, so "last succeeded" always means a fetch that actually wrote
+// or confirmed data, not just one that was attempted.
+// ---------------------------------------------------------------------------
+
+/** Sources with a dedicated fetcher; KPI source ids come from the mappings config. */
+export type FetcherSourceId = (typeof FETCHER_SOURCE_IDS)[number];
+
+export interface DataSource {
+  id: string;
+  label: string;
+  /** Flag the source as stale once its last success is older than this. */
+  maxAgeDays: number;
+  /** Set for KPI sources: the milestone whose headline KPI they feed. */
+  kpiFor?: MilestoneSlug;
+}
+
+const FETCHER_SOURCES: Array<DataSource & { id: FetcherSourceId }> = [
+  { id: "govuk", label: "GOV.UK outputs", maxAgeDays: 7 },
+  { id: "bills", label: "Parliament bills", maxAgeDays: 7 },
+  { id: "legislation", label: "Legislation", maxAgeDays: 7 },
+  { id: "commencement", label: "Act commencement", maxAgeDays: 30 },
+  { id: "committees", label: "Committee inquiries", maxAgeDays: 14 },
+  { id: "debates", label: "Debates", maxAgeDays: 7 },
+  { id: "written-questions", label: "Written questions", maxAgeDays: 7 },
+  { id: "guardian", label: "The Guardian", maxAgeDays: 3 },
+  { id: "rss", label: "RSS feeds", maxAgeDays: 3 },
+  { id: "newsapi", label: "NewsAPI", maxAgeDays: 3 },
+  { id: "ai-rationale", label: "AI rationale", maxAgeDays: 14 },
+  { id: "ai-briefings", label: "AI briefings", maxAgeDays: 14 },
+];
+
+/**
+ * Every source refresh-all records, in the order the status page lists them:
+ * KPI sources first, with thresholds set per source in the mappings config.
+ */
+export const DATA_SOURCES: DataSource[] = [
+  ...milestoneMappings.flatMap((m) =>
+    m.kpiSources.map((s) => ({ id: s.id, label: s.label, maxAgeDays: s.maxAgeDays, kpiFor: m.slug }))
+  ),
+  ...FETCHER_SOURCES,
+];
+
+export type RefreshStepStatus = "ok" | "partial" | "failed" | "skipped";
+
+export interface RefreshStepRecord {
+  step: string;
+  source: string;
+  milestoneSlug?: MilestoneSlug;
+  startedAt: Date;
+  finishedAt: Date;
+  status: RefreshStepStatus;
+  rowsWritten: number;
+  failedRequests: number;
+  error?: string;
+  sourceUrl?: string;
+}
+
+export interface SourceFreshness {
+  source: DataSource;
+  lastSuccessAt: string | null; // ISO datetime (UTC)
+  lastAttemptAt: string | null;
+  lastStatus: RefreshStepStatus | null;
+  lastError: string | null;
+  sourceUrl: string | null;
+  ageDays: number | null; // days since lastSuccessAt
+  stale: boolean; // never succeeded, or last success older than maxAgeDays
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** SQLite datetime('now') format, so recorded and defaulted times compare. */
+function toSqlDatetime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** Open a run and return its id. */
+export function startRefreshRun(options: unknown): number {
+  const result = getDb()
+    .prepare("INSERT INTO refresh_runs (options) VALUES (?)")
+    .run(JSON.stringify(options));
+  return Number(result.lastInsertRowid);
+}
+
+export function recordRefreshStep(runId: number, record: RefreshStepRecord): void {
+  getDb()
+    .prepare(
+      `INSERT INTO refresh_steps
+        (run_id, step, source, milestone_slug, started_at, finished_at, status,
+         rows_written, failed_requests, error, source_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      runId,
+      record.step,
+      record.source,
+      record.milestoneSlug ?? null,
+      toSqlDatetime(record.startedAt),
+      toSqlDatetime(record.finishedAt),
+      record.status,
+      record.rowsWritten,
+      record.failedRequests,
+      record.error ?? null,
+      record.sourceUrl ?? null
+    );
+}
+
+export function finishRefreshRun(runId: number, status: "ok" | "failed"): void {
+  getDb()
+    .prepare("UPDATE refresh_runs SET finished_at = datetime('now'), status = ? WHERE id = ?")
+    .run(status, runId);
+}
+
+// ---------------------------------------------------------------------------
+// Freshness
+// ---------------------------------------------------------------------------
+
+/** Parse a SQLite UTC datetime ("YYYY-MM-DD HH:MM:SS"). */
+export function parseSqlDatetime(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
+/** A SQLite UTC datetime as a date such as "4 Jul 2024". */
+export function formatSqlDate(value: string): string {
+  return parseSqlDatetime(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * When each source last succeeded and whether it is stale. A source that is
+ * fetched per milestone only counts as fresh as its least recently refreshed
+ * milestone, so a `--milestone nhs` run does not make every milestone look
+ * up to date. Returns every source, including those never run.
+ */
+export function getSourceFreshness(now: Date = new Date()): SourceFreshness[] {
+  const db = getDb();
+
+  const successes = db
+    .prepare(
+      `WITH per_milestone AS (
+         SELECT source, MAX(finished_at) AS last_success
+         FROM refresh_steps
+         WHERE status IN ('ok', 'partial')
+         GROUP BY source, milestone_slug
+       )
+       SELECT source, MIN(last_success) AS lastSuccessAt
+       FROM per_milestone
+       GROUP BY source`
+    )
+    .all() as { source: string; lastSuccessAt: string }[];
+
+  // Most recent attempt per source, skipped steps aside
+  const attempts = db
+    .prepare(
+      `SELECT s.source, s.finished_at AS lastAttemptAt, s.status AS lastStatus,
+              s.error AS lastError, s.source_url AS sourceUrl
+       FROM refresh_steps s
+       WHERE s.id = (
+         SELECT MAX(id) FROM refresh_steps
+         WHERE source = s.source AND status != 'skipped'
+       )`
+    )
+    .all() as {
+    source: string;
+    lastAttemptAt: string;
+    lastStatus: RefreshStepStatus;
+    lastError: string | null;
+    sourceUrl: string | null;
+  }[];
+
+  const successBySource = new Map(successes.map((r) => [r.source, r.lastSuccessAt]));
+  const attemptBySource = new Map(attempts.map((r) => [r.source, r]));
+
+  return DATA_SOURCES.map((source) => {
+    const lastSuccessAt = successBySource.get(source.id) ?? null;
+    const attempt = attemptBySource.get(source.id);
+    const ageDays =
+      lastSuccessAt === null
+        ? null
+        : (now.getTime() - parseSqlDatetime(lastSuccessAt).getTime()) / 86_400_000;
+    return {
+      source,
+      lastSuccessAt,
+      lastAttemptAt: attempt?.lastAttemptAt ?? null,
+      lastStatus: attempt?.lastStatus ?? null,
+      lastError: attempt?.lastError ?? null,
+      sourceUrl: attempt?.sourceUrl ?? null,
+      ageDays,
+      stale: ageDays === null || ageDays > source.maxAgeDays,
+    };
+  });
+}
+
+/**
+ * Freshness of the source behind a milestone's headline KPI, if it has one:
+ * the KPI source that stores the primary metric, not whichever is listed first.
+ */
+export function getKpiFreshness(
+  slug: MilestoneSlug,
+  now: Date = new Date()
+): SourceFreshness | null {
+  const primary = getPrimaryMetric(slug).id;
+  const source = getMilestoneMapping(slug)?.kpiSources.find(
+    (s) => (s.transform.metric ?? primary) === primary
+  );
+  if (!source) return null;
+  return getSourceFreshness(now).find((f) => f.source.id === source.id) ?? null;
+}
@@ -0,0 +1,441 @@
+import * as XLSX from "xlsx";
+import {
+  calendarYearPeriod,
+  dayPeriod,
+  financialYearPeriod as financialYearSpan,
+  monthPeriod,
+  periodLabel,
+  quarterPeriod as quarterSpan,
+} from "./periods";
+import type {
+  KpiPeriod,
+  KpiPeriodFormat,
+  KpiPeriodGranularity,
+  KpiPeriodSpec,
+  KpiTableLocator,
+  KpiTableSpec,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Table locator for statistical release spreadsheets
+//
+// Government workbooks change layout between editions, but the tables we read
+// all come down to the same questions: which sheet, which header row, which
+// axis the periods run along, which column or row holds the value, and how
+// the value is scaled. Spreadsheet KPI sources answer those questions in a
+// KpiTableSpec (see milestone-mappings.json); this module does the scanning,
+// cell parsing and period normalisation once for all of them.
+// ---------------------------------------------------------------------------
+
+/** A normalised reporting period. */
+export interface TablePeriod {
+  date: string; // ISO date representing the period, e.g. quarter start
+  label: string; // e.g. "Q1 2024", "Mar 2024", "2023-24"
+  granularity: KpiPeriodGranularity;
+  span: KpiPeriod; // the days the value covers
+}
+
+export interface TablePoint {
+  period: TablePeriod;
+  value: number;
+}
+
+/** Values read from a workbook, with the sheet and spec that produced them. */
+export interface TableSeries {
+  sheetName: string;
+  specId: string;
+  points: TablePoint[];
+}
+
+type Row = unknown[];
+
+const DEFAULT_SCAN_ROWS = 30;
+
+const MONTH_ABBREVS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+/** Quarters as month ranges, as in the house building tables: "Jan-Mar 2024", "2024 Apr to Jun". */
+const QUARTER_MONTH_RANGE =
+  /(?:(\d{4})\s+)?([A-Za-z]{3})[a-z]*\s*(?:-|–|to)\s*[A-Za-z]{3}[a-z]*(?:\s+(\d{4}))?/;
+
+// ---------------------------------------------------------------------------
+// Cell parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a numeric cell. Strips thousands separators, percent signs and
+ * whitespace; suppression markers such as "..", "-" and "[x]" read as null.
+ */
+export function parseNumericCell(cell: unknown): number | null {
+  if (cell == null) return null;
+  if (typeof cell === "number") return isNaN(cell) ? null : cell;
+  if (typeof cell !== "string") return null;
+
+  const cleaned = cell.replace(/[%,\s]/g, "");
+  if (cleaned === "" || cleaned === "-" || cleaned === ".." || /^\[\w+\]$/.test(cleaned)) {
+    return null;
+  }
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : num;
+}
+
+/** Excel serial date number → ISO date string. */
+export function excelDateToISO(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function cellText(cell: unknown): string {
+  return String(cell ?? "").replace(/\s+/g, " ").trim();
+}
+
+function monthIndex(name: string): number {
+  return MONTH_ABBREVS.findIndex((m) => m.toLowerCase() === name.slice(0, 3).toLowerCase());
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// ---------------------------------------------------------------------------
+// Periods
+// ---------------------------------------------------------------------------
+
+function tablePeriod(date: string, granularity: KpiPeriodGranularity, span: KpiPeriod): TablePeriod {
+  return { date, label: periodLabel(span), granularity, span };
+}
+
+function quarterPeriod(year: number, quarter: number): TablePeriod {
+  const span = quarterSpan(year, quarter);
+  return tablePeriod(span.start, "quarter", span);
+}
+
+function yearPeriod(year: number): TablePeriod {
+  const span = calendarYearPeriod(year);
+  return tablePeriod(span.start, "year", span);
+}
+
+/** Financial years end on 31 March and are labelled "2023-24". */
+function financialYearPeriod(endYear: number): TablePeriod {
+  const span = financialYearSpan(endYear);
+  return tablePeriod(span.end, "financial-year", span);
+}
+
+/** Round an exact date to the period containing it. */
+function periodForDate(
+  year: number,
+  month: number, // 1-based
+  day: number,
+  granularity: KpiPeriodGranularity
+): TablePeriod {
+  switch (granularity) {
+    case "day": {
+      const date = `${year}-${pad(month)}-${pad(day)}`;
+      return tablePeriod(date, granularity, dayPeriod(date));
+    }
+    case "month": {
+      const span = monthPeriod(year, month);
+      return tablePeriod(span.start, granularity, span);
+    }
+    case "quarter":
+      return quarterPeriod(year, Math.floor((month - 1) / 3) + 1);
+    case "year":
+      return yearPeriod(year);
+    case "financial-year":
+      return financialYearPeriod(month >= 4 ? year + 1 : year);
+  }
+}
+
+function isPlausibleYear(year: number): boolean {
+  return Number.isInteger(year) && year >= 1990 && year <= 2100;
+}
+
+function parsePeriodAs(
+  cell: unknown,
+  format: KpiPeriodFormat,
+  granularity: KpiPeriodGranularity
+): TablePeriod | null {
+  if (format === "excel-date") {
+    if (typeof cell !== "number" || cell <= 10000 || cell >= 100000) return null;
+    const [y, m, d] = excelDateToISO(cell).split("-").map(Number);
+    return periodForDate(y, m, d, granularity);
+  }
+
+  if (format === "year" && typeof cell === "number") {
+    return isPlausibleYear(cell) ? yearPeriod(cell) : null;
+  }
+  if (typeof cell !== "string") return null;
+  const text = cellText(cell);
+  if (!text) return null;
+
+  switch (format) {
+    case "iso-date": {
+      const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+      return match
+        ? periodForDate(Number(match[1]), Number(match[2]), Number(match[3]), granularity)
+        : null;
+    }
+    case "month-name": {
+      const match = /(?:(\d{1,2})\s+)?([A-Za-z]{3,9})\.?\s+(\d{4})\b/.exec(text);
+      if (!match) return null;
+      const month = monthIndex(match[2]);
+      if (month < 0) return null;
+      return periodForDate(Number(match[3]), month + 1, Number(match[1] ?? 1), granularity);
+    }
+    case "quarter": {
+      const ordinal = /(\d{4})\s+([1-4])(?:st|nd|rd|th)\s+quarter/i.exec(text);
+      if (ordinal) return quarterPeriod(Number(ordinal[1]), Number(ordinal[2]));
+      const range = QUARTER_MONTH_RANGE.exec(text);
+      const rangeMonth = range ? monthIndex(range[2]) : -1;
+      if (range && (range[1] ?? range[3]) && rangeMonth >= 0 && rangeMonth % 3 === 0) {
+        return quarterPeriod(Number(range[1] ?? range[3]), rangeMonth / 3 + 1);
+      }
+      const match = /Q\s*([1-4])\s+(\d{4})|(\d{4})\s+Q\s*([1-4])/i.exec(text);
+      if (!match) return null;
+      return quarterPeriod(Number(match[2] ?? match[3]), Number(match[1] ?? match[4]));
+    }
+    case "year": {
+      const match = /^((?:19|20)\d{2})$/.exec(text);
+      return match ? yearPeriod(Number(match[1])) : null;
+    }
+    case "financial-year": {
+      const match = /(\d{4})\s*[-/]\s*(\d{2}|\d{4})\b/.exec(text);
+      if (!match) return null;
+      const start = Number(match[1]);
+      const end = match[2].length === 2 ? Math.floor(start / 100) * 100 + Number(match[2]) : Number(match[2]);
+      return end === start + 1 && isPlausibleYear(end) ? financialYearPeriod(end) : null;
+    }
+  }
+  return null;
+}
+
+/** Parse a period cell with the first of the spec's formats that accepts it. */
+export function parsePeriod(cell: unknown, spec: KpiPeriodSpec): TablePeriod | null {
+  for (const format of spec.formats) {
+    const period = parsePeriodAs(cell, format, spec.granularity ?? "day");
+    if (period) return period;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** Index of the first cell matching the earliest pattern, or -1. */
+function findByPatterns(
+  cells: Array<{ index: number; text: string }>,
+  patterns: string[]
+): number {
+  for (const pattern of patterns) {
+    const regex = new RegExp(pattern, "i");
+    const found = cells.find((c) => c.text && regex.test(c.text));
+    if (found) return found.index;
+  }
+  return -1;
+}
+
+function rowCells(row: Row | undefined): Array<{ index: number; text: string }> {
+  return (row ?? []).map((cell, index) => ({ index, text: cellText(cell) }));
+}
+
+/**
+ * A table laid out along one axis: the periods found on it, and a way to
+ * look up a series (by pattern) and read its value for each period.
+ */
+interface TableLayout {
+  periods: Array<{ index: number; period: TablePeriod }>;
+  findSeries(patterns: string[]): number;
+  cell(series: number, periodIndex: number): unknown;
+}
+
+/** Periods down the rows: a header row names the value columns. */
+function layoutByRows(rows: Row[], spec: KpiTableSpec): TableLayout | null {
+  const scanRows = Math.min(rows.length, spec.scanRows ?? DEFAULT_SCAN_ROWS);
+
+  // The header row is the first with the value header among several
+  // headings, so a title row that mentions the measure is not mistaken for it
+  let headerRowIdx = -1;
+  for (let i = 0; i < scanRows; i++) {
+    const cells = rowCells(rows[i]).filter((c) => c.text);
+    const valueCells = cells.filter((c) => c.index !== spec.period.column);
+    if (cells.length >= 2 && findByPatterns(valueCells, spec.value.match) >= 0) {
+      headerRowIdx = i;
+      break;
+    }
+  }
+  if (headerRowIdx < 0) return null;
+
+  const header = rowCells(rows[headerRowIdx]);
+  const periodCol = spec.period.match
+    ? findByPatterns(header, spec.period.match)
+    : -1;
+  const fixedCol = periodCol >= 0 ? periodCol : spec.period.column;
+
+  const periods: TableLayout["periods"] = [];
+  for (let i = headerRowIdx + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row) continue;
+    let period: TablePeriod | null = null;
+    if (fixedCol !== undefined) {
+      period = parsePeriod(row[fixedCol], spec.period);
+    } else {
+      // No known period column: take the first leading cell that parses
+      for (let j = 0; j < Math.min(row.length, 4) && !period; j++) {
+        period = parsePeriod(row[j], spec.period);
+      }
+    }
+    if (period) periods.push({ index: i, period });
+  }
+
+  const seriesCells = header.filter((c) => c.index !== fixedCol);
+  return {
+    periods,
+    findSeries: (patterns) => findByPatterns(seriesCells, patterns),
+    cell: (col, rowIdx) => rows[rowIdx]?.[col],
+  };
+}
+
+/** Periods across a header row: labelled rows below it hold the series. */
+function layoutByColumns(rows: Row[], spec: KpiTableSpec): TableLayout | null {
+  const labelCol = spec.labelColumn ?? 0;
+  const scanRows = spec.header ? rows.length : Math.min(rows.length, spec.scanRows ?? DEFAULT_SCAN_ROWS);
+  const headerRegexes = (spec.header ?? []).map((p) => new RegExp(p, "i"));
+
+  const parseHeader = (row: Row | undefined) =>
+    (row ?? []).flatMap((cell, index) => {
+      if (index === labelCol) return [];
+      const period = parsePeriod(cell, spec.period);
+      return period ? [{ index, period }] : [];
+    });
+
+  let headerRowIdx = -1;
+  let periods: TableLayout["periods"] = [];
+  for (let i = 0; i < scanRows; i++) {
+    const row = rows[i];
+    if (!row) continue;
+    if (headerRegexes.length > 0) {
+      const label = cellText(row[labelCol]);
+      if (!headerRegexes.some((r) => r.test(label))) continue;
+      periods = parseHeader(row);
+    } else {
+      periods = parseHeader(row);
+      if (periods.length < 3) continue;
+    }
+    headerRowIdx = i;
+    break;
+  }
+  if (headerRowIdx < 0) return null;
+
+  const labels = rows
+    .slice(headerRowIdx + 1)
+    .map((row, offset) => ({ index: headerRowIdx + 1 + offset, text: cellText(row?.[labelCol]) }));
+  return {
+    periods,
+    findSeries: (patterns) => findByPatterns(labels, patterns),
+    cell: (rowIdx, col) => rows[rowIdx]?.[col],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+function scaleValue(value: number, spec: KpiTableSpec): number {
+  const scale = spec.scale ?? {};
+  let scaled = value;
+  if (scale.fractionToPercent && scaled > 0 && scaled < 1) scaled *= 100;
+  if (scale.multiply !== undefined) scaled *= scale.multiply;
+  if (scale.decimals !== undefined) {
+    const factor = 10 ** scale.decimals;
+    scaled = Math.round(scaled * factor) / factor;
+  }
+  return scaled;
+}
+
+/** Read one table from a sheet's rows. Returns no points if the layout does not match. */
+export function extractTable(rows: Row[], spec: KpiTableSpec): TablePoint[] {
+  const layout =
+    spec.periodAxis === "rows" ? layoutByRows(rows, spec) : layoutByColumns(rows, spec);
+  if (!layout) return [];
+
+  const valueSeries = layout.findSeries(spec.value.match);
+  if (valueSeries < 0) return [];
+  // Added series are optional; the denominator is not
+  const plusSeries = (spec.value.plus ?? [])
+    .map((patterns) => layout.findSeries(patterns))
+    .filter((series) => series >= 0);
+  const perSeries = spec.value.per ? layout.findSeries(spec.value.per) : null;
+  if (perSeries !== null && perSeries < 0) return [];
+
+  const points: TablePoint[] = [];
+  for (const { index, period } of layout.periods) {
+    const parts = [valueSeries, ...plusSeries].map((s) => parseNumericCell(layout.cell(s, index)));
+    if (parts.every((p) => p === null)) continue;
+    let value = parts.reduce<number>((sum, p) => sum + (p ?? 0), 0);
+
+    if (perSeries !== null) {
+      const denominator = parseNumericCell(layout.cell(perSeries, index));
+      if (!denominator) continue;
+      value /= denominator;
+    }
+
+    value = scaleValue(value, spec);
+    if (spec.value.min !== undefined && value < spec.value.min) continue;
+    points.push({ period, value });
+  }
+  return points;
+}
+
+/**
+ * Sheets to try, in locator pattern order. A pattern may match several
+ * sheets; each is tried once, at its first match.
+ */
+export function locateSheets(workbook: XLSX.WorkBook, locator: KpiTableLocator): string[] {
+  const names: string[] = [];
+  for (const pattern of locator.sheets) {
+    if (workbook.Sheets[pattern]) {
+      names.push(pattern);
+      continue;
+    }
+    const regex = new RegExp(pattern, "i");
+    names.push(...workbook.SheetNames.filter((name) => regex.test(name)));
+  }
+  return [...new Set(names)];
+}
+
+/**
+ * Read a series from a workbook: each located sheet in turn, and each table
+ * spec on that sheet, until one yields values. `tag` prefixes log lines.
+ */
+export function readTable(
+  workbook: XLSX.WorkBook,
+  locator: KpiTableLocator,
+  tag: string
+): TableSeries | null {
+  const sheetNames = locateSheets(workbook, locator);
+  if (sheetNames.length === 0) {
+    console.warn(`[${tag}] No sheet matches the table locator (sheets: ${workbook.SheetNames.join(", ")})`);
+    return null;
+  }
+
+  for (const sheetName of sheetNames) {
+    const rows: Row[] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+      defval: null,
+    });
+    for (const spec of locator.tables) {
+      const points = extractTable(rows, spec);
+      if (points.length > 0) {
+        console.log(`[${tag}] Read ${points.length} values from "${sheetName}" (${spec.id})`);
+        return { sheetName, specId: spec.id, points };
+      }
+    }
+  }
+
+  console.warn(`[${tag}] No table spec matched sheets: ${sheetNames.join(", ")}`);
+  return null;
+}
@@ -1,17 +1,14 @@
 // Core data model for the Plan for Change dashboard
 
-export type MilestoneSlug =
-  | "economic-growth"
-  | "housing"
-  | "nhs"
-  | "policing"
-  | "education"
-  | "clean-energy";
+// Milestones are declared in data/milestone-mappings.json and checked when
+// loaded (see milestone-config.ts); a slug is any milestone listed there.
+export type MilestoneSlug = string;
 
 export interface Milestone {
   slug: MilestoneSlug;
   title: string;
   shortTitle: string;
+  icon: string; // emoji shown in navigation
   description: string;
   targetValue: number;
   targetUnit: string;
@@ -20,15 +17,106 @@ export interface Milestone {
   currentDate?: string;
   kpiLabel: string; // e.g. "% within 18 weeks"
   higherIsBetter: boolean;
+  metrics: KpiMetric[]; // primary first, then secondary and leading indicators
+  presentation: KpiPresentation;
+}
+
+// How a milestone's headline KPI is compared with its target. The KPI is
+// not always the target measure itself:
+//   absolute            — the KPI is the target measure (e.g. % within 18 weeks)
+//   annualised          — the KPI is a yearly flow; the target spans periodYears
+//   cumulative          — running total of a yearly flow over periodYears,
+//                         annualised until a total is available
+//   delta-from-baseline — the target is a change from the value at baselineDate
+//   comparative         — judged against other countries; no numeric target
+export type ComparisonMode =
+  | "absolute"
+  | "annualised"
+  | "cumulative"
+  | "delta-from-baseline"
+  | "comparative";
+
+export interface RagThresholds {
+  green: number; // projected share of the target for green, e.g. 1
+  amber: number; // projected share below which it is red, unless the band reaches green
+}
+
+export interface KpiPresentation {
+  mode: ComparisonMode;
+  targetText?: string; // replaces the formatted target in descriptions
+  valueLabel?: string; // shown beside the value instead of "/ <target>"
+  referenceLine: "target" | "annual-rate" | "none"; // drawn on the KPI chart
+  rag: RagThresholds | null; // null where the KPI is not the target measure
+  periodYears?: number; // annualised and cumulative modes
+  periodStart?: string; // ISO; cumulative mode: the running total counts from here
+  proxyMetric?: string; // cumulative mode: KpiMetric.id estimating periods the primary series has yet to cover
+  baselineDate?: string; // ISO; delta-from-baseline mode
+}
+
+// A series tracked for a milestone. The primary metric is the headline KPI
+// the target is measured on; secondary metrics break it down or give
+// context, and leading indicators tend to move before it does.
+export type KpiMetricRole = "primary" | "secondary" | "leading";
+
+export interface KpiMetric {
+  id: string; // stored as kpi_snapshots.metric_id, e.g. "rtt-waiting-list"
+  label: string;
+  unit: string; // as in target.unit, e.g. "%", "officers", "pathways"
+  role: KpiMetricRole;
+  higherIsBetter?: boolean; // omitted where direction is not meaningful
+}
+
+export interface KpiMetricSeries {
+  metric: KpiMetric;
+  history: KpiSnapshot[]; // oldest first
 }
 
 export interface KpiSnapshot {
   id?: number;
   milestoneSlug: MilestoneSlug;
+  metricId: string; // KpiMetric.id
   value: number;
-  date: string; // ISO date string for the period this value covers
+  date: string; // ISO date identifying the period; its meaning varies by source, see period
   label?: string; // e.g. "Q3 2025", "August 2025"
+  period?: KpiPeriod | null; // null for rows of unknown cadence
   fetchedAt: string; // ISO datetime when we fetched this
+  // Provenance — null for rows fetched before it was recorded
+  seriesId?: string | null; // e.g. "UKEA/CRXS"
+  sourceUrl?: string | null; // download URL
+  sheetName?: string | null; // workbook sheet, for spreadsheet sources
+  parser?: string | null; // extraction strategy, e.g. "lt120:years-across"
+}
+
+// The span of time a KPI value covers. Sources identify periods by different
+// dates — a quarter's first day, a financial year's last, the September after
+// a school year — so charts and forecasts place values at the midpoint of
+// their period instead (see periods.ts).
+export type PeriodGranularity = "day" | "month" | "quarter" | "year";
+export type PeriodCalendar =
+  | "calendar" // January to December
+  | "financial" // April to March, labelled "2023-24"
+  | "academic"; // September to August, labelled "2023/24"
+
+export interface KpiPeriod {
+  start: string; // ISO date, first day
+  end: string; // ISO date, last day; equal to start for a point in time
+  granularity: PeriodGranularity; // "day" is a point in time, e.g. a headcount "as at"
+  calendar: PeriodCalendar;
+}
+
+// One recorded value for a KPI period. A new vintage is stored each time a
+// release changes the figure, so the first and last rows for a period give
+// "first published" and "latest revision".
+export interface KpiVintage {
+  id: number;
+  milestoneSlug: MilestoneSlug;
+  metricId: string;
+  date: string; // period the value covers, as in KpiSnapshot
+  value: number;
+  label?: string;
+  release: string; // download URL or release identifier
+  fetchedAt: string;
+  seriesId?: string | null;
 }
 
 export type OutputType =
@@ -60,12 +148,17 @@ export interface Output {
   lastUpdated: string;
   department?: string;
   confidence: Confidence;
-  dismissed: boolean;
+  dismissed: boolean; // from output_curation; milestone and confidence may be overridden there too
+  curationNotes?: string;
   rationale?: string;
   rationaleUpdatedAt?: string;
   // Populated at query time, not stored in the same table
   mediaArticleCount?: number;
   recentMediaCount?: number; // articles in last 7 days
+  // Commencement, for outputs matched to an Act (null otherwise)
+  provisionsInForce?: number | null;
+  provisionsPending?: number | null;
+  commencementRegulationCount?: number | null;
 }
 
 export interface BillStage {
@@ -93,7 +186,7 @@ export interface MediaArticle {
   publishedDate: string;
   excerpt?: string; // trailText or description
   thumbnailUrl?: string;
-  apiSource: "guardian" | "newsapi"; // which API it came from
+  apiSource: "guardian" | "newsapi" | "rss"; // which API it came from
   fetchedAt: string;
 }
 
@@ -135,6 +228,7 @@ export interface MilestoneMapping {
   slug: MilestoneSlug;
   title: string;
   shortTitle: string;
+  icon: string; // emoji shown in navigation
   description: string;
   target: {
     value: number;
@@ -143,6 +237,8 @@ export interface MilestoneMapping {
     higherIsBetter: boolean;
     kpiLabel: string;
   };
+  presentation: KpiPresentation;
+  metrics: KpiMetric[]; // exactly one with role "primary"
   departments: string[]; // GOV.UK org slugs
   govukSearchTerms: string[];
   govukDocTypes: string[];
@@ -153,6 +249,144 @@ export interface MilestoneMapping {
   guardianTags: string[];
   guardianSearchTerms: string[];
   legislationSearchTerms: string[];
+  mediaFeeds: MediaFeed[]; // RSS/Atom feeds scanned for mediaKeywords
+  mediaKeywords: string[];
+  kpiSources: KpiSourceConfig[]; // run by kpi-registry.ts
+}
+
+// KPI source declarations. Discovery steps are tried in order until one
+// yields data; the adapter named in `transform` parses what they find.
+export type KpiSourceType =
+  | "spreadsheet" // a workbook found by discovery, parsed by the adapter
+  | "ons-timeseries" // ONS time series JSON
+  | "custom"; // the adapter discovers and fetches its own data
+
+export type KpiDiscoveryStep =
+  | { method: "url"; url: string }
+  // Spreadsheet links on an HTML page; patterns are case-insensitive regexes
+  // tried in order against each link
+  | { method: "page-links"; url: string; linkPatterns: string[] }
+  // Attachments on a GOV.UK Content API page, matched on title, filename and URL
+  | { method: "govuk-content"; path: string; linkPatterns: string[] }
+  // GOV.UK Search results whose title matches, then their attachments
+  | {
+      method: "govuk-search";
+      query: string;
+      organisation?: string;
+      documentType?: string;
+      titlePattern?: string;
+      linkPatterns: string[];
+    }
+  | { method: "ons-series"; topicPath: string; datasetId: string; seriesId: string; label: string }
+  | { method: "adapter" };
+
+export interface KpiTableLocator {
+  sheets: string[]; // sheet names or case-insensitive regexes, tried in order
+  tables: KpiTableSpec[]; // read by table-locator.ts; the first to yield values wins
+}
+
+// Declarative description of one table layout. Patterns are case-insensitive
+// regexes, tried in order. A "series" is the value column when periods run
+// down the rows, or the value row when periods run across a header row.
+export interface KpiTableSpec {
+  id: string; // recorded as the snapshot's parser, e.g. "lt120:rows"
+  periodAxis: "rows" | "columns";
+  // periodAxis "columns": pattern for the label of the row holding the period
+  // headers. Without it, the first row with three or more periods is used.
+  header?: string[];
+  labelColumn?: number; // periodAxis "columns": column holding row labels (default 0)
+  scanRows?: number; // how far down to look for the header row (default 30)
+  period: KpiPeriodSpec;
+  value: KpiValueSpec;
+  scale?: KpiScaleSpec;
+}
+
+export type KpiPeriodFormat =
+  | "excel-date" // serial date number
+  | "iso-date" // "2024-03-31"
+  | "month-name" // "31 March 2024", "Mar 2024"
+  | "quarter" // "Q1 2024", "2024 Q1", "2024 1st quarter", "Jan-Mar 2024"
+  | "year" // "2024"
+  | "financial-year"; // "2023-24", "2023/2024"
+
+export type KpiPeriodGranularity = "day" | "month" | "quarter" | "year" | "financial-year";
+
+export interface KpiPeriodSpec {
+  formats: KpiPeriodFormat[]; // tried in order on each period cell
+  granularity?: KpiPeriodGranularity; // what exact dates round to (default "day")
+  // periodAxis "rows": header of the period column, else `column`, else the
+  // first of the leading cells in each row that parses as a period
+  match?: string[];
+  column?: number;
+}
+
+export interface KpiValueSpec {
+  match: string[]; // header (or row label) of the value series
+  plus?: string[][]; // series added to the value, e.g. PCSOs on top of officers
+  per?: string[]; // series the value is divided by, e.g. total generation
+  min?: number; // values below this are skipped
+}
+
+export interface KpiScaleSpec {
+  fractionToPercent?: boolean; // values strictly between 0 and 1 are multiplied by 100
+  multiply?: number;
+  decimals?: number; // round to this many decimal places
+}
+
+export interface KpiTransform {
+  adapter: string; // key in the kpi-registry adapter table
+  seriesId: string; // provenance series id, unless the discovery step sets one
+  since?: string; // ISO date; earlier periods are not stored
+  metric?: string; // metric the values are stored under; defaults to the primary
+}
+
+// A further metric read from the same workbook as a source's main series,
+// e.g. the 52+ week waiters column beside "% within 18 weeks".
+export interface KpiSecondarySeries {
+  metric: string; // KpiMetric.id
+  seriesId: string;
+  tables: KpiTableSpec[]; // tried against the source's tableLocator sheets
+  validation?: KpiValidationRules;
+}
+
+export interface KpiSourceConfig {
+  id: string; // e.g. "nhs-rtt"; recorded in refresh_steps
+  label: string;
+  sourceType: KpiSourceType;
+  discovery: KpiDiscoveryStep[];
+  tableLocator?: KpiTableLocator;
+  transform: KpiTransform;
+  validation?: KpiValidationRules; // batches that break these are quarantined, not stored
+  secondary?: KpiSecondarySeries[];
+  maxAgeDays: number; // flagged stale on /status after this long without a success
+}
+
+// Sanity checks on a fetched batch, run by kpi-validation.ts before storing.
+// They catch a parser reading the wrong column after a workbook changes.
+export type KpiCadence = "month" | "quarter" | "half-year" | "year";
+
+export interface KpiValidationRules {
+  range?: { min?: number; max?: number }; // every value must fall inside
+  maxChange?: { absolute?: number; relative?: number }; // between consecutive periods
+  cadence?: KpiCadence; // expected spacing of periods; one missing period is tolerated
+  monotonicDates?: boolean; // periods read in date order (either direction), none repeated
+}
+
+export interface MediaFeed {
+  source: string; // display name stored on each article, e.g. "BBC News"
+  url: string;
+}
+
+// Fetcher results, reported in the refresh summary
+export interface FetchResult {
+  written: number; // rows inserted or updated
+  failed: number; // requests that errored, as opposed to returning nothing
+  error?: string; // why the fetch failed, recorded in refresh_steps
+  sourceUrl?: string; // file or endpoint the data came from
+}
+
+export interface FetchOptions {
+  since?: string; // YYYY-MM-DD; only fetch items published on or after this date
 }
 
 // M&E Framework types — grounded in the Plan for Change document
@@ -187,6 +421,7 @@ export type DeliverableCategory =
 export type DeliverableStatus =
   | "not-started"
   | "in-progress"
+  | "enacted-not-commenced"
   | "delivered"
   | "at-risk";
 
@@ -195,6 +430,7 @@ export interface BaselineMetric {
   value: number | null;
   unit: string;
   note?: string;
+  metricId?: string; // live KpiMetric this baseline is measured on
 }
 
 export interface MEBaseline {
@@ -251,6 +487,7 @@ export interface MEMilestoneView {
   enrichedDeliverables: EnrichedDeliverable[];
   deliveredCount: number;
   inProgressCount: number;
+  enactedNotCommencedCount: number;
   notStartedCount: number;
   atRiskCount: number;
   overallProgress: number; // 0-100 percentage
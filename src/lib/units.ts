@@ -0,0 +1,189 @@
+// ---------------------------------------------------------------------------
+// Units and number formatting
+//
+// Every KPI value carries a unit string from the milestone config ("%",
+// "homes", "additional officers", ...). This registry says what each unit is
+// and how to write it, so cards, charts, tables and generated briefings all
+// show the same number the same way. Units not listed are treated as plain
+// counts of the unit's own noun.
+// ---------------------------------------------------------------------------
+
+export type UnitKind = "percent" | "count" | "index" | "currency" | "rate-per-year";
+
+export interface UnitDefinition {
+  kind: UnitKind;
+  precision: number; // decimal places in full notation
+  compact: boolean; // abbreviate large values by default, e.g. 1.5M, 300k
+  noun?: string; // long form, plural, e.g. "homes"; singular is derived
+  base?: string; // rate-per-year: the unit counted each year
+}
+
+const PERCENT: UnitDefinition = { kind: "percent", precision: 1, compact: false };
+
+const UNITS: Record<string, UnitDefinition> = {
+  "%": PERCENT,
+  "% clean power": PERCENT,
+  index: { kind: "index", precision: 1, compact: false },
+  "£": { kind: "currency", precision: 0, compact: true },
+  homes: { kind: "count", precision: 0, compact: true, noun: "homes" },
+  "homes per year": { kind: "rate-per-year", precision: 0, compact: true, base: "homes" },
+  patients: { kind: "count", precision: 0, compact: true, noun: "patients" },
+  children: { kind: "count", precision: 0, compact: true, noun: "children" },
+  pathways: { kind: "count", precision: 0, compact: true, noun: "pathways" },
+  officers: { kind: "count", precision: 0, compact: false, noun: "officers" },
+  "additional officers": { kind: "count", precision: 0, compact: false, noun: "additional officers" },
+  PCSOs: { kind: "count", precision: 0, compact: false, noun: "PCSOs" },
+  specials: { kind: "count", precision: 0, compact: false, noun: "special constables" },
+};
+
+const SINGULAR: Record<string, string> = { children: "child" };
+
+export function getUnit(unit: string): UnitDefinition {
+  return UNITS[unit] ?? { kind: "count", precision: 1, compact: false, noun: unit };
+}
+
+function nounFor(noun: string, value: number): string {
+  return value === 1 ? (SINGULAR[noun] ?? noun.replace(/s$/, "")) : noun;
+}
+
+function number(value: number, precision: number): string {
+  return value.toLocaleString("en-GB", {
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  });
+}
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+/**
+ * 1,500,000 → "1.5M"; 300,000 → "300k"; 1,234 → "1.2k"; currency uses "m"
+ * and "bn". A value that rounds up to 1,000 of one unit is written in the
+ * next, so 999,600 is "1.0M" rather than "1,000k".
+ */
+function abbreviate(value: number, currency: boolean, precision: number): string {
+  const steps: Array<[number, string]> = [[1, ""], [1e3, "k"], [1e6, currency ? "m" : "M"]];
+  if (currency) steps.push([1e9, "bn"]);
+  const abs = Math.abs(value);
+  let i = 0;
+  while (i + 1 < steps.length && abs >= steps[i + 1][0]) i++;
+
+  for (; ; i++) {
+    const [size, suffix] = steps[i];
+    // Thousands keep a decimal below 10k, where whole thousands lose too much
+    const decimals = size === 1 ? precision : size === 1e3 && round(abs / size, 1) >= 10 ? 0 : 1;
+    if (round(abs / size, decimals) < 1000 || i + 1 === steps.length) {
+      return `${number(value / size, decimals)}${suffix}`;
+    }
+  }
+}
+
+interface FormatOptions {
+  compact?: boolean; // overrides the unit's default
+}
+
+/** A value as shown in cards, tables and tooltips, e.g. "59.2%", "1.5M", "147,746". */
+export function formatValue(value: number, unit: string, options: FormatOptions = {}): string {
+  const def = getUnit(unit);
+  const compact = options.compact ?? def.compact;
+  switch (def.kind) {
+    case "percent":
+      return `${number(value, def.precision)}%`;
+    case "currency": {
+      const text = compact ? abbreviate(Math.abs(value), true, def.precision) : number(Math.abs(value), def.precision);
+      return `${value < 0 ? "−" : ""}£${text}`;
+    }
+    case "rate-per-year":
+      return `${formatValue(value, def.base ?? "", options)}/yr`;
+    default:
+      return compact ? abbreviate(value, false, def.precision) : number(value, def.precision);
+  }
+}
+
+/** A value with its noun where the symbol does not say it, e.g. "7.5M patients", "59.2%". */
+export function formatQuantity(value: number, unit: string, options: FormatOptions = {}): string {
+  const def = getUnit(unit);
+  const text = formatValue(value, unit, options);
+  return def.kind === "count" && def.noun ? `${text} ${nounFor(def.noun, value)}` : text;
+}
+
+/** A signed difference, e.g. "+1.2 pp", "−3k". Percentages change in points. */
+export function formatChange(value: number, unit: string, options: FormatOptions = {}): string {
+  const sign = value > 0 ? "+" : value < 0 ? "−" : "";
+  const def = getUnit(unit);
+  if (def.kind === "percent") return `${sign}${number(Math.abs(value), def.precision)} pp`;
+  return `${sign}${formatValue(Math.abs(value), unit, options)}`;
+}
+
+/** A signed change per year, e.g. "+1.2 pp/yr", "+230k/yr". */
+export function formatRate(value: number, unit: string): string {
+  return `${formatChange(value, unit)}/yr`;
+}
+
+/** A share of something, e.g. 0.234 → "23%". */
+export function formatShare(share: number): string {
+  return `${number(share * 100, 0)}%`;
+}
+
+/** Tick labels: whole percentages and abbreviated counts keep axes narrow. */
+export function formatAxisValue(value: number, unit: string): string {
+  const def = getUnit(unit);
+  switch (def.kind) {
+    case "percent":
+      return `${number(value, 0)}%`;
+    case "index":
+      return number(value, 0);
+    case "rate-per-year":
+      return formatAxisValue(value, def.base ?? "");
+    default:
+      return formatValue(value, unit, { compact: true });
+  }
+}
+
+/**
+ * Unabbreviated text for screen readers and generated briefings, e.g.
+ * "59.2 percent", "1.5 million homes", "an index value of 101.7".
+ */
+export function formatLongForm(value: number, unit: string): string {
+  const def = getUnit(unit);
+  switch (def.kind) {
+    case "percent":
+      return `${number(value, def.precision)} percent`;
+    case "index":
+      return `an index value of ${number(value, def.precision)}`;
+    case "currency":
+      return `£${spellOut(value, def.precision)}`;
+    case "rate-per-year":
+      return `${formatLongForm(value, def.base ?? "")} per year`;
+    default: {
+      const noun = def.noun ?? unit;
+      return noun ? `${spellOut(value, def.precision)} ${nounFor(noun, value)}` : spellOut(value, def.precision);
+    }
+  }
+}
+
+/**
+ * A signed difference for screen readers, e.g. "an increase of 1.2
+ * percentage points", "a fall of 3,000 officers".
+ */
+export function formatLongFormChange(value: number, unit: string): string {
+  if (value === 0) return "no change";
+  const def = getUnit(unit);
+  const abs = Math.abs(value);
+  const size =
+    def.kind === "percent"
+      ? `${number(abs, def.precision)} percentage points`
+      : def.kind === "index"
+        ? `${number(abs, def.precision)} index points`
+        : formatLongForm(abs, unit);
+  return `${value > 0 ? "an increase" : "a fall"} of ${size}`;
+}
+
+/** 1,500,000 → "1.5 million"; smaller values in full. */
+function spellOut(value: number, precision: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${number(value / 1e9, 1)} billion`;
+  if (abs >= 1e6) return `${number(value / 1e6, 1)} million`;
+  return number(value, precision);
+}
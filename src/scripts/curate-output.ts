@@ -0,0 +1,114 @@
+import { parseArgs } from "util";
+import { getDb, initDb } from "../lib/db";
+import {
+  setOutputCuration,
+  setMilestoneLink,
+  type OutputCurationPatch,
+} from "../lib/curation";
+import { MILESTONE_SLUGS } from "../lib/milestones";
+import type { Confidence, MilestoneSlug } from "../lib/types";
+
+// Usage: npx tsx src/scripts/curate-output.ts <output-id> [options]
+//   --dismiss / --restore       hide or unhide the output
+//   --link <slug>               link to a milestone (repeatable)
+//   --unlink <slug>             unlink from a milestone (repeatable)
+//   --confidence <level|none>   override confidence (high|medium|low), or clear
+//   --notes <text>              curator notes ("" clears them)
+//
+// Curation is stored in output_curation and output_milestone_curation, and
+// survives data refreshes.
+
+const CONFIDENCE_LEVELS: Confidence[] = ["high", "medium", "low"];
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dismiss: { type: "boolean" },
+      restore: { type: "boolean" },
+      link: { type: "string", multiple: true },
+      unlink: { type: "string", multiple: true },
+      confidence: { type: "string" },
+      notes: { type: "string" },
+    },
+  });
+
+  const outputId = positionals[0];
+  if (!outputId) {
+    console.error("Usage: curate-output.ts <output-id> [--dismiss|--restore] [--link <slug>] [--unlink <slug>] [--confidence <level|none>] [--notes <text>]");
+    process.exit(1);
+  }
+
+  initDb();
+
+  const output = getDb()
+    .prepare("SELECT id, title FROM outputs WHERE id = ?")
+    .get(outputId) as { id: string; title: string } | undefined;
+  if (!output) {
+    console.error(`[curate] No output with id "${outputId}"`);
+    process.exit(1);
+  }
+
+  const patch: OutputCurationPatch = {};
+
+  if (values.dismiss && values.restore) {
+    console.error("[curate] Use either --dismiss or --restore, not both");
+    process.exit(1);
+  }
+  if (values.dismiss) patch.dismissed = true;
+  if (values.restore) patch.dismissed = false;
+
+  const links: Array<{ slug: MilestoneSlug; linked: boolean }> = [];
+  for (const [slugs, linked] of [
+    [values.link ?? [], true],
+    [values.unlink ?? [], false],
+  ] as const) {
+    for (const slug of slugs) {
+      if (!MILESTONE_SLUGS.includes(slug as MilestoneSlug)) {
+        console.error(`[curate] Unknown milestone "${slug}". Expected one of: ${MILESTONE_SLUGS.join(", ")}`);
+        process.exit(1);
+      }
+      links.push({ slug: slug as MilestoneSlug, linked });
+    }
+  }
+
+  if (values.confidence !== undefined) {
+    if (values.confidence === "none") {
+      patch.confidence = null;
+    } else if (CONFIDENCE_LEVELS.includes(values.confidence as Confidence)) {
+      patch.confidence = values.confidence as Confidence;
+    } else {
+      console.error(`[curate] Unknown confidence "${values.confidence}". Expected one of: ${CONFIDENCE_LEVELS.join(", ")}`);
+      process.exit(1);
+    }
+  }
+
+  if (values.notes !== undefined) {
+    patch.notes = values.notes === "" ? null : values.notes;
+  }
+
+  setOutputCuration(outputId, patch);
+  for (const { slug, linked } of links) {
+    setMilestoneLink(outputId, slug, linked);
+  }
+
+  const curated = getDb()
+    .prepare(
+      "SELECT milestone_slug as milestoneSlug, confidence, dismissed, curation_notes as notes FROM curated_outputs WHERE id = ?"
+    )
+    .all(outputId) as { milestoneSlug: string; confidence: string; dismissed: number; notes: string | null }[];
+
+  console.log(`[curate] ${output.title}`);
+  if (curated.length === 0) {
+    console.log("  not linked to any milestone");
+    return;
+  }
+  for (const row of curated) {
+    console.log(
+      `  ${row.milestoneSlug}: confidence ${row.confidence}, ` +
+        `dismissed: ${row.dismissed ? "yes" : "no"}${row.notes ? `, notes: ${row.notes}` : ""}`
+    );
+  }
+}
+
+main();
@@ -1,9 +1,10 @@
 import crypto from "crypto";
 import Anthropic from "@anthropic-ai/sdk";
 import { getDb, initDb } from "../lib/db";
-import { getMilestone, MILESTONE_SLUGS } from "../lib/milestones";
+import { getMilestone, getPrimaryMetric, MILESTONE_SLUGS } from "../lib/milestones";
 import { getTopOutputs } from "./generate-rationale";
-import type { MilestoneSlug } from "../lib/types";
+import { formatLongForm } from "../lib/units";
+import type { FetchResult, MilestoneSlug } from "../lib/types";
 
 /**
  * Compute a hash of the current data state for a milestone.
@@ -14,14 +15,15 @@ function computeDataHash(slug: MilestoneSlug): string {
 
   const latestKpi = db
     .prepare(
-      "SELECT value, date FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date DESC LIMIT 1"
+      `SELECT value, date FROM kpi_snapshots WHERE milestone_slug = ? AND metric_id = ?
+       ORDER BY date DESC LIMIT 1`
     )
-    .get(slug) as { value: number; date: string } | undefined;
+    .get(slug, getPrimaryMetric(slug).id) as { value: number; date: string } | undefined;
 
   const outputStats = db
     .prepare(
       `SELECT COUNT(*) as cnt, MAX(last_updated) as latestUpdate
-       FROM outputs WHERE milestone_slug = ? AND dismissed = 0`
+       FROM curated_outputs WHERE milestone_slug = ? AND dismissed = 0`
     )
     .get(slug) as { cnt: number; latestUpdate: string | null };
 
@@ -49,11 +51,13 @@ function getExistingHash(slug: MilestoneSlug): string | undefined {
 /**
  * Generate AI briefings for all milestones.
  */
-export async function generateBriefings(): Promise<void> {
+export async function generateBriefings(
+  milestoneSlugs: MilestoneSlug[] = MILESTONE_SLUGS
+): Promise<FetchResult> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     console.log("Skipping briefing generation — ANTHROPIC_API_KEY not set");
-    return;
+    return { written: 0, failed: 0 };
   }
 
   const client = new Anthropic({ apiKey });
@@ -70,8 +74,9 @@ export async function generateBriefings(): Promise<void> {
 
   let generated = 0;
   let skipped = 0;
+  let failed = 0;
 
-  for (const slug of MILESTONE_SLUGS) {
+  for (const slug of milestoneSlugs) {
     const dataHash = computeDataHash(slug);
     const existingHash = getExistingHash(slug);
 
@@ -83,16 +88,18 @@ export async function generateBriefings(): Promise<void> {
 
     const milestone = getMilestone(slug);
 
-    // Gather KPI context
+    // Gather KPI context, with units written out so the model cannot misread them
+    const { unit } = getPrimaryMetric(slug);
     const kpiRows = db
       .prepare(
-        "SELECT value, date, label FROM kpi_snapshots WHERE milestone_slug = ? ORDER BY date DESC LIMIT 3"
+        `SELECT value, date, label FROM kpi_snapshots WHERE milestone_slug = ? AND metric_id = ?
+         ORDER BY date DESC LIMIT 3`
       )
-      .all(slug) as { value: number; date: string; label: string | null }[];
+      .all(slug, getPrimaryMetric(slug).id) as { value: number; date: string; label: string | null }[];
 
     const kpiContext =
       kpiRows.length > 0
-        ? kpiRows.map((r) => `- ${r.label || r.date}: ${r.value}`).join("\n")
+        ? kpiRows.map((r) => `- ${r.label || r.date}: ${formatLongForm(r.value, unit)}`).join("\n")
         : "No KPI data available yet.";
 
     // Gather top 5 outputs context
@@ -107,7 +114,7 @@ export async function generateBriefings(): Promise<void> {
     // Gather recent media context
     const mediaRows = db
       .prepare(
-        "SELECT title, source, published_date FROM media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 5"
+        "SELECT title, source, published_date FROM milestone_media_articles WHERE milestone_slug = ? ORDER BY published_date DESC LIMIT 5"
       )
       .all(slug) as {
       title: string;
@@ -173,12 +180,14 @@ Respond with ONLY the briefing text, no preamble or commentary.`,
       }
     } catch (err) {
       console.error(`  ✗ Failed for ${slug}:`, err);
+      failed++;
     }
   }
 
   console.log(
     `Briefing generation complete: ${generated} generated, ${skipped} cached`
   );
+  return { written: generated, failed };
 }
 
 // Run standalone
@@ -1,7 +1,7 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { getDb, initDb } from "../lib/db";
 import { getMilestone, MILESTONE_SLUGS } from "../lib/milestones";
-import type { MilestoneSlug } from "../lib/types";
+import type { FetchResult, MilestoneSlug } from "../lib/types";
 
 const TOP_N = 10;
 
@@ -83,7 +83,7 @@ export function getTopOutputs(milestoneSlug: MilestoneSlug): ScoredOutput[] {
         -- Media coverage bonus (capped at 5)
         + MIN(COALESCE((SELECT COUNT(*) FROM media_articles ma WHERE ma.output_id = o.id), 0), 5)
       ) as score
-    FROM outputs o
+    FROM curated_outputs o
     WHERE o.milestone_slug = ?
       AND o.dismissed = 0
       AND o.type NOT IN ('guidance', 'impact_assessment', 'statutory_instrument')
@@ -98,11 +98,13 @@ export function getTopOutputs(milestoneSlug: MilestoneSlug): ScoredOutput[] {
 /**
  * Generate AI rationale for top outputs that are missing one or have stale rationale.
  */
-export async function generateRationales(): Promise<void> {
+export async function generateRationales(
+  milestoneSlugs: MilestoneSlug[] = MILESTONE_SLUGS
+): Promise<FetchResult> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     console.log("Skipping rationale generation — ANTHROPIC_API_KEY not set");
-    return;
+    return { written: 0, failed: 0 };
   }
 
   const client = new Anthropic({ apiKey });
@@ -114,8 +116,9 @@ export async function generateRationales(): Promise<void> {
 
   let generated = 0;
   let skipped = 0;
+  let failed = 0;
 
-  for (const slug of MILESTONE_SLUGS) {
+  for (const slug of milestoneSlugs) {
     const milestone = getMilestone(slug);
     const topOutputs = getTopOutputs(slug);
 
@@ -169,6 +172,7 @@ Respond with ONLY the one-line rationale, no quotes or prefix.`,
         }
       } catch (err) {
         console.error(`  ✗ Failed for "${output.title}":`, err);
+        failed++;
       }
     }
   }
@@ -176,6 +180,7 @@ Respond with ONLY the one-line rationale, no quotes or prefix.`,
   console.log(
     `Rationale generation complete: ${generated} generated, ${skipped} cached`
   );
+  return { written: generated, failed };
 }
 
 // Run standalone
@@ -0,0 +1,106 @@
+import { parseArgs } from "util";
+import { initDb } from "../lib/db";
+import {
+  approveQuarantinedBatch,
+  getQuarantinedBatch,
+  getQuarantinedBatches,
+  rejectQuarantinedBatch,
+  type QuarantinedBatch,
+} from "../lib/kpi-quarantine";
+
+// Usage: npx tsx src/scripts/kpi-quarantine.ts [command] [id]
+//   list [--all]    pending batches (--all includes reviewed ones); the default
+//   show <id>       a batch's issues, provenance and values
+//   approve <id>    store the batch in kpi_snapshots as fetched; the same batch
+//                   fetched again is stored without review
+//   reject <id>     discard the batch; the same batch fetched again is skipped
+//
+// Batches land here when a KPI fetch breaks its source's validation rules
+// (see kpi-validation.ts); refresh-all reports the batch id.
+
+const USAGE = "Usage: kpi-quarantine.ts [list [--all] | show <id> | approve <id> | reject <id>]";
+
+function summarise(batch: QuarantinedBatch): string {
+  const dates = batch.points.map((p) => p.label);
+  const span = dates.length > 0 ? `${dates[0]} – ${dates[dates.length - 1]}` : "no values";
+  return `#${batch.id} ${batch.milestoneSlug}/${batch.metricId} (${batch.sourceId}), ${batch.status}, ` +
+    `${batch.createdAt}: ${batch.points.length} values, ${span}`;
+}
+
+function parseId(raw: string | undefined): number {
+  const id = Number(raw);
+  if (!raw || !Number.isInteger(id)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return id;
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { all: { type: "boolean" } },
+  });
+  const [command = "list", rawId] = positionals;
+
+  initDb();
+
+  switch (command) {
+    case "list": {
+      const batches = getQuarantinedBatches(values.all ? {} : { status: "pending" });
+      if (batches.length === 0) {
+        console.log(`[quarantine] No ${values.all ? "" : "pending "}batches`);
+        return;
+      }
+      for (const batch of batches) {
+        console.log(summarise(batch));
+        for (const issue of batch.issues) console.log(`  - ${issue}`);
+      }
+      return;
+    }
+
+    case "show": {
+      const batch = getQuarantinedBatch(parseId(rawId));
+      if (!batch) {
+        console.error(`[quarantine] No batch #${rawId}`);
+        process.exit(1);
+      }
+      console.log(summarise(batch));
+      for (const issue of batch.issues) console.log(`  - ${issue}`);
+      const { seriesId, sourceUrl, sheetName, parser } = batch.provenance;
+      console.log(`  series ${seriesId}, parser ${parser}${sheetName ? `, sheet "${sheetName}"` : ""}`);
+      console.log(`  ${sourceUrl}`);
+      for (const point of batch.points) {
+        console.log(`  ${point.date}  ${point.label.padEnd(10)}  ${point.value}`);
+      }
+      return;
+    }
+
+    case "approve": {
+      const id = parseId(rawId);
+      const result = approveQuarantinedBatch(id);
+      if (!result) {
+        console.error(`[quarantine] No pending batch #${id}`);
+        process.exit(1);
+      }
+      console.log(`[quarantine] Approved #${id}: stored ${result.stored} KPI snapshots (${result.revised} revised)`);
+      return;
+    }
+
+    case "reject": {
+      const id = parseId(rawId);
+      if (!rejectQuarantinedBatch(id)) {
+        console.error(`[quarantine] No pending batch #${id}`);
+        process.exit(1);
+      }
+      console.log(`[quarantine] Rejected #${id}`);
+      return;
+    }
+
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
+
+main();
@@ -1,170 +1,462 @@
-import { initDb } from "../lib/db";
+import { parseArgs } from "util";
+import { getDb, initDb } from "../lib/db";
 import { MILESTONE_SLUGS } from "../lib/milestones";
+import { getHttpCacheMode } from "../lib/http";
+import { runPipeline, type PipelineTask } from "../lib/pipeline";
+import {
+  startRefreshRun,
+  recordRefreshStep,
+  finishRefreshRun,
+  type FetcherSourceId,
+} from "../lib/refresh-log";
 import { fetchGovukOutputs } from "../lib/fetchers/govuk-search";
 import { fetchBills } from "../lib/fetchers/parliament-bills";
+import { fetchLegislation, fetchCommencements } from "../lib/fetchers/legislation";
 import { fetchGuardianForMilestone, fetchGuardianForOutput } from "../lib/fetchers/guardian";
-import { getDb } from "../lib/db";
-import { fetchNhsRtt } from "../lib/fetchers/nhs";
-import { fetchOnsGrowth } from "../lib/fetchers/ons";
-import { fetchHousingSupply } from "../lib/fetchers/housing";
-import { fetchPoliceWorkforce } from "../lib/fetchers/police";
-import { fetchEducationEyfs } from "../lib/fetchers/education";
-import { fetchEnergyTrends } from "../lib/fetchers/energy";
+import { fetchRssMediaForMilestone } from "../lib/fetchers/rss-media";
+import { fetchNewsApiForMilestone, fetchNewsApiForOutput } from "../lib/fetchers/newsapi";
+import { getKpiSources, runKpiSource } from "../lib/kpi-registry";
 import { fetchDebates, fetchWrittenQuestions } from "../lib/fetchers/theyworkforyou";
 import { fetchCommitteeInquiries } from "../lib/fetchers/committees";
 import { generateRationales } from "./generate-rationale";
 import { generateBriefings } from "./generate-briefings";
+import type { FetchOptions, FetchResult, MilestoneSlug } from "../lib/types";
 
-async function main() {
-  console.log("=== Plan for Change Dashboard — Data Refresh ===\n");
+// Usage: npx tsx src/scripts/refresh-all.ts [options]
+//   --only <sources>       comma-separated sources to run (default: all):
+//                          kpi, govuk, bills, legislation, committees, debates,
+//                          guardian, rss, newsapi, ai
+//   --milestone <slug>     limit to these milestones (repeatable or comma-separated)
+//   --since <YYYY-MM-DD>   only fetch items published on or after this date,
+//                          for sources that can filter by date
+//   --skip-ai              skip rationale and briefing generation
+//   --concurrency <n>      steps to run at once (default 4)
+//   --allow-partial        exit zero when steps are only partial
+//   --dry-run              list the steps that would run, then exit
+//
+// Independent steps run in parallel; the HTTP client applies per-host rate
+// and concurrency limits underneath. Prints a summary table at the end and
+// exits non-zero if any selected step failed or was partial. A "partial" step
+// wrote data but some of its requests failed; the summary table keeps it apart
+// from "failed", and --allow-partial lets it exit zero. Every run and step is
+// recorded in refresh_runs and refresh_steps, which drive the /status page.
 
-  // Ensure DB tables exist
-  initDb();
+const SOURCES = [
+  "kpi",
+  "govuk",
+  "bills",
+  "legislation",
+  "committees",
+  "debates",
+  "guardian",
+  "rss",
+  "newsapi",
+  "ai",
+] as const;
+type RefreshSource = (typeof SOURCES)[number];
 
-  // 1. Fetch KPI data for all milestones
-  console.log("\n--- KPI Data ---");
+const DEFAULT_CONCURRENCY = 4;
 
-  try {
-    await fetchOnsGrowth();
-  } catch (err) {
-    console.error("ONS economic growth fetch failed:", err);
-  }
+/** API keys a source cannot run without; steps are skipped when unset. */
+const SOURCE_KEYS: Partial<Record<RefreshSource, string>> = {
+  debates: "TWFY_API_KEY",
+  guardian: "GUARDIAN_API_KEY",
+  newsapi: "NEWSAPI_KEY",
+  ai: "ANTHROPIC_API_KEY",
+};
 
-  try {
-    await fetchHousingSupply();
-  } catch (err) {
-    console.error("Housing supply fetch failed:", err);
+interface RefreshStep {
+  source: RefreshSource;
+  dataSource: string; // refresh_steps source: a KPI source id or FetcherSourceId
+  milestone?: MilestoneSlug; // for steps run once per milestone
+  label: string; // unique; doubles as the pipeline task id
+  after?: RefreshSource[]; // wait for every other step from these sources
+  run: () => Promise<FetchResult>;
+}
+
+type StepStatus = "ok" | "partial" | "failed" | "skipped";
+
+interface StepOutcome {
+  step: RefreshStep;
+  status: StepStatus;
+  written: number;
+  failed: number;
+  error?: string;
+  sourceUrl?: string;
+  durationMs: number;
+}
+
+interface RefreshOptions {
+  sources: RefreshSource[];
+  milestones: MilestoneSlug[];
+  fetchOptions: FetchOptions;
+  concurrency: number;
+  allowPartial: boolean;
+  dryRun: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Arguments
+// ---------------------------------------------------------------------------
+
+function usageError(message: string): never {
+  console.error(`[refresh] ${message}`);
+  process.exit(1);
+}
+
+/** Flatten repeatable, comma-separated option values. */
+function splitList(values: string[] | undefined): string[] {
+  return (values ?? []).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+}
+
+function parseOptions(): RefreshOptions {
+  const { values } = parseArgs({
+    options: {
+      only: { type: "string", multiple: true },
+      milestone: { type: "string", multiple: true },
+      since: { type: "string" },
+      "skip-ai": { type: "boolean" },
+      concurrency: { type: "string" },
+      "allow-partial": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+
+  const only = splitList(values.only);
+  for (const source of only) {
+    if (!SOURCES.includes(source as RefreshSource)) {
+      usageError(`Unknown source "${source}". Expected one of: ${SOURCES.join(", ")}`);
+    }
   }
+  let sources = only.length > 0 ? (only as RefreshSource[]) : [...SOURCES];
+  if (values["skip-ai"]) sources = sources.filter((s) => s !== "ai");
 
-  try {
-    await fetchNhsRtt();
-  } catch (err) {
-    console.error("NHS RTT fetch failed:", err);
+  const milestoneArgs = splitList(values.milestone);
+  for (const slug of milestoneArgs) {
+    if (!MILESTONE_SLUGS.includes(slug as MilestoneSlug)) {
+      usageError(`Unknown milestone "${slug}". Expected one of: ${MILESTONE_SLUGS.join(", ")}`);
+    }
   }
+  const milestones =
+    milestoneArgs.length > 0
+      ? MILESTONE_SLUGS.filter((slug) => milestoneArgs.includes(slug))
+      : MILESTONE_SLUGS;
 
-  try {
-    await fetchPoliceWorkforce();
-  } catch (err) {
-    console.error("Police workforce fetch failed:", err);
+  const since = values.since;
+  if (since !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(since)))) {
+    usageError(`Invalid --since date "${since}". Expected YYYY-MM-DD`);
   }
 
-  try {
-    await fetchEducationEyfs();
-  } catch (err) {
-    console.error("Education EYFS fetch failed:", err);
+  const concurrency = values.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    usageError(`Invalid --concurrency "${values.concurrency}". Expected a positive integer`);
   }
 
-  try {
-    await fetchEnergyTrends();
-  } catch (err) {
-    console.error("Energy trends fetch failed:", err);
+  return {
+    sources,
+    milestones,
+    fetchOptions: { since },
+    concurrency,
+    allowPartial: Boolean(values["allow-partial"]),
+    dryRun: Boolean(values["dry-run"]),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Steps
+// ---------------------------------------------------------------------------
+
+/**
+ * Search media coverage of specific high-value outputs (bills, policy papers),
+ * linking articles to every milestone the output belongs to.
+ */
+async function fetchMediaForOutputs(
+  milestones: MilestoneSlug[],
+  since: string | undefined,
+  fetchForOutput: (slugs: MilestoneSlug[], outputId: string, title: string) => Promise<FetchResult>
+): Promise<FetchResult> {
+  const outputs = getDb()
+    .prepare(
+      `SELECT id, GROUP_CONCAT(milestone_slug) as milestone_slugs, title FROM curated_outputs
+       WHERE type IN ('bill', 'policy_paper', 'white_paper')
+         AND dismissed = 0 AND confidence = 'high'
+         AND published_date >= ?
+         AND milestone_slug IN (SELECT value FROM json_each(?))
+       GROUP BY id
+       ORDER BY MAX(last_updated) DESC LIMIT 50`
+    )
+    .all(since ?? "2024-07-01", JSON.stringify(milestones)) as {
+    id: string;
+    milestone_slugs: string;
+    title: string;
+  }[];
+
+  console.log(`Found ${outputs.length} high-confidence outputs to search`);
+  const total: FetchResult = { written: 0, failed: 0 };
+  for (const output of outputs) {
+    const slugs = output.milestone_slugs.split(",") as MilestoneSlug[];
+    const result = await fetchForOutput(slugs, output.id, output.title);
+    total.written += result.written;
+    total.failed += result.failed;
   }
+  return total;
+}
+
+/**
+ * Build the steps selected by the options, in priority order. Steps only wait
+ * for the sources listed in `after`; everything else may run in parallel.
+ */
+function planSteps({ sources, milestones, fetchOptions }: RefreshOptions): RefreshStep[] {
+  const steps: RefreshStep[] = [];
+  const selected = (source: RefreshSource) => sources.includes(source);
 
-  // 2. Fetch Whitehall outputs for each milestone
-  console.log("\n--- Whitehall Outputs (GOV.UK Search) ---");
-  for (const slug of MILESTONE_SLUGS) {
-    try {
-      await fetchGovukOutputs(slug);
-    } catch (err) {
-      console.error(`GOV.UK outputs fetch failed for ${slug}:`, err);
+  // Run once per selected milestone
+  const perMilestone = (
+    source: RefreshSource,
+    dataSource: FetcherSourceId,
+    name: string,
+    run: (slug: MilestoneSlug, options: FetchOptions) => Promise<FetchResult>
+  ) => {
+    if (!selected(source)) return;
+    for (const slug of milestones) {
+      steps.push({
+        source,
+        dataSource,
+        milestone: slug,
+        label: `${name}: ${slug}`,
+        run: () => run(slug, fetchOptions),
+      });
     }
-  }
+  };
 
-  // 3. Fetch bills for each milestone
-  console.log("\n--- Parliamentary Bills ---");
-  for (const slug of MILESTONE_SLUGS) {
-    try {
-      await fetchBills(slug);
-    } catch (err) {
-      console.error(`Bills fetch failed for ${slug}:`, err);
+  // 1. KPI data, from the sources declared in milestone-mappings.json
+  if (selected("kpi")) {
+    for (const { slug, source } of getKpiSources(milestones)) {
+      steps.push({
+        source: "kpi",
+        dataSource: source.id,
+        milestone: slug,
+        label: source.label,
+        run: () => runKpiSource(slug, source),
+      });
     }
   }
 
-  // 4. Fetch committee inquiries for each milestone
-  console.log("\n--- Parliamentary Committees ---");
-  for (const slug of MILESTONE_SLUGS) {
-    try {
-      await fetchCommitteeInquiries(slug);
-    } catch (err) {
-      console.error(`Committee inquiries fetch failed for ${slug}:`, err);
-    }
+  // 2-4. Whitehall outputs, bills, then Acts and SIs
+  perMilestone("govuk", "govuk", "GOV.UK outputs", fetchGovukOutputs);
+  perMilestone("bills", "bills", "Bills", fetchBills);
+  perMilestone("legislation", "legislation", "Legislation", fetchLegislation);
+  if (selected("legislation")) {
+    // Needs bills and legislation fetched first; covers every known Act
+    steps.push({
+      source: "legislation",
+      dataSource: "commencement",
+      label: "Act commencement",
+      after: ["bills", "legislation"],
+      run: fetchCommencements,
+    });
   }
 
-  // 5. Fetch debates and written questions (TheyWorkForYou)
-  console.log("\n--- Parliamentary Debates & Written Questions ---");
-  for (const slug of MILESTONE_SLUGS) {
-    try {
-      await fetchDebates(slug);
-    } catch (err) {
-      console.error(`Debates fetch failed for ${slug}:`, err);
-    }
-    try {
-      await fetchWrittenQuestions(slug);
-    } catch (err) {
-      console.error(`Written questions fetch failed for ${slug}:`, err);
-    }
+  // 5-6. Committees, debates and written questions
+  perMilestone("committees", "committees", "Committee inquiries", fetchCommitteeInquiries);
+  perMilestone("debates", "debates", "Debates", fetchDebates);
+  perMilestone("debates", "written-questions", "Written questions", fetchWrittenQuestions);
+
+  // 7-10. Media coverage by milestone, and for specific high-value outputs
+  perMilestone("guardian", "guardian", "Guardian", fetchGuardianForMilestone);
+  if (selected("guardian")) {
+    steps.push({
+      source: "guardian",
+      dataSource: "guardian",
+      label: "Guardian: key outputs",
+      after: ["govuk", "bills"],
+      run: () => fetchMediaForOutputs(milestones, fetchOptions.since, fetchGuardianForOutput),
+    });
+  }
+  perMilestone("rss", "rss", "RSS feeds", fetchRssMediaForMilestone);
+  perMilestone("newsapi", "newsapi", "NewsAPI", fetchNewsApiForMilestone);
+  if (selected("newsapi")) {
+    steps.push({
+      source: "newsapi",
+      dataSource: "newsapi",
+      label: "NewsAPI: key outputs",
+      after: ["govuk", "bills"],
+      run: () => fetchMediaForOutputs(milestones, fetchOptions.since, fetchNewsApiForOutput),
+    });
   }
 
-  // 6. Fetch Guardian articles for each milestone
-  console.log("\n--- Guardian Media Coverage ---");
-  for (const slug of MILESTONE_SLUGS) {
-    try {
-      await fetchGuardianForMilestone(slug);
-    } catch (err) {
-      console.error(`Guardian fetch failed for ${slug}:`, err);
-    }
+  // 11-12. AI rationale for top outputs and milestone briefings, once the
+  // data they summarise is in
+  if (selected("ai")) {
+    const fetched = SOURCES.filter((s) => s !== "ai");
+    steps.push({
+      source: "ai",
+      dataSource: "ai-rationale",
+      label: "AI rationale",
+      after: fetched,
+      run: () => generateRationales(milestones),
+    });
+    steps.push({
+      source: "ai",
+      dataSource: "ai-briefings",
+      label: "AI briefings",
+      after: fetched,
+      run: () => generateBriefings(milestones),
+    });
   }
 
-  // 7. Fetch Guardian articles for specific high-value outputs (bills, policy papers)
-  console.log("\n--- Guardian Coverage for Specific Outputs ---");
-  if (process.env.GUARDIAN_API_KEY) {
-    const db = getDb();
-    const outputs = db
-      .prepare(
-        `SELECT id, milestone_slug, title FROM outputs
-         WHERE type IN ('bill', 'policy_paper', 'white_paper')
-           AND dismissed = 0 AND confidence = 'high'
-           AND published_date >= '2024-07-01'
-         ORDER BY last_updated DESC LIMIT 50`
-      )
-      .all() as { id: string; milestone_slug: string; title: string }[];
-
-    console.log(`Found ${outputs.length} high-confidence outputs to search`);
-    for (const output of outputs) {
-      try {
-        await fetchGuardianForOutput(
-          output.milestone_slug as import("../lib/types").MilestoneSlug,
-          output.id,
-          output.title
-        );
-      } catch (err) {
-        console.error(
-          `Guardian output search failed for "${output.id}":`,
-          err
-        );
-      }
-    }
-  } else {
-    console.log("Skipping — GUARDIAN_API_KEY not set");
+  return steps;
+}
+
+/** Why a step will not run, or null if it will. */
+function skipReason(step: RefreshStep): string | null {
+  const key = SOURCE_KEYS[step.source];
+  if (key && !process.env[key]) return `${key} not set`;
+  if (step.source === "ai" && getHttpCacheMode() === "replay") {
+    return "replaying recorded responses, no network";
   }
+  return null;
+}
 
-  // 8. Generate AI rationale for top outputs (requires ANTHROPIC_API_KEY)
-  console.log("\n--- AI Rationale Generation ---");
-  try {
-    await generateRationales();
-  } catch (err) {
-    console.error("Rationale generation failed:", err);
+async function runStep(step: RefreshStep): Promise<StepOutcome> {
+  const reason = skipReason(step);
+  if (reason) {
+    console.log(`[refresh] Skipping ${step.label} — ${reason}`);
+    return { step, status: "skipped", written: 0, failed: 0, error: reason, durationMs: 0 };
   }
 
-  // 9. Generate AI milestone briefings (requires ANTHROPIC_API_KEY)
-  console.log("\n--- AI Milestone Briefings ---");
+  console.log(`[refresh] Starting ${step.label}`);
+  const started = Date.now();
   try {
-    await generateBriefings();
+    const { written, failed, error, sourceUrl } = await step.run();
+    // Nothing written and something failed: the step produced nothing useful
+    const status: StepStatus =
+      failed === 0 ? "ok" : written > 0 ? "partial" : "failed";
+    return {
+      step,
+      status,
+      written,
+      failed,
+      error: error ?? (failed > 0 ? `${failed} request(s) failed` : undefined),
+      sourceUrl,
+      durationMs: Date.now() - started,
+    };
   } catch (err) {
-    console.error("Briefing generation failed:", err);
+    console.error(`${step.label} failed:`, err);
+    return {
+      step,
+      status: "failed",
+      written: 0,
+      failed: 0,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Date.now() - started,
+    };
   }
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+function printSummary(outcomes: StepOutcome[]): void {
+  const rows = outcomes.map((o) => [
+    o.step.label,
+    o.status,
+    o.status === "skipped" ? "" : String(o.written),
+    o.status === "skipped" ? "" : String(o.failed),
+    o.status === "skipped" ? "" : `${(o.durationMs / 1000).toFixed(1)}s`,
+    o.error ?? "",
+  ]);
+  const header = ["Step", "Status", "Rows", "Failed", "Time", "Error"];
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, i) => (i >= 2 && i <= 4 ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))).join("  ").trimEnd();
+
+  console.log(format(header));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows) console.log(format(row));
 
-  console.log("\n=== Refresh complete ===");
+  const counts = new Map<StepStatus, number>();
+  for (const o of outcomes) counts.set(o.status, (counts.get(o.status) ?? 0) + 1);
+  console.log(
+    `\n${outcomes.length} steps: ` +
+      (["ok", "partial", "failed", "skipped"] as StepStatus[])
+        .filter((s) => counts.has(s))
+        .map((s) => `${counts.get(s)} ${s}`)
+        .join(", ")
+  );
+}
+
+async function main() {
+  const options = parseOptions();
+  const steps = planSteps(options);
+
+  console.log("=== Plan for Change Dashboard — Data Refresh ===\n");
+
+  const cacheMode = getHttpCacheMode();
+  if (cacheMode !== "live") {
+    console.log(`HTTP cache mode: ${cacheMode}\n`);
+  }
+
+  if (options.dryRun) {
+    console.log(`Dry run — ${steps.length} steps would run:`);
+    for (const step of steps) {
+      const reason = skipReason(step);
+      const after = step.after ? ` (after ${step.after.join(", ")})` : "";
+      console.log(`  ${step.label}${after}${reason ? ` (skipped: ${reason})` : ""}`);
+    }
+    return;
+  }
+
+  // Ensure DB tables exist
+  initDb();
+  const runId = startRefreshRun(options);
+
+  const tasks: PipelineTask<StepOutcome>[] = steps.map((step) => ({
+    id: step.label,
+    dependsOn: steps
+      .filter((other) => other !== step && step.after?.includes(other.source))
+      .map((other) => other.label),
+    run: async () => {
+      const startedAt = new Date();
+      const outcome = await runStep(step);
+      recordRefreshStep(runId, {
+        step: step.label,
+        source: step.dataSource,
+        milestoneSlug: step.milestone,
+        startedAt,
+        finishedAt: new Date(),
+        status: outcome.status,
+        rowsWritten: outcome.written,
+        failedRequests: outcome.failed,
+        error: outcome.error,
+        sourceUrl: outcome.sourceUrl,
+      });
+      return outcome;
+    },
+  }));
+
+  // runStep catches fetcher errors, so every task settles as fulfilled
+  const settled = await runPipeline(tasks, options.concurrency);
+  const outcomes = steps.map((step) => {
+    const result = settled.get(step.label)!;
+    return result.status === "fulfilled"
+      ? result.value
+      : { step, status: "failed" as const, written: 0, failed: 0, error: String(result.reason), durationMs: 0 };
+  });
+
+  console.log("\n=== Refresh complete ===\n");
+  printSummary(outcomes);
+
+  const anyFailed = outcomes.some((o) => o.status === "failed");
+  finishRefreshRun(runId, anyFailed ? "failed" : "ok");
+  // Partial steps left gaps in the data, so they fail the exit code too
+  const anyPartial = outcomes.some((o) => o.status === "partial");
+  if (anyFailed || (anyPartial && !options.allowPartial)) {
+    process.exitCode = 1;
+  }
 }
 
 main().catch((err) => {
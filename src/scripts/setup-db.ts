@@ -1,5 +1,28 @@
-import { initDb } from "../lib/db";
+import fs from "fs";
+import Database from "better-sqlite3";
+import { initDb, DB_PATH } from "../lib/db";
+import { planMigrations, formatMigrationPlan } from "../lib/migrations";
 
-console.log("Setting up database...");
-initDb();
-console.log("Database initialized successfully.");
+// Usage: npx tsx src/scripts/setup-db.ts [--dry-run]
+//   --dry-run  print the SQL for pending migrations without applying it
+
+if (process.argv.includes("--dry-run")) {
+  // Read-only, so a dry run neither creates the file nor switches it to WAL
+  if (!fs.existsSync(DB_PATH)) {
+    console.log(`No database at ${DB_PATH}; setup would create it with every migration:\n`);
+    console.log(formatMigrationPlan(planMigrations(new Database(":memory:"))));
+  } else {
+    const db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+    const plan = planMigrations(db);
+    db.close();
+    if (plan.pending.length === 0 && plan.adoptedVersion === null) {
+      console.log(`Database is up to date (schema version ${plan.currentVersion}).`);
+    } else {
+      console.log(formatMigrationPlan(plan));
+    }
+  }
+} else {
+  console.log("Setting up database...");
+  initDb();
+  console.log("Database initialized successfully.");
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { computeBaselineProgress, resolveBaselineMetrics } from "@/lib/baseline-progress";
+import { quarterPeriod } from "@/lib/periods";
+import type { BaselineMetric, ComparisonMode, KpiSnapshot, MEFramework, Milestone } from "@/lib/types";
+
+// A synthetic milestone with a quarterly KPI from Q1 2024 to Q4 2025. With
+// nothing configured, the baseline is the Plan for Change (5 December
+// 2024), so Q4 2024 — dated by its midpoint, 15 November — is the baseline.
+
+function milestone(mode: ComparisonMode, overrides: Partial<Milestone> = {}): Milestone {
+  return {
+    slug: "test",
+    title: "Test milestone",
+    shortTitle: "Test",
+    icon: "🧪",
+    description: "",
+    targetValue: 100,
+    targetUnit: "units",
+    targetDate: "2029",
+    kpiLabel: "KPI",
+    higherIsBetter: true,
+    metrics: [{ id: "kpi", label: "KPI", unit: "units", role: "primary" }],
+    presentation: { mode, referenceLine: "none", rag: null },
+    ...overrides,
+  };
+}
+
+/** Quarterly snapshots from Q1 of `fromYear`, oldest first. */
+function quarterly(values: number[], metricId = "kpi", fromYear = 2024): KpiSnapshot[] {
+  return values.map((value, i) => {
+    const period = quarterPeriod(fromYear + Math.floor(i / 4), (i % 4) + 1);
+    return { milestoneSlug: "test", metricId, value, date: period.start, period, fetchedAt: "2026-01-01T00:00:00Z" };
+  });
+}
+
+function framework(date: string, metrics: BaselineMetric[] = []): MEFramework {
+  return {
+    slug: "test",
+    documentSource: "",
+    baseline: { description: "", date, metrics },
+    target: { description: "", value: null, unit: "", date: "" },
+    requiredTrajectory: { description: "", annualRateNeeded: null },
+    mission: "",
+    theoryOfChange: "",
+    pillars: [],
+    deliverables: [],
+  };
+}
+
+const RISING = quarterly([50, 52, 54, 56, 60, 62, 64, 66]);
+
+describe("computeBaselineProgress", () => {
+  it("measures an absolute target from the baseline to the target level", () => {
+    const progress = computeBaselineProgress(milestone("absolute", { targetValue: 92 }), RISING);
+    expect(progress).toMatchObject({
+      baselineDate: "2024-12-05",
+      baseline: { value: 56, date: "2024-10-01" },
+      latest: { value: 66 },
+      change: 10,
+      requiredChange: 36,
+    });
+    expect(progress?.shareAchieved).toBeCloseTo(10 / 36);
+  });
+
+  it("has no share achieved where the target was already met at the baseline", () => {
+    const progress = computeBaselineProgress(milestone("absolute", { targetValue: 55 }), RISING);
+    expect(progress).toMatchObject({ requiredChange: -1, shareAchieved: null });
+  });
+
+  it("counts a fall as progress when lower is better", () => {
+    const falling = quarterly([70, 68, 66, 64, 62, 60, 58, 56]);
+    const progress = computeBaselineProgress(milestone("absolute", { targetValue: 44, higherIsBetter: false }), falling);
+    expect(progress).toMatchObject({ change: -8, requiredChange: -20, shareAchieved: 0.4 });
+  });
+
+  it("measures annualised and cumulative targets against one year's share", () => {
+    const flows = quarterly([180, 190, 200, 200, 210, 220, 230, 250]);
+    for (const mode of ["annualised", "cumulative"] as const) {
+      const target = milestone(mode, { targetValue: 1500 });
+      target.presentation.periodYears = 5;
+      expect(computeBaselineProgress(target, flows)).toMatchObject({
+        change: 50,
+        requiredChange: 100,
+        shareAchieved: 0.5,
+      });
+    }
+  });
+
+  it("takes a delta-from-baseline target as the change itself, from its own baseline date", () => {
+    const target = milestone("delta-from-baseline", { targetValue: 20 });
+    target.presentation.baselineDate = "2024-03-31";
+    expect(computeBaselineProgress(target, RISING)).toMatchObject({
+      baselineDate: "2024-03-31",
+      baseline: { value: 50, date: "2024-01-01" },
+      change: 16,
+      requiredChange: 20,
+      shareAchieved: 0.8,
+    });
+  });
+
+  it("has no required change for comparative targets or a target of zero", () => {
+    expect(computeBaselineProgress(milestone("comparative"), RISING)).toMatchObject({
+      change: 10,
+      requiredChange: null,
+      shareAchieved: null,
+    });
+    expect(computeBaselineProgress(milestone("absolute", { targetValue: 0 }), RISING)?.requiredChange).toBeNull();
+  });
+
+  it("reports the share of time gone from the baseline to the target date", () => {
+    const progress = computeBaselineProgress(milestone("absolute"), RISING);
+    // 15 Nov 2024 (Q4 2024's midpoint) to 15 Nov 2025, of the span to 31 Dec 2029
+    const days = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 86_400_000;
+    expect(progress?.timeElapsed).toBeCloseTo(days("2024-11-15", "2025-11-15") / days("2024-11-15", "2029-12-31"));
+
+    const noDate = computeBaselineProgress(milestone("absolute", { targetDate: "This Parliament" }), RISING);
+    expect(noDate?.timeElapsed).toBeNull();
+  });
+
+  it("takes the baseline from the M&E framework when the presentation sets none", () => {
+    const progress = computeBaselineProgress(milestone("absolute"), RISING, framework("2023-24"));
+    expect(progress).toMatchObject({ baselineDate: "2024-03-31", baseline: { value: 50 } });
+  });
+
+  it("is null until a value at or before the baseline is stored", () => {
+    expect(computeBaselineProgress(milestone("absolute"), quarterly([60, 62], "kpi", 2025))).toBeNull();
+    expect(computeBaselineProgress(milestone("absolute"), [])).toBeNull();
+  });
+});
+
+describe("resolveBaselineMetrics", () => {
+  it("reads each metric's stored value at the baseline date, keeping the configured one otherwise", () => {
+    const metrics: BaselineMetric[] = [
+      { label: "KPI", value: 55, unit: "units", metricId: "kpi" },
+      { label: "Not tracked", value: 3, unit: "units" },
+      { label: "Tracked from 2025", value: 7, unit: "units", metricId: "later" },
+    ];
+    const snapshots = [...RISING, ...quarterly([8, 9], "later", 2025)];
+
+    const resolved = resolveBaselineMetrics(milestone("absolute"), framework("September 2024", metrics), snapshots);
+    // The framework's baseline, September 2024, picks out Q3 2024
+    expect(resolved.map((m) => [m.label, m.value, m.snapshot?.date ?? null])).toEqual([
+      ["KPI", 54, "2024-07-01"],
+      ["Not tracked", 3, null],
+      ["Tracked from 2025", 7, null],
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createLimiter, mapConcurrent } from "@/lib/concurrency";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Counts how many calls are in flight at once. */
+function tracker() {
+  let active = 0;
+  let maxActive = 0;
+  return {
+    run: async <T>(value: T, ms: number, fail = false): Promise<T> => {
+      maxActive = Math.max(maxActive, ++active);
+      await sleep(ms);
+      active--;
+      if (fail) throw new Error(`${value} failed`);
+      return value;
+    },
+    maxActive: () => maxActive,
+  };
+}
+
+describe("createLimiter", () => {
+  it("holds tasks beyond the limit until a slot frees, including after a failure", async () => {
+    const { run, maxActive } = tracker();
+    const limit = createLimiter(2);
+
+    const settled = await Promise.allSettled([
+      limit(() => run("a", 10, true)),
+      limit(() => run("b", 20)),
+      limit(() => run("c", 10)),
+      limit(() => run("d", 5)),
+    ]);
+    expect(maxActive()).toBe(2);
+    expect(settled.map((s) => s.status)).toEqual(["rejected", "fulfilled", "fulfilled", "fulfilled"]);
+
+    // Every slot was handed back
+    await limit(() => run("e", 1));
+    await Promise.all([limit(() => run("f", 5)), limit(() => run("g", 5))]);
+    expect(maxActive()).toBe(2);
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("keeps input order whatever order the calls finish in", async () => {
+    const { run, maxActive } = tracker();
+    const delays = [30, 5, 20, 1, 10];
+    const results = await mapConcurrent(delays, 3, (ms, i) => run(`item ${i}`, ms));
+
+    expect(results).toEqual(["item 0", "item 1", "item 2", "item 3", "item 4"]);
+    expect(maxActive()).toBe(3);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  fitForecast,
+  projectCumulative,
+  ragFromOutcome,
+  resolveTargetDate,
+  type Forecast,
+} from "@/lib/forecast";
+import { quarterPeriod } from "@/lib/periods";
+import type { KpiSnapshot } from "@/lib/types";
+
+// Synthetic series with a known shape, so each model and the band can be
+// checked against what the data was built from.
+
+const DAY_MS = 86_400_000;
+const YEAR_MS = 365.25 * DAY_MS;
+const ORIGIN = Date.parse("2023-01-01T00:00:00Z");
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function snapshot(date: string, value: number, period: KpiSnapshot["period"] = null): KpiSnapshot {
+  return { milestoneSlug: "test", metricId: "kpi", value, date, period, fetchedAt: "2026-01-01T00:00:00Z" };
+}
+
+/** `count` values 91 days apart from 1 Jan 2023, as `valueAt(years since then)`. */
+function every91Days(count: number, valueAt: (years: number) => number): KpiSnapshot[] {
+  return Array.from({ length: count }, (_, i) => {
+    const time = ORIGIN + i * 91 * DAY_MS;
+    return snapshot(isoDate(time), valueAt((time - ORIGIN) / YEAR_MS));
+  });
+}
+
+const yearsTo = (date: string) => (Date.parse(`${date}T00:00:00Z`) - ORIGIN) / YEAR_MS;
+
+describe("fitForecast", () => {
+  it("needs at least four observations", () => {
+    expect(fitForecast(every91Days(3, () => 100), "2027-12-31")).toBeNull();
+  });
+
+  it("projects a flat series flat, with no band", () => {
+    const forecast = fitForecast(every91Days(8, () => 100), "2027-12-31");
+    expect(forecast).toMatchObject({ model: "linear", fittedPoints: 8 });
+    expect(forecast?.annualChange).toBeCloseTo(0, 6);
+    for (const point of forecast?.projection ?? []) {
+      expect(point.value).toBeCloseTo(100, 6);
+      expect(point.upper - point.lower).toBeCloseTo(0, 6);
+    }
+    expect(forecast?.atTarget.date).toBe("2027-12-31");
+  });
+
+  it("recovers a linear slope and extends it to the target date", () => {
+    const forecast = fitForecast(every91Days(8, (t) => 1000 + 200 * t), "2027-12-31");
+    expect(forecast?.model).toBe("linear");
+    expect(forecast?.annualChange).toBeCloseTo(200, 6);
+    expect(forecast?.atTarget.value).toBeCloseTo(1000 + 200 * yearsTo("2027-12-31"), 4);
+
+    // Quarterly steps from the latest observation, which starts the line
+    const dates = forecast?.projection.map((p) => p.date) ?? [];
+    expect(dates.slice(0, 3)).toEqual(["2024-09-29", "2024-12-29", "2025-03-29"]);
+    expect(forecast?.projection[0].value).toBeCloseTo(1000 + 200 * yearsTo("2024-09-29"), 6);
+  });
+
+  it("prefers a constant growth rate when the series compounds", () => {
+    const history = every91Days(10, (t) => 100 * 1.1 ** t);
+    const forecast = fitForecast(history, "2027-12-31");
+    expect(forecast?.model).toBe("log-linear");
+    expect(forecast?.atTarget.value).toBeCloseTo(100 * 1.1 ** yearsTo("2027-12-31"), 4);
+    // The trend's change per year at the latest value
+    const latest = history[history.length - 1].value;
+    expect(forecast?.annualChange).toBeCloseTo(latest * Math.log(1.1), 4);
+  });
+
+  it("fits a seasonal pattern to quarterly data with two years or more", () => {
+    const pattern = [0, 30, -10, -20];
+    const history = Array.from({ length: 12 }, (_, i) => {
+      const year = 2022 + Math.floor(i / 4);
+      const quarter = (i % 4) + 1;
+      const period = quarterPeriod(year, quarter);
+      return snapshot(period.start, 1000 + 10 * i + pattern[quarter - 1], period);
+    });
+
+    const forecast = fitForecast(history, "2026-12-31");
+    expect(forecast).toMatchObject({ model: "seasonal", fittedFrom: "Q1 2022" });
+    expect(forecast?.annualChange).toBeCloseTo(40, 0);
+
+    // Q1 2025 then Q2 2025: a quarter's trend plus the Q2 uplift
+    const [q1, q2] = (forecast?.projection ?? []).slice(1, 3);
+    expect(q1.date).toBe("2025-02-15");
+    expect(q2.value - q1.value).toBeCloseTo(40, 0);
+  });
+
+  it("widens the band with the horizon and clamps it to the bounds", () => {
+    const noise = [3, -4, 2, -1, 5, -3, 0, -2];
+    const history = every91Days(8, (t) => 50 - 15 * t).map((s, i) => ({ ...s, value: s.value + noise[i] }));
+
+    const forecast = fitForecast(history, "2025-12-31", { min: 0 });
+    const [, next] = forecast?.projection ?? [];
+    const atTarget = forecast?.atTarget;
+    expect(next.lower).toBeLessThan(next.value);
+    expect(next.upper).toBeGreaterThan(next.value);
+    expect(atTarget && atTarget.upper - atTarget.value).toBeGreaterThan(next.upper - next.value);
+
+    // The trend crosses zero in 2026
+    expect(fitForecast(history, "2028-12-31", { min: 0 })?.atTarget).toMatchObject({ value: 0, lower: 0 });
+  });
+});
+
+describe("projectCumulative", () => {
+  /** A forecast of an annual rate running straight between two points. */
+  function rate(from: [string, number], to: [string, number], band = 0): Forecast {
+    const point = ([date, value]: [string, number]) => ({ date, value, lower: value - band, upper: value + band });
+    const projection = [point(from), point(to)];
+    return {
+      model: "linear",
+      fittedFrom: from[0],
+      fittedPoints: 4,
+      annualChange: 0,
+      projection,
+      atTarget: projection[1],
+    };
+  }
+
+  it("adds the projected rate over the remaining years to the total so far", () => {
+    const flat = rate(["2024-01-01", 100], ["2026-01-01", 100], 20);
+    const years = yearsTo("2026-01-01") - yearsTo("2024-01-01");
+    expect(projectCumulative(flat, { date: "2024-01-01", cumulative: 500 })).toEqual({
+      value: Math.round(500 + 100 * years),
+      lower: Math.round(500 + 80 * years),
+      upper: Math.round(500 + 120 * years),
+    });
+  });
+
+  it("integrates a changing rate from a date inside the projection", () => {
+    // 0 → 200 a year over two years: 100 a year on average, 150 over the second
+    const rising = rate(["2024-01-01", 0], ["2026-01-01", 200]);
+    expect(projectCumulative(rising, { date: "2024-01-01", cumulative: 0 }).value).toBe(200);
+    expect(projectCumulative(rising, { date: "2025-01-01", cumulative: 1000 }).value).toBe(1150);
+  });
+});
+
+describe("ragFromOutcome", () => {
+  const thresholds = { green: 0.95, amber: 0.8 };
+  const outcome = (value: number, lower = value, upper = value) => ({ value, lower, upper });
+
+  it("judges the projected share of a target to reach", () => {
+    expect(ragFromOutcome(outcome(96), 100, true, thresholds)).toBe("green");
+    expect(ragFromOutcome(outcome(85), 100, true, thresholds)).toBe("amber");
+    expect(ragFromOutcome(outcome(70, 50, 96), 100, true, thresholds)).toBe("amber");
+    expect(ragFromOutcome(outcome(70, 50, 90), 100, true, thresholds)).toBe("red");
+  });
+
+  it("inverts the share when lower is better", () => {
+    expect(ragFromOutcome(outcome(104), 100, false, thresholds)).toBe("green");
+    expect(ragFromOutcome(outcome(120), 100, false, thresholds)).toBe("amber");
+    expect(ragFromOutcome(outcome(140, 104, 160), 100, false, thresholds)).toBe("amber");
+    expect(ragFromOutcome(outcome(140, 130, 160), 100, false, thresholds)).toBe("red");
+  });
+});
+
+describe("resolveTargetDate", () => {
+  it("reads seasons as the end of their quarter and bare years as 31 December", () => {
+    expect(resolveTargetDate("Spring 2029")).toBe("2029-03-31");
+    expect(resolveTargetDate("by autumn 2027")).toBe("2027-09-30");
+    expect(resolveTargetDate("Winter 2028")).toBe("2028-12-31");
+    expect(resolveTargetDate("End of 2030")).toBe("2030-12-31");
+    expect(resolveTargetDate("This Parliament")).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// HTTP_CACHE_MODE=record against a stubbed fetch, writing to a scratch
+// directory. http.ts reads HTTP_CACHE_DIR when it loads, so each test
+// imports a fresh copy.
+
+let dir: string;
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "http-record-"));
+  vi.stubEnv("HTTP_CACHE_DIR", dir);
+  vi.stubEnv("HTTP_CACHE_MODE", "record");
+  vi.stubGlobal("fetch", fetchMock);
+  vi.resetModules();
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function recordings(): Array<Record<string, unknown>> {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8")));
+}
+
+describe("record mode", () => {
+  it("saves a response that replays for the same request, with API keys redacted", async () => {
+    const { fetchJson } = await import("@/lib/http");
+    fetchMock.mockResolvedValue(
+      new Response('{"total":2}', { status: 200, headers: { "content-type": "application/json" } })
+    );
+
+    const url = "https://example.org/search?q=housing&api-key=secret";
+    expect(await fetchJson(url)).toMatchObject({ ok: true, data: { total: 2 } });
+    expect(recordings()).toEqual([
+      {
+        url: "https://example.org/search?q=housing&api-key=REDACTED",
+        status: 200,
+        contentType: "application/json",
+        recordedAt: expect.any(String),
+      },
+    ]);
+
+    // Replayed without the network, whatever key is set by then
+    vi.stubEnv("HTTP_CACHE_MODE", "replay");
+    const replayed = await fetchJson("https://example.org/search?q=housing&api-key=other");
+    expect(replayed).toMatchObject({ ok: true, data: { total: 2 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The Accept header is part of the key
+    const other = await fetchJson(url, { headers: { Accept: "application/xml" } });
+    expect(other).toMatchObject({ ok: false, error: { kind: "not-recorded" } });
+  });
+
+  it("records definitive failures but not ones that would be retried", async () => {
+    const { fetchText } = await import("@/lib/http");
+    fetchMock.mockImplementation(async (input) =>
+      String(input).endsWith("/missing")
+        ? new Response("Not Found", { status: 404 })
+        : new Response("Unavailable", { status: 503 })
+    );
+
+    expect(await fetchText("https://example.org/missing")).toMatchObject({
+      ok: false,
+      error: { kind: "http", status: 404, attempts: 1 },
+    });
+    expect(await fetchText("https://example.org/busy", { retries: 0 })).toMatchObject({
+      ok: false,
+      error: { kind: "http", status: 503 },
+    });
+    expect(recordings().map((r) => [r.url, r.status])).toEqual([["https://example.org/missing", 404]]);
+
+    vi.stubEnv("HTTP_CACHE_MODE", "replay");
+    expect(await fetchText("https://example.org/missing")).toMatchObject({
+      ok: false,
+      error: { kind: "http", status: 404, message: "HTTP 404 (recorded)" },
+    });
+  });
+});
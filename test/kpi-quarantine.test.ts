@@ -0,0 +1,109 @@
+import Database from "better-sqlite3";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runMigrations } from "@/lib/migrations";
+import { getKpiSources, runKpiSource } from "@/lib/kpi-registry";
+import {
+  approveQuarantinedBatch,
+  getQuarantinedBatches,
+  rejectQuarantinedBatch,
+} from "@/lib/kpi-quarantine";
+import type { KpiSourceConfig, KpiValidationRules } from "@/lib/types";
+
+// storeSeries through runKpiSource: Live Table 213 completions replayed from
+// fixtures/http (34410, 33020, 33760, 32870, 33890 for Q1 2024 – Q1 2025)
+// into a fresh in-memory database per test.
+
+let db: Database.Database;
+vi.mock("@/lib/db", () => ({ getDb: () => db }));
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+const found = getKpiSources().find(({ source }) => source.id === "housing-completions");
+if (!found) throw new Error('No KPI source "housing-completions"');
+const { slug, source: completions } = found;
+
+/** The completions source with only the main series, under other rules. */
+function withRules(validation?: KpiValidationRules): KpiSourceConfig {
+  return { ...completions, secondary: undefined, validation };
+}
+
+function storedValues(): number[] {
+  return (
+    db
+      .prepare(
+        `SELECT value FROM kpi_snapshots WHERE metric_id = 'dwelling-completions' ORDER BY date`
+      )
+      .all() as { value: number }[]
+  ).map((r) => r.value);
+}
+
+// 33020 is 4.0% below 34410; 33890 is 3.1% above 32870
+const TIGHT: KpiValidationRules = { maxChange: { relative: 0.035 } };
+
+describe("storeSeries", () => {
+  it("stores a batch that passes its rules and supersedes pending batches", async () => {
+    await runKpiSource(slug, withRules(TIGHT));
+    expect(getQuarantinedBatches({ status: "pending" })).toHaveLength(1);
+
+    const result = await runKpiSource(slug, withRules({ range: { min: 10000, max: 100000 } }));
+    expect(result).toMatchObject({ written: 5, failed: 0 });
+    expect(storedValues()).toEqual([34410, 33020, 33760, 32870, 33890]);
+    expect(getQuarantinedBatches({ status: "pending" })).toEqual([]);
+  });
+
+  it("quarantines a batch that breaks its rules instead of storing it", async () => {
+    const result = await runKpiSource(slug, withRules(TIGHT));
+    expect(result.failed).toBe(1);
+    expect(result.error).toMatch(/^Quarantined dwelling-completions batch #1: Period-on-period change too large/);
+    expect(storedValues()).toEqual([]);
+
+    // The same batch again reuses the pending entry
+    await runKpiSource(slug, withRules(TIGHT));
+    const [batch] = getQuarantinedBatches();
+    expect(getQuarantinedBatches()).toHaveLength(1);
+    expect(batch).toMatchObject({ id: 1, status: "pending", metricId: "dwelling-completions" });
+    expect(batch.points.map((p) => p.value)).toEqual([34410, 33020, 33760, 32870, 33890]);
+  });
+
+  it("validates only periods that are new or changed since the last store", async () => {
+    await runKpiSource(slug, withRules());
+    db.prepare("DELETE FROM kpi_snapshots WHERE date = '2025-01-01'").run();
+
+    // Q1 → Q2 2024 already stored breaks the rule, but only Q1 2025 is new
+    const result = await runKpiSource(slug, withRules(TIGHT));
+    expect(result).toMatchObject({ written: 5, failed: 0 });
+    expect(getQuarantinedBatches()).toEqual([]);
+
+    // A revised value is checked again
+    db.prepare("UPDATE kpi_snapshots SET value = 30000 WHERE date = '2024-04-01'").run();
+    const revised = await runKpiSource(slug, withRules(TIGHT));
+    expect(revised.error).toMatch(/Q1 2024 34410 → Q2 2024 33020/);
+  });
+});
+
+describe("quarantine review", () => {
+  it("stores an approved batch, and stores the same batch again without holding it", async () => {
+    await runKpiSource(slug, withRules(TIGHT));
+    expect(approveQuarantinedBatch(1)).toEqual({ stored: 5, revised: 0 });
+    expect(storedValues()).toEqual([34410, 33020, 33760, 32870, 33890]);
+    expect(approveQuarantinedBatch(1)).toBeUndefined();
+
+    const result = await runKpiSource(slug, withRules(TIGHT));
+    expect(result).toMatchObject({ written: 5, failed: 0 });
+    expect(getQuarantinedBatches().map((b) => b.status)).toEqual(["approved"]);
+  });
+
+  it("skips a batch identical to a rejected one rather than holding it again", async () => {
+    await runKpiSource(slug, withRules(TIGHT));
+    expect(rejectQuarantinedBatch(1)).toBe(true);
+    expect(rejectQuarantinedBatch(1)).toBe(false);
+
+    const result = await runKpiSource(slug, withRules(TIGHT));
+    expect(result).toMatchObject({ written: 0, failed: 0 });
+    expect(storedValues()).toEqual([]);
+    expect(getQuarantinedBatches().map((b) => b.status)).toEqual(["rejected"]);
+  });
+});
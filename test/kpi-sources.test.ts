@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { fetchKpiSource, getKpiSources } from "@/lib/kpi-registry";
+import {
+  academicYearPeriod,
+  dayPeriod,
+  financialYearPeriod,
+  monthPeriod,
+  quarterPeriod,
+} from "@/lib/periods";
+
+// Each KPI source in milestone-mappings.json, read end to end — discovery,
+// download and its table specs or adapter — from the recordings in
+// fixtures/http.
+
+async function fetchSource(id: string) {
+  const found = getKpiSources().find(({ source }) => source.id === id);
+  if (!found) throw new Error(`No KPI source "${id}"`);
+  const outcome = await fetchKpiSource(found.source);
+  if (!outcome.ok) throw new Error(`${id}: ${outcome.error}`);
+  return outcome;
+}
+
+describe("ons-growth", () => {
+  it("reads RHDI per head from the first ONS series", async () => {
+    const outcome = await fetchSource("ons-growth");
+    expect(outcome.seriesId).toBe("UKEA/CRXS");
+    expect(outcome.release).toBe("UKEA 2025-09-30");
+    expect(outcome.points).toHaveLength(8);
+    expect(outcome.points[0]).toEqual({
+      value: 100.8,
+      date: "2023-07-01",
+      label: "Q3 2023",
+      period: quarterPeriod(2023, 3),
+    });
+  });
+});
+
+describe("housing-supply", () => {
+  it("finds Live Table 120 among the attachments and reads net additions by financial year", async () => {
+    const outcome = await fetchSource("housing-supply");
+    expect(outcome.sourceUrl).toMatch(/LiveTable120\.xlsx$/);
+    expect(outcome.sheetName).toBe("Table 120");
+    expect(outcome.parser).toBe("lt120:years-across");
+    expect(outcome.points.map((p) => p.value)).toEqual([242700, 216490, 232820, 234400, 221070, 208600]);
+    expect(outcome.points[5]).toMatchObject({
+      date: "2025-03-31",
+      label: "2024-25",
+      period: financialYearPeriod(2025),
+    });
+  });
+});
+
+describe("housing-completions", () => {
+  it("reads quarterly completions and, as a secondary metric, starts", async () => {
+    const outcome = await fetchSource("housing-completions");
+    expect(outcome.parser).toBe("lt213:completions");
+    expect(outcome.points.map((p) => p.value)).toEqual([34410, 33020, 33760, 32870, 33890]);
+    expect(outcome.points[0]).toMatchObject({ date: "2024-01-01", label: "Q1 2024" });
+
+    const starts = outcome.secondary?.["dwelling-starts"] ?? [];
+    expect(starts.map((p) => p.value)).toEqual([27640, 26900, 28310, 27950, 29420]);
+    expect(starts[0].provenance).toEqual({ sheetName: "213_England", parser: "lt213:starts" });
+  });
+});
+
+describe("nhs-rtt", () => {
+  it("follows the overview link and reads monthly shares, waiting list and long waits", async () => {
+    const outcome = await fetchSource("nhs-rtt");
+    expect(outcome.sourceUrl).toMatch(/RTT-Overview-Timeseries.*\.xlsx$/);
+    expect(outcome.sheetName).toBe("Full Time Series");
+    expect(outcome.points[0]).toEqual({
+      value: 59.3,
+      date: "2024-07-01",
+      label: "Jul 2024",
+      period: monthPeriod(2024, 7),
+    });
+    expect(outcome.points.at(-1)?.value).toBe(61);
+
+    const waitingList = outcome.secondary?.["rtt-waiting-list"] ?? [];
+    expect(waitingList[0]).toMatchObject({ value: 7620000, provenance: { parser: "rtt:waiting-list-millions" } });
+    const over52 = outcome.secondary?.["rtt-over-52-weeks"] ?? [];
+    expect(over52.map((p) => p.value)).toEqual([289000, 294000, 280000, 264000, 196000, 192000, 191000]);
+  });
+});
+
+describe("energy-trends", () => {
+  it("reads the renewables share row from the shares section, not the generation one", async () => {
+    const outcome = await fetchSource("energy-trends");
+    expect(outcome.parser).toBe("et61:shares-section");
+    expect(outcome.sheetName).toBe("Quarter");
+    expect(outcome.points.map((p) => p.value)).toEqual([52.5, 52.2, 54.5, 48.2, 54.7]);
+    expect(outcome.points[0]).toMatchObject({ date: "2024-04-01", label: "Q2 2024" });
+  });
+});
+
+describe("police-workforce", () => {
+  it("adds officers, PCSOs and specials per snapshot and reads each role on its own", async () => {
+    const outcome = await fetchSource("police-workforce");
+    expect(outcome.sourceUrl).toBe(
+      "https://www.gov.uk/government/statistics/police-workforce-england-and-wales-31-march-2025"
+    );
+    expect(outcome.points.map((p) => p.value)).toEqual([163210, 162030, 161700, 159600, 158990]);
+    expect(outcome.points[2]).toMatchObject({
+      date: "2024-03-31",
+      label: "31 Mar 2024",
+      period: dayPeriod("2024-03-31"),
+      provenance: { sheetName: "Table_4", parser: "police:workforce-totals" },
+    });
+
+    expect(outcome.secondary?.["police-officers"]?.map((p) => p.value)).toEqual([
+      147430, 147070, 147750, 146440, 146440,
+    ]);
+    expect(outcome.secondary?.["pcsos"]?.at(-1)?.value).toBe(6570);
+    expect(outcome.secondary?.["special-constables"]?.at(-1)?.value).toBe(5980);
+  });
+});
+
+describe("education-eyfs", () => {
+  it("reads the headline GLD share and school year from the DfE release page", async () => {
+    const outcome = await fetchSource("education-eyfs");
+    expect(outcome.parser).toBe("fetchViaDfePage");
+    expect(outcome.points).toEqual([
+      { value: 67.7, date: "2024-09-01", label: "2023/24", period: academicYearPeriod(2023) },
+    ]);
+  });
+});
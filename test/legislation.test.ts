@@ -0,0 +1,221 @@
+import Database from "better-sqlite3";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchText } from "@/lib/http";
+import { runMigrations } from "@/lib/migrations";
+import {
+  fetchCommencements,
+  fetchLegislation,
+  parseCommencementEffects,
+  parseLegislationDates,
+  parseLegislationFeed,
+} from "@/lib/fetchers/legislation";
+
+// The fetchers write to a fresh in-memory database per test rather than
+// data/cache/dashboard.db
+let db: Database.Database;
+vi.mock("@/lib/db", () => ({ getDb: () => db }));
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+const BASE = "https://www.legislation.gov.uk";
+
+/** A recorded legislation.gov.uk response, as the fetcher requests it. */
+async function recorded(url: string): Promise<string> {
+  const res = await fetchText(url, { headers: { Accept: "application/xml" } });
+  if (!res.ok) throw new Error(`${url}: ${res.error.message}`);
+  return res.data;
+}
+
+describe("parseLegislationFeed", () => {
+  it("reads entries and the rel=next link from a search page", async () => {
+    const page = parseLegislationFeed(await recorded(`${BASE}/uksi/data.feed?title=trade&start-year=2024`));
+    expect(page.nextUrl).toBe(`${BASE}/uksi/data.feed?title=trade&start-year=2024&page=2`);
+    expect(page.entries[0]).toEqual({
+      type: "uksi",
+      year: 2025,
+      number: 412,
+      title: "The Trade Remedies (Dumping and Subsidisation) (Amendment) Regulations 2025",
+      summary: "The Trade Remedies (Dumping and Subsidisation) (Amendment) Regulations 2025",
+      url: `${BASE}/uksi/2025/412`,
+      createdDate: "2025-04-02",
+      updated: "2025-04-10",
+    });
+  });
+
+  it("has no next link on the last page", async () => {
+    const page = parseLegislationFeed(await recorded(`${BASE}/uksi/data.feed?title=trade&start-year=2024&page=2`));
+    expect(page.nextUrl).toBeNull();
+    expect(page.entries.map((e) => e.number)).toEqual([1001, 520]);
+  });
+});
+
+describe("parseLegislationDates", () => {
+  it("reads made and laid dates and the earliest of staged in-force dates", async () => {
+    expect(parseLegislationDates(await recorded(`${BASE}/uksi/2025/412/made/data.xml`))).toEqual({
+      madeDate: "2025-04-02",
+      laidDate: "2025-04-03",
+      inForceDate: "2025-04-24",
+    });
+  });
+
+  it("returns no dates for a document without SI metadata", () => {
+    expect(parseLegislationDates("<Legislation><Metadata/></Legislation>")).toEqual({
+      madeDate: null,
+      laidDate: null,
+      inForceDate: null,
+    });
+  });
+});
+
+describe("parseCommencementEffects", () => {
+  it("keeps coming-into-force effects only, with provisions from either form", async () => {
+    const first = parseCommencementEffects(await recorded(`${BASE}/changes/affected/ukpga/2025/26/data.feed`));
+    expect(first.nextUrl).toBe(`${BASE}/changes/affected/ukpga/2025/26/data.feed?page=2`);
+    expect(first.effects.map((e) => e.provisions)).toEqual(["s. 1-3", "s. 4-12"]);
+
+    const second = parseCommencementEffects(
+      await recorded(`${BASE}/changes/affected/ukpga/2025/26/data.feed?page=2`)
+    );
+    expect(second.nextUrl).toBeNull();
+    expect(second.effects).toEqual([
+      {
+        provisions: "s. 13",
+        inForceDate: "2025-12-27",
+        commencedBy: "uksi/2025/1110",
+        commencedByTitle: "The Renters’ Rights Act 2025 (Commencement No. 1) Regulations 2025",
+      },
+      { provisions: "Sch. 1", inForceDate: null, commencedBy: "ukpga/2025/26", commencedByTitle: "Renters’ Rights Act 2025" },
+    ]);
+  });
+});
+
+describe("fetchLegislation", () => {
+  it("follows rel=next pages, drops items before the start date and stores SI dates", async () => {
+    const result = await fetchLegislation("economic-growth");
+    expect(result).toMatchObject({ written: 3, failed: 0 });
+
+    const rows = db
+      .prepare(
+        `SELECT o.id, o.status, o.published_date as publishedDate,
+                ld.made_date as madeDate, ld.laid_date as laidDate, ld.in_force_date as inForceDate
+         FROM outputs o JOIN legislation_details ld ON ld.output_id = o.id
+         ORDER BY o.id`
+      )
+      .all();
+    expect(rows).toEqual([
+      // Page 2; its metadata is not recorded, so the feed's creation date stands in
+      {
+        id: "legislation-uksi-2024-1001",
+        status: "Made",
+        publishedDate: "2024-10-03",
+        madeDate: "2024-10-03",
+        laidDate: null,
+        inForceDate: null,
+      },
+      {
+        id: "legislation-uksi-2025-118",
+        status: "Made",
+        publishedDate: "2025-02-05",
+        madeDate: "2025-02-05",
+        laidDate: "2025-02-06",
+        inForceDate: "2025-03-01",
+      },
+      // Found by both "trade" and "investment"
+      {
+        id: "legislation-uksi-2025-412",
+        status: "Made",
+        publishedDate: "2025-04-02",
+        madeDate: "2025-04-02",
+        laidDate: "2025-04-03",
+        inForceDate: "2025-04-24",
+      },
+    ]);
+    expect(
+      db.prepare("SELECT COUNT(*) as n FROM output_milestones WHERE milestone_slug = 'economic-growth'").get()
+    ).toEqual({ n: 3 });
+  });
+});
+
+describe("fetchCommencements", () => {
+  const insertBill = (id: string, title: string, status: string) =>
+    db
+      .prepare(
+        `INSERT INTO outputs (id, type, title, url, source, status)
+         VALUES (?, 'bill', ?, ?, 'parliament', ?)`
+      )
+      .run(id, title, `https://bills.parliament.uk/bills/${id}`, status);
+
+  it("matches enacted bills to their Act and records its commencement", async () => {
+    insertBill("bill-3737", "Renters' Rights Bill", "Royal Assent");
+    insertBill("bill-3900", "Planning and Infrastructure Bill [HL]", "Royal Assent");
+    insertBill("bill-3800", "English Devolution and Community Empowerment Bill", "Committee stage");
+
+    const result = await fetchCommencements();
+    expect(result).toMatchObject({ written: 1, failed: 0 });
+
+    // The Act whose title starts with the bill's, not the first search result;
+    // the planning bill has no Act on legislation.gov.uk yet
+    expect(
+      db
+        .prepare(
+          `SELECT output_id as outputId, legislation_type as type, year, number, made_date as madeDate
+           FROM legislation_details`
+        )
+        .all()
+    ).toEqual([{ outputId: "bill-3737", type: "ukpga", year: 2025, number: 26, madeDate: "2025-10-27" }]);
+
+    expect(
+      db
+        .prepare(
+          `SELECT provisions, in_force_date as inForceDate, commenced_by as commencedBy
+           FROM act_commencements ORDER BY provisions`
+        )
+        .all()
+    ).toEqual([
+      { provisions: "Sch. 1", inForceDate: null, commencedBy: "ukpga/2025/26" },
+      { provisions: "s. 1-3", inForceDate: "2025-10-27", commencedBy: "ukpga/2025/26" },
+      { provisions: "s. 13", inForceDate: "2025-12-27", commencedBy: "uksi/2025/1110" },
+      { provisions: "s. 4-12", inForceDate: "2026-05-01", commencedBy: "uksi/2025/1110" },
+    ]);
+
+    // Provisions commenced by the Act itself have no regulation; the
+    // regulation keeps its earliest in-force date across pages
+    expect(
+      db
+        .prepare(
+          `SELECT act_number as actNumber, regulation, first_in_force_date as firstInForceDate
+           FROM commencement_regulations`
+        )
+        .all()
+    ).toEqual([{ actNumber: 26, regulation: "uksi/2025/1110", firstInForceDate: "2025-12-27" }]);
+
+    expect(
+      db
+        .prepare(
+          `SELECT output_id as outputId, provisions_in_force + provisions_pending as provisions,
+                  regulation_count as regulations
+           FROM act_commencement_summary`
+        )
+        .all()
+    ).toEqual([{ outputId: "bill-3737", provisions: 4, regulations: 1 }]);
+  });
+
+  it("leaves an Act's commencement unknown until its effects are fetched", async () => {
+    insertBill("bill-3650", "Great British Energy Bill", "Royal Assent");
+    db.prepare(
+      `INSERT INTO legislation_details (output_id, legislation_type, year, number, made_date)
+       VALUES ('bill-3650', 'ukpga', 2025, 4, '2025-05-15')`
+    ).run();
+
+    // Its effects feed is not recorded, so the fetch fails
+    const result = await fetchCommencements();
+    expect(result).toMatchObject({ written: 0, failed: 1 });
+    expect(
+      db.prepare("SELECT effects_fetched_at as fetchedAt FROM legislation_details").get()
+    ).toEqual({ fetchedAt: null });
+    expect(db.prepare("SELECT * FROM act_commencement_summary").all()).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import mappings from "../data/milestone-mappings.json";
+import { validateMilestoneMappings } from "@/lib/milestone-config";
+
+// validateMilestoneMappings against copies of the real config with one
+// problem introduced each.
+
+type Mapping = (typeof mappings)[number];
+
+function withEdit(edit: (data: Mapping[]) => void): string[] {
+  const data = structuredClone(mappings) as Mapping[];
+  edit(data);
+  return validateMilestoneMappings(data);
+}
+
+function sourceAt(data: Mapping[], id: string): Record<string, unknown> {
+  for (const mapping of data) {
+    const source = mapping.kpiSources.find((s) => s.id === id);
+    if (source) return source as Record<string, unknown>;
+  }
+  throw new Error(`No KPI source "${id}"`);
+}
+
+describe("validateMilestoneMappings", () => {
+  it("accepts data/milestone-mappings.json", () => {
+    expect(validateMilestoneMappings(mappings)).toEqual([]);
+  });
+
+  it("rejects KPI source ids and labels used twice across milestones", () => {
+    const issues = withEdit((data) => {
+      const police = sourceAt(data, "police-workforce");
+      police.id = "housing-completions";
+      police.label = sourceAt(data, "nhs-rtt").label;
+    });
+    expect(issues).toEqual([
+      expect.stringMatching(/\.id: duplicate KPI source id "housing-completions"$/),
+      expect.stringMatching(/\.label: duplicate KPI source label /),
+    ]);
+  });
+
+  it("rejects a KPI source id that a fetcher records its steps under", () => {
+    const issues = withEdit((data) => {
+      sourceAt(data, "nhs-rtt").id = "govuk";
+    });
+    expect(issues).toEqual([expect.stringMatching(/\.id: "govuk" is reserved for the govuk fetcher$/)]);
+  });
+
+  it("needs a start date for a cumulative target, and a known proxy metric", () => {
+    const issues = withEdit((data) => {
+      const housing = data.find((m) => m.slug === "housing") as { presentation: Record<string, unknown> };
+      housing.presentation.periodStart = "July 2024";
+      housing.presentation.proxyMetric = "completions";
+    });
+    expect(issues).toEqual([
+      "housing.presentation.periodStart: expected an ISO date such as 2024-07-04",
+      'housing.presentation.proxyMetric: unknown metric "completions"',
+    ]);
+  });
+
+  it("checks each discovery step has the fields its method needs", () => {
+    const issues = withEdit((data) => {
+      sourceAt(data, "housing-supply").discovery = [
+        { method: "govuk-content", path: "/government/statistical-data-sets/live-tables", linkPatterns: ["(unclosed"] },
+        { method: "page-links", linkPatterns: [] },
+        { method: "scrape" },
+      ];
+    });
+    expect(issues.map((issue) => issue.replace(/^.*\.discovery/, "discovery"))).toEqual([
+      "discovery[0].linkPatterns[0]: not a valid regular expression",
+      "discovery[1].url: expected a non-empty string",
+      "discovery[1].linkPatterns: expected at least one pattern",
+      "discovery[2].method: expected one of url, page-links, govuk-content, govuk-search, ons-series, adapter",
+    ]);
+  });
+
+  it("checks the table specs of a source and its secondary series", () => {
+    const issues = withEdit((data) => {
+      const source = sourceAt(data, "housing-completions") as {
+        tableLocator: { tables: Record<string, unknown>[] };
+        secondary: { tables: Record<string, unknown>[] }[];
+      };
+      const [table] = source.tableLocator.tables;
+      table.periodAxis = "down";
+      table.period = { formats: ["quarter", "season"] };
+      table.value = { match: ["Completions"], plus: ["PCSOs"] };
+      source.secondary[0].tables[0].scale = { multiply: "1000" };
+    });
+    expect(issues.map((issue) => issue.replace(/^.*\.(tableLocator|secondary)/, "$1"))).toEqual([
+      "tableLocator.tables[0].periodAxis: expected one of rows, columns",
+      "tableLocator.tables[0].period.formats: expected one or more of excel-date, iso-date, month-name, quarter, year, financial-year",
+      "tableLocator.tables[0].value.plus[0]: expected an array",
+      "secondary[0].tables[0].scale.multiply: expected a number",
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  academicYearPeriod,
+  calendarYearPeriod,
+  dayPeriod,
+  financialYearPeriod,
+  monthPeriod,
+  periodFromRow,
+  periodLabel,
+  periodMidpoint,
+  quarterPeriod,
+} from "@/lib/periods";
+
+describe("periodLabel", () => {
+  it("labels each granularity and year calendar", () => {
+    expect(periodLabel(dayPeriod("2024-03-31"))).toBe("31 Mar 2024");
+    expect(periodLabel(monthPeriod(2024, 7))).toBe("Jul 2024");
+    expect(periodLabel(quarterPeriod(2024, 4))).toBe("Q4 2024");
+    expect(periodLabel(calendarYearPeriod(2024))).toBe("2024");
+    expect(periodLabel(financialYearPeriod(2025))).toBe("2024-25");
+    expect(periodLabel(academicYearPeriod(2023))).toBe("2023/24");
+    // Across a century
+    expect(periodLabel(financialYearPeriod(2000))).toBe("1999-00");
+  });
+});
+
+describe("periodMidpoint", () => {
+  it("is halfway through the span, rounded down to a day", () => {
+    expect(periodMidpoint(quarterPeriod(2024, 1))).toBe("2024-02-15");
+    expect(periodMidpoint(monthPeriod(2024, 2))).toBe("2024-02-15");
+    expect(periodMidpoint(financialYearPeriod(2024))).toBe("2023-09-30");
+    expect(periodMidpoint(academicYearPeriod(2023))).toBe("2024-03-01");
+  });
+
+  it("places a financial year mid-way through it, not at the 31 March it is stored under", () => {
+    // Live Table 120's 2023-24 lands in Q3 2023, beside the quarterly tables
+    const year = periodMidpoint(financialYearPeriod(2024));
+    const { start, end } = quarterPeriod(2023, 3);
+    expect(year >= start && year <= end).toBe(true);
+  });
+
+  it("is the date itself for a point in time", () => {
+    expect(periodMidpoint(dayPeriod("2025-03-31"))).toBe("2025-03-31");
+  });
+});
+
+describe("periodFromRow", () => {
+  it("reads the period columns of a kpi_snapshots row", () => {
+    const row = {
+      date: "2024-03-31",
+      period_start: "2023-04-01",
+      period_end: "2024-03-31",
+      granularity: "year",
+      calendar: "financial",
+    };
+    expect(periodFromRow(row)).toEqual(financialYearPeriod(2024));
+  });
+
+  it("returns null for rows stored before periods were recorded", () => {
+    expect(periodFromRow({ date: "2024-03-31", period_start: null, period_end: null })).toBeNull();
+    expect(
+      periodFromRow({ period_start: "2024-01-01", period_end: "2024-03-31", granularity: "quarter", calendar: null })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { runPipeline, type PipelineTask } from "@/lib/pipeline";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Tasks that log when they start and finish, each taking `ms` milliseconds. */
+function recorder() {
+  const events: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+  const task = (id: string, ms: number, dependsOn?: string[], fail = false): PipelineTask<string> => ({
+    id,
+    dependsOn,
+    run: async () => {
+      events.push(`start ${id}`);
+      maxActive = Math.max(maxActive, ++active);
+      await sleep(ms);
+      active--;
+      events.push(`end ${id}`);
+      if (fail) throw new Error(`${id} failed`);
+      return id;
+    },
+  });
+  return { events, task, maxActive: () => maxActive };
+}
+
+describe("runPipeline", () => {
+  it("rejects duplicate ids, unknown dependencies and cycles before running anything", async () => {
+    const { events, task } = recorder();
+    await expect(runPipeline([task("a", 1), task("a", 1)], 2)).rejects.toThrow("Duplicate task ids");
+    await expect(runPipeline([task("a", 1, ["missing"])], 2)).rejects.toThrow(
+      'Task "a" depends on unknown task "missing"'
+    );
+    await expect(
+      runPipeline([task("a", 1, ["c"]), task("b", 1, ["a"]), task("c", 1, ["b"]), task("d", 1)], 2)
+    ).rejects.toThrow("Dependency cycle");
+    expect(events).toEqual([]);
+  });
+
+  it("starts a task once its dependencies have settled, even if one failed", async () => {
+    const { events, task } = recorder();
+    const results = await runPipeline(
+      [task("commencement", 1, ["bills", "legislation"]), task("bills", 20, [], true), task("legislation", 5)],
+      4
+    );
+
+    expect(events.indexOf("start commencement")).toBeGreaterThan(events.indexOf("end bills"));
+    expect(events.indexOf("start commencement")).toBeGreaterThan(events.indexOf("end legislation"));
+    expect(results.get("bills")).toMatchObject({ status: "rejected", reason: new Error("bills failed") });
+    expect(results.get("commencement")).toEqual({ status: "fulfilled", value: "commencement" });
+  });
+
+  it("runs at most `concurrency` tasks at once, handing out slots in list order", async () => {
+    const { events, task, maxActive } = recorder();
+    const results = await runPipeline(
+      [task("a", 10), task("b", 30), task("c", 10), task("d", 10), task("e", 10)],
+      2
+    );
+
+    expect(maxActive()).toBe(2);
+    expect(events.filter((e) => e.startsWith("start"))).toEqual(["start a", "start b", "start c", "start d", "start e"]);
+    // c takes a's slot while b is still running
+    expect(events.slice(0, 4)).toEqual(["start a", "start b", "end a", "start c"]);
+    expect([...results.keys()].sort()).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
@@ -0,0 +1,155 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { fetchBytes } from "@/lib/http";
+import { extractTable, locateSheets, parsePeriod, readTable } from "@/lib/table-locator";
+import type { KpiTableSpec } from "@/lib/types";
+
+const MEDIA = "https://assets.publishing.service.gov.uk/media";
+
+/** A workbook recorded in fixtures/http. */
+async function recordedWorkbook(url: string): Promise<XLSX.WorkBook> {
+  const res = await fetchBytes(url);
+  if (!res.ok) throw new Error(`${url}: ${res.error.message}`);
+  return XLSX.read(res.data, { type: "array" });
+}
+
+async function recordedRows(url: string, sheetName: string): Promise<unknown[][]> {
+  const workbook = await recordedWorkbook(url);
+  return XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: null });
+}
+
+const values = (spec: KpiTableSpec, rows: unknown[][]) => extractTable(rows, spec).map((p) => p.value);
+
+describe("parsePeriod", () => {
+  it("reads the quarter formats used across the release tables", () => {
+    const spec = { formats: ["quarter" as const] };
+    for (const cell of ["Jan-Mar 2024", "2024 1st quarter", "Q1 2024", "2024 Q1"]) {
+      expect(parsePeriod(cell, spec)).toMatchObject({ date: "2024-01-01", label: "Q1 2024" });
+    }
+    expect(parsePeriod("Feb-Apr 2024", spec)).toBeNull();
+  });
+
+  it("dates financial years at 31 March and rejects ranges that are not one year", () => {
+    const spec = { formats: ["financial-year" as const] };
+    expect(parsePeriod("2023-24", spec)).toMatchObject({ date: "2024-03-31", label: "2023-24" });
+    expect(parsePeriod("2023/2024", spec)).toMatchObject({ date: "2024-03-31" });
+    expect(parsePeriod("2022-24", spec)).toBeNull();
+  });
+
+  it("rounds Excel dates to the spec's granularity", () => {
+    // 45488 is 15 July 2024
+    expect(parsePeriod(45488, { formats: ["excel-date"], granularity: "month" })).toMatchObject({
+      date: "2024-07-01",
+      label: "Jul 2024",
+    });
+    expect(parsePeriod(45488, { formats: ["excel-date"], granularity: "day" })).toMatchObject({
+      date: "2024-07-15",
+      label: "15 Jul 2024",
+    });
+  });
+});
+
+describe("extractTable", () => {
+  it("reads a value column with periods down the rows", async () => {
+    const rows = await recordedRows(`${MEDIA}/lt213/LiveTable213.xlsx`, "213_England");
+    const points = extractTable(rows, {
+      id: "rows",
+      periodAxis: "rows",
+      period: { formats: ["quarter"], match: ["^quarter$"] },
+      value: { match: ["^completions: all"] },
+    });
+    expect(points.map((p) => p.value)).toEqual([34410, 33020, 33760, 32870, 33890]);
+    expect(points[4].period).toMatchObject({ date: "2025-01-01", label: "Q1 2025" });
+  });
+
+  it("reads a labelled row with periods across the header row", async () => {
+    const rows = await recordedRows(`${MEDIA}/lt120/LiveTable120.xlsx`, "Table 120");
+    const points = extractTable(rows, {
+      id: "columns",
+      periodAxis: "columns",
+      period: { formats: ["financial-year"] },
+      value: { match: ["^total net additional"] },
+    });
+    expect(points.map((p) => p.value)).toEqual([242700, 216490, 232820, 234400, 221070, 208600]);
+    expect(points[0].period).toMatchObject({ date: "2020-03-31", label: "2019-20" });
+  });
+
+  it("takes the first period row unless a header pattern picks a later section", async () => {
+    const rows = await recordedRows(`${MEDIA}/et61/ET_6.1_SEP_25.xlsx`, "Quarter");
+    const spec: KpiTableSpec = {
+      id: "shares",
+      periodAxis: "columns",
+      period: { formats: ["quarter"] },
+      value: { match: ["all renewable"] },
+    };
+    expect(values(spec, rows)).toEqual([30210, 29540, 37560, 34980, 31640]);
+    expect(values({ ...spec, header: ["^share"] }, rows)).toEqual([0.5253, 0.5219, 0.5447, 0.4823, 0.5468]);
+    expect(values({ ...spec, header: ["^share"], scale: { fractionToPercent: true, decimals: 1 } }, rows)).toEqual([
+      52.5, 52.2, 54.5, 48.2, 54.7,
+    ]);
+  });
+
+  it("adds the plus series that are present to the value", async () => {
+    const rows = await recordedRows(`${MEDIA}/police/police-workforce-mar25-tables.xlsx`, "Table_4");
+    const spec: KpiTableSpec = {
+      id: "totals",
+      periodAxis: "rows",
+      period: { formats: ["month-name"], granularity: "day", match: ["^as at$"] },
+      value: { match: ["^police officers$"], plus: [["^pcsos$"], ["^special constables$"]] },
+    };
+    expect(values(spec, rows)).toEqual([163210, 162030, 161700, 159600, 158990]);
+    // A missing added series is left out rather than failing the table
+    expect(values({ ...spec, value: { ...spec.value, plus: [["^pcsos$"], ["^volunteers$"]] } }, rows)[0]).toBe(
+      155460
+    );
+  });
+
+  it("multiplies and rounds values", async () => {
+    const rows = await recordedRows(
+      "https://www.england.nhs.uk/statistics/wp-content/uploads/sites/2/2025/09/RTT-Overview-Timeseries-Including-Estimates-for-Missing-Trusts-Jul25-XLS-100K.xlsx",
+      "Full Time Series"
+    );
+    const spec: KpiTableSpec = {
+      id: "waiting-list",
+      periodAxis: "rows",
+      period: { formats: ["excel-date"], granularity: "month", match: ["^month$"] },
+      value: { match: ["^total waiting.*\\(mil"] },
+      scale: { multiply: 1_000_000, decimals: 0 },
+    };
+    expect(values(spec, rows).slice(0, 3)).toEqual([7620000, 7640000, 7570000]);
+  });
+});
+
+describe("locateSheets", () => {
+  it("tries sheets in pattern order, each once, with exact names before regexes", async () => {
+    const police = await recordedWorkbook(`${MEDIA}/police/police-workforce-mar25-tables.xlsx`);
+    expect(locateSheets(police, { sheets: ["Table_4", "."], tables: [] })).toEqual(["Table_4", "Cover_sheet"]);
+
+    const energy = await recordedWorkbook(`${MEDIA}/et61/ET_6.1_SEP_25.xlsx`);
+    const sheets = ["quarter|qtr", "annual", "^(?!.*(content|note|cover|info))"];
+    expect(locateSheets(energy, { sheets, tables: [] })).toEqual(["Quarter"]);
+  });
+});
+
+describe("readTable", () => {
+  const totals: KpiTableSpec = {
+    id: "lt120:totals",
+    periodAxis: "columns",
+    period: { formats: ["financial-year"] },
+    value: { match: ["^total net additional"] },
+  };
+  const quarterly: KpiTableSpec = { ...totals, id: "lt120:quarters", period: { formats: ["quarter"] } };
+
+  it("returns the first sheet and spec that yield values", async () => {
+    const workbook = await recordedWorkbook(`${MEDIA}/lt120/LiveTable120.xlsx`);
+    const series = readTable(workbook, { sheets: ["."], tables: [quarterly, totals] }, "test");
+    expect(series).toMatchObject({ sheetName: "Table 120", specId: "lt120:totals" });
+    expect(series?.points).toHaveLength(6);
+  });
+
+  it("returns null when no sheet or no spec matches", async () => {
+    const workbook = await recordedWorkbook(`${MEDIA}/lt120/LiveTable120.xlsx`);
+    expect(readTable(workbook, { sheets: ["^Table 213"], tables: [totals] }, "test")).toBeNull();
+    expect(readTable(workbook, { sheets: ["."], tables: [quarterly] }, "test")).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { formatChange, formatValue } from "@/lib/units";
+
+describe("formatValue", () => {
+  it("abbreviates large counts, keeping a decimal below ten thousand", () => {
+    expect(formatValue(1_500_000, "homes")).toBe("1.5M");
+    expect(formatValue(300_000, "homes")).toBe("300k");
+    expect(formatValue(12_345, "homes")).toBe("12k");
+    expect(formatValue(1_234, "homes")).toBe("1.2k");
+    expect(formatValue(999, "homes")).toBe("999");
+  });
+
+  it("moves to the next unit when rounding reaches a thousand of the current one", () => {
+    expect(formatValue(999_600, "homes")).toBe("1.0M");
+    expect(formatValue(999_400, "homes")).toBe("999k");
+    expect(formatValue(9_960, "homes")).toBe("10k");
+    expect(formatValue(999.6, "homes")).toBe("1.0k");
+    expect(formatValue(999_960_000, "£")).toBe("£1.0bn");
+  });
+});
+
+describe("formatChange", () => {
+  it("signs abbreviated counts without losing the thousands decimal", () => {
+    expect(formatChange(1_500, "homes")).toBe("+1.5k");
+    expect(formatChange(-25_000, "homes")).toBe("−25k");
+    expect(formatChange(1.23, "%")).toBe("+1.2 pp");
+  });
+});
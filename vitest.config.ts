@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const fixtures = fileURLToPath(new URL("./test/fixtures/http", import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Fetchers only ever see recorded responses (see HTTP_CACHE_MODE in src/lib/http.ts)
+    env: { HTTP_CACHE_MODE: "replay", HTTP_CACHE_DIR: fixtures },
+  },
+});